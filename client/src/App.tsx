@@ -15,7 +15,7 @@ import PropertySummary from "@/components/PropertySummary";
 import ComparableProperties from "@/components/ComparableProperties";
 import NotFound from "@/pages/not-found";
 import GeocodingService from "@/services/geocoding";
-import SchoolScoringClient from "@/services/schoolScoring";
+import SchoolScoringClient, { SchoolScoreResult, SchoolLevelScore, SchoolChoiceOption } from "@/services/schoolScoring";
 import { apiRequest } from "@/lib/queryClient";
 
 // Property data extracted from StreetEasy
@@ -128,6 +128,274 @@ function getBoroughFromNeighborhood(neighborhood: string): string {
   return 'Manhattan';
 }
 
+// Detail payloads of the neighborhood enrichment, as returned by the subway,
+// parking and commute services
+interface TransitQualityComponents {
+  proximity: number;
+  lineCoverage: number;
+  expressService: number;
+  cbdReach: number;
+}
+
+interface SubwayDetails {
+  score: number;
+  nearestStation: string;
+  distanceInMiles: number;
+  walkMinutes?: number;
+  straightLineMiles?: number;
+  routing?: "street_network" | "straight_line";
+  transit?: {
+    score: number;
+    components: TransitQualityComponents;
+    weights: TransitQualityComponents;
+    stationsInRange: number;
+    linesInRange: string[];
+    expressLinesInRange: string[];
+    nearestExpressStation: string | null;
+    cbdStationsReachable: number;
+    cbdStationsTotal: number;
+    maxTransfers: number;
+  };
+  explanation: string;
+  dataSource: string;
+}
+
+interface NearbyGarage {
+  licenseNumber: string;
+  name: string;
+  address: string | null;
+  distanceMiles: number;
+  walkMinutes: number;
+  capacity: number | null;
+  hours: string | null;
+  monthlyRate: number | null;
+}
+
+interface StreetCleaningSchedule {
+  score: number;
+  blockFaces: number;
+  blockFacesWithCleaning: number;
+  movesPerWeek: number;
+  weeklyMoveBurdenHours: number;
+  lowestWeeklyMoveBurdenHours: number;
+  windows: Array<{ day: string; start: string; end: string; blockFaces: number; streets: string[] }>;
+}
+
+interface ParkingDetails {
+  score: number;
+  explanation: string;
+  dataSource: string;
+  curbRegulations?: {
+    score: number;
+    overnightAvailability: number;
+    weekendAvailability: number;
+    streets: Array<{ street: string; blockFaces: number; overnightAvailability: number; weekendAvailability: number }>;
+  };
+  streetCleaning?: StreetCleaningSchedule;
+  garages?: {
+    score: number;
+    walkingRadiusMiles: number;
+    garagesInRange: number;
+    garages: NearbyGarage[];
+    averageMonthlyRate: number | null;
+    cheapestMonthly: NearbyGarage | null;
+  };
+}
+
+interface CommuteDetail {
+  destination: string;
+  label?: string;
+  minutes: number | null;
+  score: number | null;
+  method: "gtfs" | "estimate" | "unresolved";
+  explanation: string;
+}
+
+interface CommuteDetails {
+  score: number | null;
+  averageMinutes: number | null;
+  commutes: CommuteDetail[];
+  explanation: string;
+  dataSource: string;
+}
+
+// Expand the subway enrichment result into one scoring factor per transit-quality component.
+// Scores are 0-100; flows that show 0-10 scores alongside percent weights pass a scale of 10.
+function buildTransitFactors(subway: SubwayDetails | undefined, weight: number, scale: number = 1) {
+  if (!subway) {
+    return [];
+  }
+
+  const walk = subway.walkMinutes !== undefined
+    ? `${subway.walkMinutes} min walk`
+    : `${(subway.distanceInMiles || 0).toFixed(2)} mi`;
+  const transit = subway.transit;
+
+  if (!transit) {
+    return [{
+      name: "Subway Proximity",
+      score: subway.score / scale,
+      weight,
+      explanation: subway.explanation,
+      dataSource: subway.dataSource,
+      value: walk
+    }];
+  }
+
+  return [
+    {
+      name: "Subway Proximity",
+      score: transit.components.proximity / scale,
+      weight: weight * transit.weights.proximity,
+      explanation: `${subway.nearestStation}, ${walk}${subway.routing === "street_network" ? " via the street network" : ""}`,
+      dataSource: subway.dataSource,
+      value: walk
+    },
+    {
+      name: "Subway Lines in Reach",
+      score: transit.components.lineCoverage / scale,
+      weight: weight * transit.weights.lineCoverage,
+      explanation: `${transit.linesInRange.length} lines at ${transit.stationsInRange} stations within walking range`,
+      dataSource: "NYC MTA GTFS Data",
+      value: transit.linesInRange.join(" ")
+    },
+    {
+      name: "Express Service",
+      score: transit.components.expressService / scale,
+      weight: weight * transit.weights.expressService,
+      explanation: transit.nearestExpressStation
+        ? `Express ${transit.expressLinesInRange.join(", ")} service at ${transit.nearestExpressStation}`
+        : "No express stops within walking range",
+      dataSource: "NYC MTA GTFS Data",
+      value: transit.expressLinesInRange.join(" ") || "Local only"
+    },
+    {
+      name: "Manhattan CBD Reach",
+      score: transit.components.cbdReach / scale,
+      weight: weight * transit.weights.cbdReach,
+      explanation: `${transit.cbdStationsReachable} of ${transit.cbdStationsTotal} Manhattan CBD stations reachable with ${transit.maxTransfers} transfer${transit.maxTransfers === 1 ? "" : "s"} or fewer`,
+      dataSource: "NYC MTA GTFS Data",
+      value: `${transit.components.cbdReach}%`
+    }
+  ];
+}
+
+// Parking availability, plus nearby garages and the alternate side street cleaning
+// burden when that data is loaded
+function buildParkingFactors(parking: ParkingDetails | undefined, weight: number) {
+  if (!parking) {
+    return [{
+      name: "Parking Availability",
+      score: 65,
+      weight,
+      explanation: "Parking availability analysis",
+      dataSource: "NYC Parking Data",
+      value: "Limited"
+    }];
+  }
+
+  const curb = parking.curbRegulations;
+  const cleaning = parking.streetCleaning;
+  const garages = parking.garages;
+  const availability = {
+    name: "Parking Availability",
+    score: parking.score,
+    weight: weight * (1 - (cleaning ? 0.3 : 0) - (garages ? 0.2 : 0)),
+    explanation: parking.explanation,
+    dataSource: parking.dataSource,
+    value: curb ? `${curb.overnightAvailability}% curb overnight` : `${parking.score}/100`,
+    details: curb?.streets.slice(0, 4).map(street =>
+      `${street.street}: ${street.overnightAvailability}% overnight, ${street.weekendAvailability}% weekends`
+    )
+  };
+
+  const factors = [availability];
+
+  if (garages) {
+    const cheapest = garages.cheapestMonthly;
+    factors.push({
+      name: "Nearby Garages",
+      score: garages.score,
+      weight: weight * 0.2,
+      explanation: cheapest
+        ? `Cheapest monthly spot: $${cheapest.monthlyRate} at ${cheapest.name}, ${cheapest.walkMinutes} min walk`
+        : `${garages.garagesInRange} licensed garages within a 10 minute walk`,
+      dataSource: "DCWP Licensed Garages",
+      value: garages.averageMonthlyRate ? `~$${garages.averageMonthlyRate}/mo` : `${garages.garagesInRange} garages`,
+      details: garages.garages.map(garage =>
+        `${garage.name}: ${garage.walkMinutes} min walk${garage.capacity ? `, ${garage.capacity} spaces` : ""}${garage.monthlyRate ? `, $${garage.monthlyRate}/mo` : ""}${garage.hours ? `, ${garage.hours}` : ""}`
+      )
+    });
+  }
+
+  if (cleaning) {
+    factors.push({
+      name: "Street Cleaning",
+      score: cleaning.score,
+      weight: weight * 0.3,
+      explanation: cleaning.movesPerWeek > 0
+        ? `${cleaning.movesPerWeek} move${cleaning.movesPerWeek === 1 ? "" : "s"} a week on a typical nearby block; ${cleaning.lowestWeeklyMoveBurdenHours} h/week on the easiest block`
+        : "No alternate side street cleaning on nearby blocks",
+      dataSource: "DOT Parking Regulation Signs",
+      value: `${cleaning.weeklyMoveBurdenHours} h/week`,
+      details: cleaning.windows.map(window =>
+        `${window.day} ${window.start}–${window.end}: ${window.streets.slice(0, 3).join(", ")}`
+      )
+    });
+  }
+
+  return factors;
+}
+
+const SCHOOL_PROGRAM_LABELS: Record<string, string> = {
+  gifted_talented: "G&T",
+  dual_language: "Dual Language",
+  screened: "Screened",
+  charter: "Charter"
+};
+
+// Zoned school quality with each zoned school's multi-year trend, plus the best
+// option among district programs and nearby charters. The location score uses the zoned score, so the best accessible
+// option is shown without a weight of its own
+function buildSchoolFactors(school: SchoolScoreResult | null, weight: number) {
+  // A fallback result has no school score; show it as unavailable rather than an estimate
+  const zonedScore: number | null = school && school.computed !== false ? school.zonedScore ?? school.score ?? null : null;
+  const zoned = {
+    name: "Schools",
+    score: zonedScore === null ? null : zonedScore / 10,
+    weight,
+    explanation: zonedScore === null
+      ? "School quality unavailable"
+      : school?.levels?.length ? "Zoned school quality by level" : "School quality and proximity",
+    dataSource: "NYC School Data",
+    value: zonedScore ?? "Unavailable",
+    details: school?.levels?.map((level: SchoolLevelScore) =>
+      `${level.schoolName}: ${level.score}/100 (${level.value})${level.trend ? `, ${level.trend.direction} ${level.trend.slope > 0 ? "+" : ""}${level.trend.slope}/yr` : ""}`
+    ),
+    charts: school?.levels
+      ?.flatMap((level: SchoolLevelScore) => level.trend ? [{
+        title: `${level.schoolName} rating by report year`,
+        points: level.trend.years.map(year => ({ label: year.reportYear, value: year.compositeRating }))
+      }] : [])
+  };
+
+  if (!school?.choiceOptions?.length || school.bestAccessibleScore === null) {
+    return [zoned];
+  }
+
+  return [zoned, {
+    name: "Best Accessible School",
+    score: school.bestAccessibleScore / 10,
+    weight: 0,
+    explanation: "Best of the zoned schools, district G&T, dual language and screened programs, and nearby charters",
+    dataSource: "NYC DOE School Directories",
+    value: school.bestAccessibleScore,
+    details: school.choiceOptions.slice(0, 5).map((option: SchoolChoiceOption) =>
+      `${option.schoolName} (${option.programName || SCHOOL_PROGRAM_LABELS[option.programType]}): ${option.score}/100, ${option.distanceMiles} mi, ${option.value}`
+    )
+  }];
+}
+
 // Todo: remove mock functionality
 interface PropertyData {
   address: string;
@@ -168,11 +436,13 @@ interface AnalysisResult {
       baseScore: number;
       adjustments: Array<{
         name: string;
-        score: number;
+        score: number | null; // Null when the factor could not be computed
         weight: number;
         explanation: string;
         dataSource: string;
         value?: string | number;
+        details?: string[];
+        charts?: Array<{ title: string; points: Array<{ label: string; value: number }> }>;
       }>;
       calculation: string;
       dataQuality: {
@@ -197,6 +467,49 @@ interface AnalysisResult {
   }>;
 }
 
+// Commute results become their own category; the score is already part of the
+// location score, so the category carries no separate weight
+function buildCommuteCategory(commute: CommuteDetails | null | undefined): AnalysisResult["categories"][number] | null {
+  if (!commute || commute.score === null || commute.score === undefined) {
+    return null;
+  }
+
+  const resolved = commute.commutes.filter(
+    (item): item is CommuteDetail & { minutes: number; score: number } => item.minutes !== null && item.score !== null
+  );
+  const positive = resolved
+    .filter(item => item.score >= 70)
+    .map(item => `${item.minutes} min to ${item.label || item.destination}`);
+  const negative = resolved
+    .filter(item => item.score < 40)
+    .map(item => `${item.minutes} min to ${item.label || item.destination}`);
+
+  return {
+    name: "Commute",
+    score: commute.score,
+    weight: 0,
+    description: `Average ${commute.averageMinutes} min door-to-door, included in the location score`,
+    topFactors: { positive, negative },
+    methodology: {
+      baseScore: commute.score,
+      calculation: "Average of per-destination scores from weekday AM peak door-to-door time (walk + wait + ride + transfers)",
+      adjustments: resolved.map(item => ({
+        name: item.label || item.destination,
+        score: item.score,
+        weight: 1 / resolved.length,
+        explanation: item.explanation,
+        dataSource: item.method === "gtfs" ? "NYC MTA GTFS Schedule" : "Distance estimate",
+        value: `${item.minutes} min`
+      })),
+      dataQuality: {
+        completeness: Math.round((resolved.length / commute.commutes.length) * 100),
+        confidence: resolved.every(item => item.method === "gtfs") ? 85 : 55,
+        sources: [commute.dataSource]
+      }
+    }
+  };
+}
+
 function HomeContent() {
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
@@ -282,18 +595,13 @@ function HomeContent() {
       let locationData = null;
       let schoolScore = null;
       
-      // Try to get coordinates from the extracted address
+      // Geocode the listing's address, falling back to the address in its URL
       if (extractedProperty.address) {
-        try {
-          locationData = await geocodingService.extractFromStreetEasyUrl(data.url);
-        } catch (error) {
-          console.warn("Geocoding from URL failed, trying address:", error);
-          try {
-            locationData = await geocodingService.geocodeAddress(extractedProperty.address);
-          } catch (addressError) {
-            console.warn("Address geocoding also failed:", addressError);
-          }
-        }
+        locationData = await geocodingService.geocodeAddress(extractedProperty.address);
+      }
+      if (!locationData) {
+        console.warn("Address geocoding failed, trying the listing URL");
+        locationData = await geocodingService.extractFromStreetEasyUrl(data.url);
       }
       
       // Try to get school scoring if we have location data
@@ -302,7 +610,7 @@ function HomeContent() {
           schoolScore = await schoolScoringClient.calculateSchoolScore(
             locationData.lat, 
             locationData.lng, 
-            locationData.borough || borough || "Manhattan"
+            locationData.borough
           );
         } catch (schoolError) {
           console.warn("School scoring failed, using fallback:", schoolError);
@@ -311,17 +619,13 @@ function HomeContent() {
       
       // Use fallback school score if needed
       if (!schoolScore) {
-        schoolScore = {
-          score: 65,
-          explanation: "School data unavailable for this location. Using neighborhood average.",
-          dataSource: "Fallback estimate",
-          value: "Estimated"
-        };
+        schoolScore = schoolScoringClient.unavailable(locationData?.borough || borough || "Manhattan");
       }
 
       // Create analysis result with real extracted property data and school scoring
-      const finalBorough = borough || locationData?.borough || "Manhattan";
-      const finalNeighborhood = extractedProperty.neighborhood || locationData?.neighborhood || finalBorough;
+      // The geocoded borough and neighborhood win over the listing's own labels
+      const finalBorough = locationData?.borough || borough || "Manhattan";
+      const finalNeighborhood = locationData?.neighborhood || extractedProperty.neighborhood || finalBorough;
       
       // Generate contextual factors based on extracted property data
       const propertyDataForFactors = {
@@ -785,7 +1089,7 @@ function HomeContent() {
     }
   };
 
-  const handleAddressSubmit = async (data: { address: string }) => {
+  const handleAddressSubmit = async (data: { address: string; commuteDestinations?: string[] }) => {
     console.log("Analyzing address:", data);
     setIsAnalyzing(true);
     
@@ -793,12 +1097,10 @@ function HomeContent() {
       // Get geocoding first to get coordinates
       const geocodingService = GeocodingService.getInstance();
       
-      let locationData = null;
-      try {
-        locationData = await geocodingService.geocodeAddress(data.address);
-        console.log("Geocoding result for address:", locationData);
-      } catch (error) {
-        console.warn("Address geocoding failed:", error);
+      const locationData = await geocodingService.geocodeAddress(data.address);
+      console.log("Geocoding result for address:", locationData);
+      
+      if (!locationData) {
         toast({
           title: "Geocoding Failed",
           description: "Unable to find location coordinates for this address.",
@@ -808,22 +1110,13 @@ function HomeContent() {
         return;
       }
       
-      if (!locationData || !locationData.lat || !locationData.lng) {
-        toast({
-          title: "Invalid Location",
-          description: "Unable to get valid coordinates for this address.",
-          variant: "destructive",
-        });
-        setIsAnalyzing(false);
-        return;
-      }
-      
       // Use comprehensive neighborhood enrichment API
       try {
         const enrichmentResponse = await apiRequest("POST", "/api/enrich-location", {
           lat: locationData.lat,
           lng: locationData.lng,
-          address: data.address
+          address: data.address,
+          commuteDestinations: data.commuteDestinations?.map((address: string) => ({ address }))
         });
         
         const enrichmentData = await enrichmentResponse.json();
@@ -836,22 +1129,16 @@ function HomeContent() {
           schoolScore = await schoolScoringClient.calculateSchoolScore(
             locationData.lat, 
             locationData.lng, 
-            locationData.borough || "Manhattan"
+            locationData.borough
           );
         } catch (schoolError) {
           console.warn("School scoring failed, using fallback:", schoolError);
-          schoolScore = {
-            score: 65,
-            explanation: "School data unavailable for this location. Using neighborhood average.",
-            dataSource: "Fallback estimate",
-            value: "Estimated"
-          };
+          schoolScore = schoolScoringClient.unavailable(locationData.borough);
         }
 
         // Determine final location details
-        const finalNeighborhood = locationData?.neighborhood || 
-                                 (locationData?.borough && locationData.borough !== "Manhattan" ? locationData.borough : "Upper East Side");
-        const finalBorough = locationData?.borough || "Manhattan";
+        const finalNeighborhood = locationData.neighborhood || locationData.borough;
+        const finalBorough = locationData.borough;
         
         console.log("Final neighborhood determined:", finalNeighborhood);
         
@@ -871,10 +1158,11 @@ function HomeContent() {
         const contextualFactors = generateContextualFactors(mockPropertyData);
         
         // Enhance location factors with real enrichment data
-        if (enrichmentData.subway) {
+        const subwayDetails = enrichmentData.details?.subway;
+        if (subwayDetails?.walkMinutes !== undefined) {
           contextualFactors.location.positive = [
             ...contextualFactors.location.positive,
-            `${enrichmentData.subway.nearestStations[0]?.distance.toFixed(1)} mile walk to ${enrichmentData.subway.nearestStations[0]?.name} station`
+            `${subwayDetails.walkMinutes} min walk to ${subwayDetails.nearestStation} station`
           ];
         }
         
@@ -897,6 +1185,11 @@ function HomeContent() {
         } else if (enrichmentData.parking?.score >= 70) {
           contextualFactors.location.positive.push(`Good parking availability: ${enrichmentData.parking.description}`);
         }
+
+        const streetCleaning = enrichmentData.details?.parking?.streetCleaning;
+        if (streetCleaning?.weeklyMoveBurdenHours >= 3) {
+          contextualFactors.location.negative.push(`~${streetCleaning.weeklyMoveBurdenHours} h/week moving the car for street cleaning`);
+        }
         
         const analysisResult: AnalysisResult = {
           property: {
@@ -959,14 +1252,7 @@ function HomeContent() {
                 baseScore: enrichmentData.overallScore || 78,
                 calculation: "Weighted combination of subway access, walkability, noise levels, and parking availability",
                 adjustments: [
-                  {
-                    name: "Subway Proximity",
-                    score: enrichmentData.subway?.overallScore || 75,
-                    weight: 0.35,
-                    explanation: enrichmentData.subway?.description || "Subway access analysis",
-                    dataSource: "NYC MTA API",
-                    value: enrichmentData.subway?.nearestStations[0]?.name || "Nearby station"
-                  },
+                  ...buildTransitFactors(subwayDetails, 0.35),
                   {
                     name: "Walkability Score",
                     score: enrichmentData.walkability?.score || 80,
@@ -983,14 +1269,7 @@ function HomeContent() {
                     dataSource: "Traffic & Environmental Data",
                     value: enrichmentData.noise?.level || "Moderate"
                   },
-                  {
-                    name: "Parking Availability",
-                    score: enrichmentData.parking?.score || 65,
-                    weight: 0.15,
-                    explanation: enrichmentData.parking?.description || "Parking availability analysis",
-                    dataSource: "NYC Parking Data",
-                    value: enrichmentData.parking?.availability || "Limited"
-                  }
+                  ...buildParkingFactors(enrichmentData.details?.parking, 0.15)
                 ],
                 dataQuality: {
                   completeness: 90,
@@ -1024,6 +1303,11 @@ function HomeContent() {
           comparables: [], // No comparables for address search
         };
         
+        const commuteCategory = buildCommuteCategory(enrichmentData.details?.commute);
+        if (commuteCategory) {
+          analysisResult.categories.push(commuteCategory);
+        }
+        
         setAnalysisResult(analysisResult);
         toast({
           title: "Address Analysis Complete",
@@ -1281,7 +1565,6 @@ function HomeContent() {
     try {
       // First, geocode the address to get coordinates
       const geocodingService = GeocodingService.getInstance();
-      let locationData = null;
       
       if (!data.address) {
         toast({
@@ -1293,10 +1576,9 @@ function HomeContent() {
         return;
       }
       
-      try {
-        locationData = await geocodingService.geocodeAddress(data.address);
-      } catch (geocodingError) {
-        console.warn("Geocoding failed:", geocodingError);
+      const locationData = await geocodingService.geocodeAddress(data.address);
+      
+      if (!locationData) {
         toast({
           title: "Address Not Found",
           description: "Unable to locate this address. Please check the address and try again.",
@@ -1306,16 +1588,6 @@ function HomeContent() {
         return;
       }
       
-      if (!locationData || !locationData.lat || !locationData.lng) {
-        toast({
-          title: "Invalid Location",
-          description: "Unable to get valid coordinates for this address.",
-          variant: "destructive",
-        });
-        setIsAnalyzing(false);
-        return;
-      }
-      
       console.log(`Manual analysis geocoded ${data.address} to:`, locationData);
       
       // Get comprehensive neighborhood enrichment
@@ -1324,7 +1596,8 @@ function HomeContent() {
         const enrichmentResponse = await apiRequest("POST", "/api/enrich-location", {
           lat: locationData.lat,
           lng: locationData.lng,
-          address: data.address
+          address: data.address,
+          commuteDestinations: data.commuteDestinations?.map((address: string) => ({ address }))
         });
         
         enrichmentData = await enrichmentResponse.json();
@@ -1340,16 +1613,11 @@ function HomeContent() {
         schoolScore = await schoolScoringClient.calculateSchoolScore(
           locationData.lat, 
           locationData.lng, 
-          locationData.borough || "Manhattan"
+          locationData.borough
         );
       } catch (schoolError) {
         console.warn("School scoring failed, using fallback:", schoolError);
-        schoolScore = {
-          score: 65,
-          explanation: "School data unavailable for this location. Using neighborhood average.",
-          dataSource: "Fallback estimate",
-          value: "Estimated"
-        };
+        schoolScore = schoolScoringClient.unavailable(locationData.borough);
       }
       
       // Get comprehensive market analysis
@@ -1375,10 +1643,8 @@ function HomeContent() {
       }
       
       // Determine final location details from real data
-      const finalNeighborhood = enrichmentData?.neighborhood || 
-                               locationData?.neighborhood || 
-                               (locationData?.borough && locationData.borough !== "Manhattan" ? locationData.borough : "Upper East Side");
-      const finalBorough = locationData?.borough || "Manhattan";
+      const finalNeighborhood = locationData.neighborhood || enrichmentData?.neighborhood || locationData.borough;
+      const finalBorough = locationData.borough;
       
       console.log("Final neighborhood determined:", finalNeighborhood);
       
@@ -1386,8 +1652,9 @@ function HomeContent() {
       const contextualFactors = generateContextualFactors(data);
       
       // Enhance location factors with real enrichment data
-      if (enrichmentData?.subway?.nearestStation) {
-        contextualFactors.location.positive.push(`Near ${enrichmentData.subway.nearestStation} station (${enrichmentData.subway.distance}ft)`);
+      const subwayDetails = enrichmentData?.details?.subway;
+      if (subwayDetails?.walkMinutes !== undefined) {
+        contextualFactors.location.positive.push(`Near ${subwayDetails.nearestStation} station (${subwayDetails.walkMinutes} min walk)`);
       }
       if (enrichmentData?.walkability?.score > 75) {
         contextualFactors.location.positive.push(`High walkability score: ${enrichmentData.walkability.score}/100`);
@@ -1479,14 +1746,7 @@ function HomeContent() {
             methodology: enrichmentData ? {
               baseScore: enrichmentData.location?.overallScore || schoolScore?.score || 65,
               adjustments: [
-                {
-                  name: "Transit Access",
-                  score: enrichmentData.subway?.score || 5,
-                  weight: 35,
-                  explanation: `${enrichmentData.subway?.nearestStation || 'Unknown'} station`,
-                  dataSource: "MTA Data",
-                  value: `${enrichmentData.subway?.distance || 'N/A'}ft`
-                },
+                ...buildTransitFactors(subwayDetails, 35, 10),
                 {
                   name: "Walkability",
                   score: (enrichmentData.walkability?.score || 60) / 10,
@@ -1495,14 +1755,7 @@ function HomeContent() {
                   dataSource: "OpenStreetMap",
                   value: `${enrichmentData.walkability?.score || 60}/100`
                 },
-                {
-                  name: "Schools",
-                  score: (schoolScore?.score || 65) / 10,
-                  weight: 25,
-                  explanation: "School quality and proximity",
-                  dataSource: "NYC School Data",
-                  value: schoolScore?.score || 65
-                },
+                ...buildSchoolFactors(schoolScore, 25),
                 {
                   name: "Neighborhood Character",
                   score: 7,
@@ -1659,6 +1912,11 @@ function HomeContent() {
         comparables: marketAnalysis?.comparables || [],
       };
       
+      const commuteCategory = buildCommuteCategory(enrichmentData?.details?.commute);
+      if (commuteCategory) {
+        analysisResult.categories.push(commuteCategory);
+      }
+      
       setAnalysisResult(analysisResult);
       setIsAnalyzing(false);
       
@@ -17,18 +17,27 @@ import {
   Calculator,
   Target,
   AlertTriangle,
+  Briefcase,
 } from "lucide-react";
 import { useState } from "react";
+import { LineChart, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
 
 interface ScoringFactor {
   name: string;
-  score: number; // 0-100 normalized score
+  score: number | null; // 0-100 normalized score, null when the factor could not be computed
   weight: number; // 0-1 representing importance in category
   explanation: string;
   dataSource: string;
   value?: string | number;
   verdict?: "underpriced" | "overpriced" | "fair";
   multiplier?: number;
+  details?: string[]; // Extra lines, e.g. per-street parking or a street cleaning calendar
+  charts?: FactorChart[]; // Small multi-year charts, e.g. a school's rating by report year
+}
+
+interface FactorChart {
+  title: string;
+  points: Array<{ label: string; value: number }>;
 }
 
 interface CategoryScore {
@@ -136,10 +145,10 @@ function CategoryDetailsExplainer({ category }: { category: CategoryScore }) {
               }
             } else if (!isFairValue) {
               // Normalized score coloring for non-Fair Value categories
-              if (factor.score >= 70) {
+              if (factor.score !== null && factor.score >= 70) {
                 impactColor = 'text-green-600';
                 impactBg = 'bg-green-50 dark:bg-green-950/30';
-              } else if (factor.score <= 30) {
+              } else if (factor.score !== null && factor.score <= 30) {
                 impactColor = 'text-red-500';
                 impactBg = 'bg-red-50 dark:bg-red-950/30';
               } else {
@@ -161,6 +170,36 @@ function CategoryDetailsExplainer({ category }: { category: CategoryScore }) {
                       )}
                     </div>
                     <p className="text-xs text-muted-foreground">{factor.explanation}</p>
+                    {factor.details && factor.details.length > 0 && (
+                      <ul className="text-xs text-muted-foreground list-disc pl-4 space-y-0.5">
+                        {factor.details.map((detail, i) => (
+                          <li key={i}>{detail}</li>
+                        ))}
+                      </ul>
+                    )}
+                    {factor.charts && factor.charts.length > 0 && (
+                      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                        {factor.charts.map((chart) => (
+                          <div key={chart.title} className="space-y-0.5">
+                            <p className="text-xs text-muted-foreground">{chart.title}</p>
+                            <div className="h-12">
+                              <ResponsiveContainer width="100%" height="100%">
+                                <LineChart data={chart.points} margin={{ top: 4, right: 4, bottom: 0, left: 4 }}>
+                                  <XAxis dataKey="label" hide />
+                                  <YAxis domain={["dataMin - 0.5", "dataMax + 0.5"]} hide />
+                                  <Tooltip
+                                    contentStyle={{ fontSize: 11, padding: "2px 6px" }}
+                                    labelStyle={{ fontSize: 11 }}
+                                    formatter={(value: number) => [value.toFixed(1), "Rating"]}
+                                  />
+                                  <Line type="monotone" dataKey="value" stroke="hsl(var(--primary))" strokeWidth={2} dot={{ r: 2 }} isAnimationActive={false} />
+                                </LineChart>
+                              </ResponsiveContainer>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    )}
                     <div className="flex items-center space-x-4 text-xs text-muted-foreground">
                       <span>Source: {factor.dataSource}</span>
                       {!isFairValue && (
@@ -171,9 +210,9 @@ function CategoryDetailsExplainer({ category }: { category: CategoryScore }) {
                   {!isFairValue && (
                     <div className="text-right">
                       <div className={`font-mono font-semibold ${impactColor}`}>
-                        {factor.score}/100
+                        {factor.score === null ? "—" : `${factor.score}/100`}
                       </div>
-                      <div className="text-xs text-muted-foreground">score</div>
+                      <div className="text-xs text-muted-foreground">{factor.score === null ? "unavailable" : "score"}</div>
                     </div>
                   )}
                 </div>
@@ -245,6 +284,8 @@ export default function CategoryBreakdown({ categories, onViewDetails }: Categor
         return Home;
       case "bonuses/penalties":
         return Plus;
+      case "commute":
+        return Briefcase;
       default:
         return InfoIcon;
     }
@@ -284,7 +325,7 @@ export default function CategoryBreakdown({ categories, onViewDetails }: Categor
                     <div>
                       <h3 className="font-semibold text-sm">{category.name}</h3>
                       <p className="text-xs text-muted-foreground">
-                        Weight: {category.weight}% • {category.description}
+                        {category.weight > 0 && <>Weight: {category.weight}% • </>}{category.description}
                       </p>
                     </div>
                   </div>
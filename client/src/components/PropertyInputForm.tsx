@@ -21,7 +21,8 @@ import {
   CheckCircle,
   DollarSign,
   Edit3,
-  Search
+  Search,
+  Briefcase
 } from "lucide-react";
 
 // Separate schemas for different input methods
@@ -50,10 +51,25 @@ type UrlInputData = z.infer<typeof urlInputSchema>;
 type AddressInputData = z.infer<typeof addressInputSchema>;
 type ManualInputData = z.infer<typeof manualInputSchema>;
 
+// Optional commute destinations entered alongside an address, one per line
+interface CommuteInput {
+  commuteDestinations?: string[];
+}
+
+const MAX_COMMUTE_DESTINATIONS = 5;
+
+function parseCommuteDestinations(text: string): string[] {
+  return text
+    .split("\n")
+    .map(line => line.trim())
+    .filter(line => line.length > 0)
+    .slice(0, MAX_COMMUTE_DESTINATIONS);
+}
+
 interface PropertyInputFormProps {
   onSubmitUrl: (data: UrlInputData) => void;
-  onSubmitAddress: (data: AddressInputData) => void;
-  onSubmitManual: (data: ManualInputData) => void;
+  onSubmitAddress: (data: AddressInputData & CommuteInput) => void;
+  onSubmitManual: (data: ManualInputData & CommuteInput) => void;
   isLoading?: boolean;
   extractionProgress?: {
     step: string;
@@ -72,6 +88,7 @@ export default function PropertyInputForm({
 }: PropertyInputFormProps) {
   const [inputMethod, setInputMethod] = useState<"url" | "address" | "manual">("url");
   const [showManualCorrections, setShowManualCorrections] = useState(false);
+  const [commuteText, setCommuteText] = useState("");
 
   // URL form
   const urlForm = useForm<UrlInputData>({
@@ -103,13 +120,13 @@ export default function PropertyInputForm({
   // Handle address submission
   const onAddressSubmit = (data: AddressInputData) => {
     console.log("Address submitted:", data);
-    onSubmitAddress(data);
+    onSubmitAddress({ ...data, commuteDestinations: parseCommuteDestinations(commuteText) });
   };
 
   // Handle manual submission
   const onManualSubmit = (data: ManualInputData) => {
     console.log("Manual data submitted:", data);
-    onSubmitManual(data);
+    onSubmitManual({ ...data, commuteDestinations: parseCommuteDestinations(commuteText) });
   };
 
   // Show manual corrections when extraction confidence is low
@@ -118,6 +135,24 @@ export default function PropertyInputForm({
     setInputMethod("manual");
   }
 
+  const commuteInput = (
+    <div>
+      <Label htmlFor="commute-destinations" className="flex items-center space-x-2">
+        <Briefcase className="w-4 h-4" />
+        <span>Commute Destinations</span>
+      </Label>
+      <Textarea
+        data-testid="textarea-commute-destinations"
+        id="commute-destinations"
+        placeholder={"Office or school address, one per line (up to 5)\ne.g. 200 Park Ave, New York, NY"}
+        className="mt-2"
+        rows={2}
+        value={commuteText}
+        onChange={(event) => setCommuteText(event.target.value)}
+      />
+    </div>
+  );
+
   return (
     <Card className="w-full max-w-2xl mx-auto">
       <CardContent className="space-y-6 pt-6">
@@ -210,6 +245,8 @@ export default function PropertyInputForm({
                   </p>
                 )}
               </div>
+
+              {commuteInput}
             </form>
 
             <div className="flex items-center space-x-4 text-sm">
@@ -400,6 +437,10 @@ export default function PropertyInputForm({
                     {...manualForm.register("description")}
                   />
                 </div>
+
+                <div className="md:col-span-2">
+                  {commuteInput}
+                </div>
               </div>
 
               <div className="flex space-x-3">
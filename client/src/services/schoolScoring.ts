@@ -1,12 +1,58 @@
 // Frontend client for school scoring API
-interface SchoolScoreResult {
+export interface SchoolLevelScore {
+  level: "elementary" | "middle" | "high";
   score: number;
   schoolDbn: string;
   schoolName: string;
+  grades: string;
+  explanation: string;
+  value: string;
+  auditId: string;
+  trend: {
+    direction: "improving" | "stable" | "declining";
+    slope: number;
+    years: Array<{
+      reportYear: string;
+      elaProficiency: number | null;
+      mathProficiency: number | null;
+      schoolEnvironment: number | null;
+      attendanceRate: number | null;
+      compositeRating: number;
+    }>;
+  } | null;
+}
+
+export interface SchoolChoiceOption {
+  dbn: string;
+  schoolName: string;
+  programType: "gifted_talented" | "dual_language" | "screened" | "charter";
+  programName: string | null;
+  grades: string;
+  levels: Array<"elementary" | "middle" | "high">;
+  distanceMiles: number;
+  access: "district" | "distance";
+  score: number;
+  compositeRating: number;
+  elaProficiency: number | null;
+  mathProficiency: number | null;
+  schoolEnvironment: number | null;
+  attendanceRate: number | null;
+  value: string;
+}
+
+export interface SchoolScoreResult {
+  score: number | null; // Null for fallback results
+  zonedScore: number | null; // Null when the server could not score the zoned schools
+  bestAccessibleScore: number | null;
+  computed?: boolean; // False for fallback results
+  schoolDbn: string;
+  schoolName: string;
   explanation: string;
   dataSource: string;
   value: string;
   auditId: string;
+  levels: SchoolLevelScore[];
+  choiceOptions: SchoolChoiceOption[];
 }
 
 interface SchoolScoreApiRequest {
@@ -45,18 +91,30 @@ class SchoolScoringClient {
       console.error('School scoring API error:', error);
       
       // Return fallback data if API fails
-      return {
-        score: 65,
-        schoolDbn: 'FALLBACK',
-        schoolName: `${borough} Area Schools`,
-        explanation: `Using ${borough} area school average (API unavailable)`,
-        dataSource: 'Fallback - Borough Average',
-        value: '6.5/10 estimated',
-        auditId: 'FALLBACK'
-      };
+      return this.unavailable(borough);
     }
   }
 
+  /**
+   * Fallback result for when no school could be scored; it carries no score
+   */
+  unavailable(borough: string): SchoolScoreResult {
+    return {
+      score: null,
+      schoolDbn: 'FALLBACK',
+      schoolName: `${borough} Area Schools`,
+      explanation: 'School quality unavailable for this location',
+      dataSource: 'Unavailable',
+      value: 'Unavailable',
+      auditId: 'FALLBACK',
+      computed: false,
+      zonedScore: null,
+      bestAccessibleScore: null,
+      levels: [],
+      choiceOptions: []
+    };
+  }
+
   async analyzeProperty(address: string, lat: number, lng: number, borough: string): Promise<any> {
     try {
       const response = await fetch('/api/analyze-property', {
@@ -0,0 +1,73 @@
+import fs from 'fs';
+import { z } from 'zod';
+import { percentileOf, calibrateByPercentile, applyOverrides, overrideRuleSchema } from '../server/utils/schoolCalibration';
+import { calculateCompositeRating } from '../server/utils/schoolQuality';
+
+interface RegressionCase {
+  name: string;
+  dbn?: string;
+  metrics: {
+    ela_proficiency?: number;
+    math_proficiency?: number;
+    school_environment?: number;
+    attendance_rate?: number;
+  };
+  expectedBand: [number, number];
+  expectedOverride?: string | null; // Rule id expected to bound the score; null for none
+}
+
+interface CalibrationFixture {
+  distribution: { datasetYear: string | null; percentiles: number[] };
+  overrideRules: unknown[];
+  percentileChecks: Array<{ rating: number; expected: number }>;
+  cases: RegressionCase[];
+}
+
+// Usage: npm run check:school-calibration -- [path/to/fixture.json]
+// Scores a set of known schools against the fixture's citywide distribution and
+// override rules, and fails if any falls outside its expected band or gets the
+// wrong override. Needs no database, so it runs in CI.
+function checkSchoolCalibration() {
+  const fixturePath = process.argv[2] || 'scripts/fixtures/school-calibration-regression.json';
+
+  try {
+    const fixture: CalibrationFixture = JSON.parse(fs.readFileSync(fixturePath, 'utf8'));
+    const { percentiles, datasetYear } = fixture.distribution;
+    const rules = z.array(overrideRuleSchema).parse(fixture.overrideRules);
+    let failures = 0;
+
+    for (const check of fixture.percentileChecks) {
+      const percentile = percentileOf(check.rating, percentiles);
+      const passed = Math.abs(percentile - check.expected) < 0.01;
+      if (!passed) failures++;
+      console.log(`${passed ? '✅' : '❌'} percentileOf(${check.rating}): ${percentile.toFixed(2)} (expected ${check.expected})`);
+    }
+
+    for (const testCase of fixture.cases) {
+      const dbn = testCase.dbn || '';
+      const compositeRating = calculateCompositeRating({ dbn, school_name: testCase.name, ...testCase.metrics });
+      const calibration = applyOverrides(rules, dbn, compositeRating, calibrateByPercentile(compositeRating, percentiles, datasetYear));
+
+      const [low, high] = testCase.expectedBand;
+      const inBand = calibration.score >= low && calibration.score <= high;
+      const overrideMatches = testCase.expectedOverride === undefined ||
+        (calibration.override?.ruleId ?? null) === testCase.expectedOverride;
+      const passed = inBand && overrideMatches;
+      if (!passed) failures++;
+
+      const override = calibration.override ? `, override ${calibration.override.ruleId}` : '';
+      console.log(`${passed ? '✅' : '❌'} ${testCase.name}: ${calibration.score} (expected ${low}-${high}, composite ${compositeRating.toFixed(2)}${override})`);
+    }
+
+    const total = fixture.percentileChecks.length + fixture.cases.length;
+    console.log(`${total - failures}/${total} calibration checks passed`);
+    if (failures > 0) {
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error('❌ School calibration check failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  }
+}
+
+checkSchoolCalibration();
@@ -0,0 +1,35 @@
+import { SchoolZoneIndex } from '../server/services/schoolZoneIndex';
+import { SchoolZoneLoader } from '../server/services/schoolZoneLoader';
+import { pool } from '../server/db';
+
+// Usage: npm run data:school-zones -- [school year] [directory]
+// Imports every elementary*, middle* and high* zone file (GeoJSON or shapefile, one per level
+// or one per level and borough) from data/school-zones/<school year>, e.g. data/school-zones/2025-2026.
+// Defaults to the newest school year directory. Lookups use the newest imported year unless
+// SCHOOL_ZONE_YEAR is set.
+async function importSchoolZones() {
+  const schoolYear = process.argv[2] || SchoolZoneLoader.latestLocalSchoolYear();
+  const directory = process.argv[3];
+
+  try {
+    if (!schoolYear) {
+      throw new Error(`No school year given and no year directories in ${SchoolZoneLoader.zonesRoot()}`);
+    }
+
+    const result = await SchoolZoneIndex.getInstance().refresh(schoolYear, directory);
+    console.log(`✅ Imported ${result.schoolYear} school zones from ${result.files.length} files`);
+    for (const [level, count] of Object.entries(result.byLevel)) {
+      console.log(`  ${level}: ${count} zones`);
+    }
+    if (result.skippedFeatures > 0) {
+      console.log(`  skipped ${result.skippedFeatures} features without a DBN`);
+    }
+  } catch (error) {
+    console.error('❌ Failed to import school zones:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
+
+importSchoolZones();
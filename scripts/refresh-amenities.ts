@@ -0,0 +1,27 @@
+import { AmenityIndexService } from '../server/services/amenityIndex';
+import { pool } from '../server/db';
+
+// Usage: npm run data:amenities -- [path/to/amenities.geojson]
+// Defaults to OSM_AMENITIES_PATH or data/osm/amenities.geojson. Only GeoJSON extracts
+// (a FeatureCollection or a GeoJSON sequence) are read, not PBF. Convert the NYC PBF
+// with osmium, e.g.:
+//   osmium tags-filter new-york.osm.pbf nwr/amenity nwr/shop nwr/leisure -o amenities.osm.pbf
+//   osmium export -a type,id -f geojsonseq -o data/osm/amenities.geojsonseq amenities.osm.pbf
+async function refreshAmenities() {
+  const filePath = process.argv[2] || undefined;
+
+  try {
+    const result = await AmenityIndexService.getInstance().refresh(filePath);
+    console.log(`✅ Indexed ${result.amenitiesLoaded} amenities from ${result.featuresRead} features in ${result.filePath}`);
+    for (const [category, count] of Object.entries(result.byCategory)) {
+      console.log(`  ${category}: ${count}`);
+    }
+  } catch (error) {
+    console.error('❌ Failed to build amenity index:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
+
+refreshAmenities();
@@ -0,0 +1,23 @@
+import { BusStopLoader } from '../server/services/busStopLoader';
+import { pool } from '../server/db';
+
+// Usage: npm run data:bus -- [path/to/gtfs_bx.zip path/to/gtfs_b.zip ...]
+// Defaults to MTA_BUS_GTFS_PATHS (comma-separated) or every zip in data/gtfs/bus
+async function refreshBusStops() {
+  const feedPaths = process.argv.slice(2);
+
+  try {
+    const result = await BusStopLoader.getInstance().loadFromFeeds(feedPaths.length > 0 ? feedPaths : undefined);
+    console.log(`✅ Loaded ${result.stopsLoaded} bus stops (${result.routesFound} routes) from ${result.feedPaths.length} feeds`);
+    if (result.stopsRemoved > 0) {
+      console.log(`Removed ${result.stopsRemoved} stops no longer in the feeds`);
+    }
+  } catch (error) {
+    console.error('❌ Failed to refresh bus stops:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
+
+refreshBusStops();
@@ -0,0 +1,23 @@
+import { CitiBikeStationLoader } from '../server/services/citiBikeStationLoader';
+import { pool } from '../server/db';
+
+// Usage: npm run data:citibike -- [path/to/station_information.json]
+// Defaults to CITIBIKE_STATION_INFO_PATH or data/citibike/station_information.json
+async function refreshCitiBikeStations() {
+  const filePath = process.argv[2] || undefined;
+
+  try {
+    const result = await CitiBikeStationLoader.getInstance().loadFromFile(filePath);
+    console.log(`✅ Loaded ${result.stationsLoaded} Citi Bike stations from ${result.filePath}`);
+    if (result.stationsRemoved > 0) {
+      console.log(`Removed ${result.stationsRemoved} stations no longer in the feed`);
+    }
+  } catch (error) {
+    console.error('❌ Failed to refresh Citi Bike stations:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
+
+refreshCitiBikeStations();
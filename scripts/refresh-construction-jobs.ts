@@ -0,0 +1,24 @@
+import { ConstructionActivityService } from '../server/services/constructionActivity';
+import { pool } from '../server/db';
+
+// Usage: npm run data:dob -- [path/to/job_filings.csv ...]
+// Defaults to DOB_JOB_FILINGS_PATHS (comma-separated) or every CSV in data/dob. Accepts the
+// BIS "DOB Job Application Filings" and "DOB NOW: Build – Job Application Filings" exports.
+async function refreshConstructionJobs() {
+  const filePaths = process.argv.slice(2);
+
+  try {
+    const result = await ConstructionActivityService.getInstance().refresh(filePaths.length > 0 ? filePaths : undefined);
+    console.log(`✅ Loaded ${result.jobsLoaded} construction jobs from ${result.rowsRead} rows in ${result.filePaths.length} exports`);
+    for (const [jobType, count] of Object.entries(result.byType)) {
+      console.log(`  ${jobType}: ${count}`);
+    }
+  } catch (error) {
+    console.error('❌ Failed to load DOB job filings:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
+
+refreshConstructionJobs();
@@ -0,0 +1,26 @@
+import { GarageRegistryService } from '../server/services/garageRegistry';
+import { pool } from '../server/db';
+
+// Usage: npm run data:garages -- [path/to/dcwp_licenses.csv] [path/to/garage_rates.csv]
+// Defaults to DCWP_GARAGES_PATH or data/parking/dcwp_licensed_garages.csv (the DCWP "Legally
+// Operating Businesses" export) and GARAGE_RATES_PATH or data/parking/garage_rates.csv.
+async function refreshGarages() {
+  const [licensesPath, ratesPath] = process.argv.slice(2);
+
+  try {
+    const result = await GarageRegistryService.getInstance().refresh(licensesPath, ratesPath);
+    console.log(`✅ Loaded ${result.garagesLoaded} garages from ${result.licensesPath}`);
+    console.log(`  with capacity: ${result.withCapacity}`);
+    console.log(`  with monthly rates: ${result.withRates}${result.ratesPath ? ` (${result.ratesPath})` : ' (no rates file)'}`);
+    if (result.unmatchedRates > 0) {
+      console.log(`  ⚠️  ${result.unmatchedRates} rate rows did not match an active license`);
+    }
+  } catch (error) {
+    console.error('❌ Failed to load garage registry:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
+
+refreshGarages();
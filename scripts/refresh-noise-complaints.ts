@@ -0,0 +1,24 @@
+import { NoiseComplaintService } from '../server/services/noiseComplaints';
+import { pool } from '../server/db';
+
+// Usage: npm run data:noise311 -- [path/to/311_noise.csv]
+// Defaults to NYC_311_NOISE_PATH or data/311/noise_complaints.csv. Export the 311 Service
+// Requests dataset filtered to Complaint Type starting with "Noise" for the window to score.
+async function refreshNoiseComplaints() {
+  const filePath = process.argv[2] || undefined;
+
+  try {
+    const result = await NoiseComplaintService.getInstance().refresh(filePath);
+    console.log(`✅ Loaded ${result.complaintsLoaded} noise complaints from ${result.rowsRead} rows in ${result.filePath}`);
+    for (const [type, count] of Object.entries(result.byType)) {
+      console.log(`  ${type}: ${count}`);
+    }
+  } catch (error) {
+    console.error('❌ Failed to load 311 noise complaints:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
+
+refreshNoiseComplaints();
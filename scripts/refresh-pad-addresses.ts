@@ -0,0 +1,28 @@
+import { AddressIndexService } from '../server/services/addressIndex';
+import { pool } from '../server/db';
+
+// Usage: npm run data:pad -- [path/to/bobaadr.txt] [path/to/building_footprints.csv]
+// Defaults to PAD_ADDRESS_PATH or data/geocoding/bobaadr.txt (the address file in DCP's
+// PAD release) and BUILDING_FOOTPRINTS_PATH or data/geocoding/building_footprints.csv.
+async function refreshPadAddresses() {
+  const [padPath, footprintsPath] = process.argv.slice(2);
+
+  try {
+    const result = await AddressIndexService.getInstance().refresh(padPath, footprintsPath);
+    console.log(`✅ Loaded ${result.rangesLoaded} address ranges from ${result.padPath}`);
+    for (const [boroughCode, count] of Object.entries(result.byBorough)) {
+      console.log(`  borough ${boroughCode}: ${count}`);
+    }
+    console.log(`  positioned by lot (no footprint for the BIN): ${result.positionedByLot}`);
+    if (result.skippedRows > 0) {
+      console.log(`  ⚠️  ${result.skippedRows} rows skipped (no house number range or footprint)`);
+    }
+  } catch (error) {
+    console.error('❌ Failed to load PAD address index:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
+
+refreshPadAddresses();
@@ -0,0 +1,21 @@
+import { CurbRegulationService } from '../server/services/curbRegulations';
+import { pool } from '../server/db';
+
+// Usage: npm run data:parking -- [path/to/parking_regulation_signs.csv]
+// Defaults to DOT_PARKING_SIGNS_PATH or data/dot/parking_regulation_signs.csv, the
+// "Parking Regulation Locations and Signs" export from NYC Open Data.
+async function refreshParkingSigns() {
+  const filePath = process.argv[2];
+
+  try {
+    const result = await CurbRegulationService.getInstance().refresh(filePath);
+    console.log(`✅ Loaded ${result.blockFacesLoaded} block faces from ${result.signsParsed} regulation signs (${result.rowsRead} rows) in ${result.filePath}`);
+  } catch (error) {
+    console.error('❌ Failed to load DOT parking signs:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
+
+refreshParkingSigns();
@@ -0,0 +1,31 @@
+import { SchoolScoringService } from '../server/services/schoolScoring';
+import { pool } from '../server/db';
+
+// Usage: npm run data:school-medians -- [path/to/school_quality_report.csv|.json] [dataset year]
+// Defaults to SCHOOL_QUALITY_REPORT_PATH or data/schools/school_quality_report.csv. The dataset
+// year (e.g. 2022-23) is taken from the file name when not given. Load each report year to build
+// the multi-year history behind school trends; medians always follow the newest year.
+async function refreshSchoolMedians() {
+  const [filePath, datasetYear] = process.argv.slice(2);
+
+  try {
+    const result = await SchoolScoringService.getInstance().refreshBoroughMedians(filePath, datasetYear);
+    console.log(`✅ Rated ${result.schoolsRated} schools from the ${result.datasetYear} School Quality Report (${result.filePath})`);
+    if (!result.mediansUpdated) {
+      console.log('  Stored as history; borough medians come from a newer report year');
+    }
+    for (const borough of result.boroughs) {
+      console.log(`  ${borough.borough}: median ${borough.median} across ${borough.schoolCount} schools`);
+    }
+    if (result.skippedRows > 0) {
+      console.log(`  ⚠️  ${result.skippedRows} rows skipped (no DBN, no quality metrics or repeated school)`);
+    }
+  } catch (error) {
+    console.error('❌ Failed to compute borough school medians:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
+
+refreshSchoolMedians();
@@ -0,0 +1,27 @@
+import { SchoolChoiceService } from '../server/services/schoolChoice';
+import { pool } from '../server/db';
+
+// Usage: npm run data:school-programs -- [path/to/school_programs.csv]
+// Defaults to SCHOOL_PROGRAMS_PATH or data/schools/school_programs.csv: one row per G&T,
+// dual language, screened or charter program (see SchoolProgramLoader for the columns).
+async function refreshSchoolPrograms() {
+  const filePath = process.argv[2];
+
+  try {
+    const result = await SchoolChoiceService.getInstance().refresh(filePath);
+    console.log(`✅ Loaded ${result.programsLoaded} school programs from ${result.filePath}`);
+    for (const [type, count] of Object.entries(result.byType)) {
+      console.log(`  ${type}: ${count}`);
+    }
+    if (result.skippedRows > 0) {
+      console.log(`  ⚠️  ${result.skippedRows} rows skipped (no DBN, program type or location)`);
+    }
+  } catch (error) {
+    console.error('❌ Failed to load school programs:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
+
+refreshSchoolPrograms();
@@ -0,0 +1,26 @@
+import { SubwayProximityService } from '../server/services/subwayProximity';
+import { pool } from '../server/db';
+
+// Usage: npm run data:subway -- [path/to/gtfs_subway.zip] [path/to/subway_entrances.csv]
+// Defaults to MTA_SUBWAY_GTFS_PATH or data/gtfs/gtfs_subway.zip, and
+// MTA_SUBWAY_ENTRANCES_PATH or data/gtfs/subway_entrances.csv
+async function refreshSubwayStations() {
+  const feedPath = process.argv[2] || undefined;
+  const entrancesPath = process.argv[3] || undefined;
+
+  try {
+    const result = await SubwayProximityService.getInstance().refreshStations(feedPath, entrancesPath);
+    console.log(`✅ Loaded ${result.stationsLoaded} stations (${result.routesFound} routes) from ${result.feedPath}`);
+    console.log(`Loaded ${result.entrancesLoaded} station entrances`);
+    if (result.stationsRemoved > 0) {
+      console.log(`Removed ${result.stationsRemoved} stations no longer in the feed`);
+    }
+  } catch (error) {
+    console.error('❌ Failed to refresh subway stations:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
+
+refreshSubwayStations();
@@ -1,5 +1,6 @@
-import type { Express } from "express";
+import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
+import { timingSafeEqual } from "crypto";
 import { storage } from "./storage";
 import { SchoolScoringService } from "./services/schoolScoring";
 import { StreetEasyExtractor } from "./services/streetEasyExtractor";
@@ -7,16 +8,158 @@ import { ExtractionOrchestrator } from "./services/extractionOrchestrator";
 import { NeighborhoodEnrichmentOrchestrator } from "./services/neighborhoodEnrichmentOrchestrator";
 import { MarketAnalysisService } from "./services/marketAnalysisService";
 import { GeocodingService } from "./services/geocoding";
-import { schoolScoreRequestSchema, analyzePropertyRequestSchema, propertyExtractionRequestSchema, neighborhoodEnrichmentRequestSchema, marketAnalysisRequestSchema, properties, MarketAnalysisRequest } from "@shared/schema";
+import { GeographyService } from "./services/geography";
+import { GeocodeCacheService } from "./services/geocodeCache";
+import { geographyRequestSchema, geocodeRequestSchema, geocodeOverrideRequestSchema, schoolScoreRequestSchema, analyzePropertyRequestSchema, propertyExtractionRequestSchema, neighborhoodEnrichmentRequestSchema, marketAnalysisRequestSchema, properties, MarketAnalysisRequest } from "@shared/schema";
 import { ZodError } from "zod";
 import { db } from "./db";
 import { eq } from "drizzle-orm";
 
+/**
+ * Only analysts holding the GEOCODE_ADMIN_TOKEN may change geocodes, sent as
+ * "Authorization: Bearer <token>". The endpoints are disabled when no token
+ * is configured.
+ */
+function requireGeocodeAdmin(req: Request, res: Response, next: NextFunction) {
+  const token = process.env.GEOCODE_ADMIN_TOKEN;
+  if (!token) {
+    return res.status(403).json({ error: "Geocode overrides are disabled (GEOCODE_ADMIN_TOKEN is not set)" });
+  }
+
+  const supplied = (req.headers.authorization || "").replace(/^Bearer\s+/i, "");
+  const expected = Buffer.from(token);
+  const actual = Buffer.from(supplied);
+  if (!supplied || actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return res.status(401).json({ error: "A valid geocode admin token is required" });
+  }
+  next();
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   const schoolScoringService = SchoolScoringService.getInstance();
   const neighborhoodEnrichmentOrchestrator = NeighborhoodEnrichmentOrchestrator.getInstance();
   const marketAnalysisService = MarketAnalysisService.getInstance();
   const geocodingService = GeocodingService.getInstance();
+  const geographyService = GeographyService.getInstance();
+  const geocodeCacheService = GeocodeCacheService.getInstance();
+
+  // Borough, NTA, community district and council district for a point
+  app.post("/api/geography", async (req, res) => {
+    try {
+      const { lat, lng } = geographyRequestSchema.parse(req.body);
+      const result = await geographyService.resolve(lat, lng);
+      res.json(result);
+      
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({
+          error: "Invalid request data",
+          details: error.errors.map(e => ({
+            field: e.path.join('.'),
+            message: e.message,
+            code: e.code
+          }))
+        });
+      }
+      
+      console.error("Geography API error:", error);
+      res.status(500).json({ 
+        error: "Failed to resolve geography",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Coordinates, borough and neighborhood for an address: cache, PAD index, then Nominatim
+  app.post("/api/geocode", async (req, res) => {
+    try {
+      const { address } = geocodeRequestSchema.parse(req.body);
+      const result = await geocodingService.resolveAddress(address);
+      if (!result) {
+        return res.status(404).json({
+          error: "Unable to geocode address",
+          message: "Could not find coordinates for the provided address. Please verify the address is correct."
+        });
+      }
+      res.json(result);
+      
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({
+          error: "Invalid request data",
+          details: error.errors.map(e => ({
+            field: e.path.join('.'),
+            message: e.message,
+            code: e.code
+          }))
+        });
+      }
+      
+      console.error("Geocode API error:", error);
+      res.status(500).json({ 
+        error: "Failed to geocode address",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Pin a corrected location for an address the geocoders place wrongly (analysts only)
+  app.post("/api/geocode/override", requireGeocodeAdmin, async (req, res) => {
+    try {
+      const { address, lat, lng, note } = geocodeOverrideRequestSchema.parse(req.body);
+      const borough = await geographyService.resolveBorough(lat, lng);
+      const entry = await geocodeCacheService.pin(address, { lat, lng, borough }, note);
+      res.json(entry);
+      
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({
+          error: "Invalid request data",
+          details: error.errors.map(e => ({
+            field: e.path.join('.'),
+            message: e.message,
+            code: e.code
+          }))
+        });
+      }
+      
+      console.error("Geocode override API error:", error);
+      res.status(500).json({ 
+        error: "Failed to pin geocode",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Drop an address's cached or pinned location so it is geocoded afresh (analysts only)
+  app.delete("/api/geocode/override", requireGeocodeAdmin, async (req, res) => {
+    try {
+      const { address } = geocodeOverrideRequestSchema.pick({ address: true }).parse(req.body);
+      const removed = await geocodeCacheService.remove(address);
+      if (!removed) {
+        return res.status(404).json({ error: "No cached location for this address" });
+      }
+      res.json({ removed: true });
+      
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({
+          error: "Invalid request data",
+          details: error.errors.map(e => ({
+            field: e.path.join('.'),
+            message: e.message,
+            code: e.code
+          }))
+        });
+      }
+      
+      console.error("Geocode override API error:", error);
+      res.status(500).json({ 
+        error: "Failed to remove geocode",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
 
   // School scoring API endpoint
   app.post("/api/school-score", async (req, res) => {
@@ -53,7 +196,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       // Validate request body with Zod
       const validatedData = neighborhoodEnrichmentRequestSchema.parse(req.body);
-      const { lat, lng, address } = validatedData;
+      const { lat, lng, address, commuteDestinations } = validatedData;
 
       console.log(`Neighborhood enrichment requested for: ${address || `${lat}, ${lng}`}`);
 
@@ -61,7 +204,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const enrichmentResult = await neighborhoodEnrichmentOrchestrator.enrichLocation({
         lat,
         lng,
-        address
+        address,
+        commuteDestinations
       });
       
       res.json(enrichmentResult);
@@ -91,7 +235,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       // Validate request body with Zod
       const validatedData = analyzePropertyRequestSchema.parse(req.body);
-      const { address, lat, lng, borough } = validatedData;
+      const { address, lat, lng, borough, commuteDestinations } = validatedData;
 
       console.log(`Property analysis requested for: ${address || `${lat}, ${lng}`} in ${borough}`);
 
@@ -100,7 +244,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         lat,
         lng,
         address,
-        borough
+        borough,
+        commuteDestinations
       });
 
       // Calculate school score separately for backwards compatibility
@@ -112,6 +257,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         coordinates: { lat, lng },
         borough,
         schoolScore,
+        commute: enrichmentResult.details.commute || null,
         neighborhoodData: enrichmentResult,
         timestamp: new Date().toISOString()
       });
@@ -0,0 +1,123 @@
+import { and, eq, gte, lte } from "drizzle-orm";
+import { db } from "../db";
+import { padAddresses, PadAddress } from "../../shared/schema";
+import { parseAddress, parseHouseNumber, normalizeStreetName, formatAddress, AddressBorough } from "../../shared/address";
+import { ImportedTable } from "../utils/database";
+import { PadAddressLoader } from "./padAddressLoader";
+
+export interface AddressMatch {
+  lat: number;
+  lng: number;
+  bbl: string;
+  bin: string | null;
+  borough: string;
+  boroughCode: string;
+  zipCode: string | null;
+  unit: string | null;
+  formattedAddress: string;
+  confidence: number; // 0-100; lower when the address matched in several boroughs
+}
+
+const BOROUGH_NAMES: Record<string, string> = {
+  "1": "Manhattan",
+  "2": "Bronx",
+  "3": "Brooklyn",
+  "4": "Queens",
+  "5": "Staten Island"
+};
+
+const BOROUGH_CODES: Record<AddressBorough, string> = {
+  Manhattan: "1",
+  Bronx: "2",
+  Brooklyn: "3",
+  Queens: "4",
+  "Staten Island": "5"
+};
+
+/**
+ * Geosupport-style address lookup against the local PAD index: parses the
+ * house number, street and unit, finds the house-number range on that side of
+ * the street, and returns the building's position, BBL and BIN
+ */
+export class AddressIndexService {
+  private static instance: AddressIndexService;
+  private ranges = new ImportedTable(padAddresses, "[AddressIndex]", "data:pad");
+
+  static getInstance(): AddressIndexService {
+    if (!AddressIndexService.instance) {
+      AddressIndexService.instance = new AddressIndexService();
+    }
+    return AddressIndexService.instance;
+  }
+
+  /**
+   * Rebuild the index from the PAD and building footprint files on disk
+   */
+  async refresh(padPath?: string, footprintsPath?: string) {
+    const result = await PadAddressLoader.getInstance().loadFromFiles(padPath, footprintsPath);
+    this.ranges.markLoaded(result.rangesLoaded > 0);
+    return result;
+  }
+
+  /**
+   * Match an address, or null when it does not parse, is not in the index,
+   * or no index is loaded
+   */
+  async lookup(address: string): Promise<AddressMatch | null> {
+    const parsed = parseAddress(address);
+    if (!parsed?.houseNumber) return null;
+
+    const houseNumber = parseHouseNumber(parsed.houseNumber);
+    if (!houseNumber || !(await this.ranges.hasRows())) return null;
+
+    const street = normalizeStreetName(parsed.street);
+    const boroughCode = parsed.borough ? BOROUGH_CODES[parsed.borough] : null;
+    const conditions = [
+      eq(padAddresses.street, street),
+      eq(padAddresses.hyphenated, houseNumber.hyphenated),
+      lte(padAddresses.lowKey, houseNumber.key),
+      gte(padAddresses.highKey, houseNumber.key)
+    ];
+    if (boroughCode) {
+      conditions.push(eq(padAddresses.boroughCode, boroughCode));
+    }
+
+    // Ranges hold one side of the street, so the parity must match
+    const ranges = (await db.select().from(padAddresses).where(and(...conditions)))
+      .filter(range => range.lowKey % 2 === houseNumber.key % 2);
+    if (ranges.length === 0) {
+      console.log(`[AddressIndex] No PAD range for "${address}" (${parsed.houseNumber} ${street})`);
+      return null;
+    }
+
+    const best = ranges.sort((a, b) => rankRange(a, parsed.zipCode) - rankRange(b, parsed.zipCode))[0];
+    const boroughs = new Set(ranges.map(range => range.boroughCode));
+    const ambiguous = !boroughCode && boroughs.size > 1 && best.zipCode !== parsed.zipCode;
+
+    const borough = BOROUGH_NAMES[best.boroughCode];
+    const match: AddressMatch = {
+      lat: best.lat,
+      lng: best.lng,
+      bbl: best.bbl,
+      bin: best.bin,
+      borough,
+      boroughCode: best.boroughCode,
+      zipCode: best.zipCode,
+      unit: parsed.unit,
+      formattedAddress: `${formatAddress(parsed, false)}, ${borough}, NY${best.zipCode ? ` ${best.zipCode}` : ""}`,
+      confidence: ambiguous ? 60 : 95
+    };
+
+    console.log(`[AddressIndex] "${address}" -> BBL ${match.bbl}, BIN ${match.bin ?? "-"} (${match.lat}, ${match.lng})${ambiguous ? `, also in boroughs ${Array.from(boroughs).join("/")}` : ""}`);
+    return match;
+  }
+}
+
+/**
+ * Lower is better: a range in the address's ZIP code first, then the
+ * narrowest range (a single building over a whole block front)
+ */
+function rankRange(range: PadAddress, zipCode: string | null): number {
+  const zipPenalty = zipCode && range.zipCode !== zipCode ? 1e9 : 0;
+  return zipPenalty + (range.highKey - range.lowKey);
+}
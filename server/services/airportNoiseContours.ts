@@ -0,0 +1,169 @@
+import fs from "fs";
+import { readGeoFeatures, GeoJsonFeature } from "../utils/geoFiles";
+import { pointInPolygon } from "../utils/geo";
+
+export interface DnlContourMatch {
+  dnl: number; // Lower bound of the contour the point falls in
+  band: string; // e.g. "65–70 DNL"
+  airport: string | null;
+}
+
+interface DnlContour {
+  dnl: number;
+  airport: string | null;
+  polygons: number[][][][];
+  bbox: [number, number, number, number]; // minLng, minLat, maxLng, maxLat
+}
+
+// Attribute names used for the contour level and airport across FAA / Port Authority exports
+const DNL_FIELDS = ["DNL", "dnl", "DNL_LEVEL", "dnl_level", "CONTOUR", "Contour", "contour", "LEVEL", "Level", "level", "DB", "dB"];
+const AIRPORT_FIELDS = ["AIRPORT", "Airport", "airport", "LOCID", "NAME", "Name", "name"];
+
+// Contours are published in 5 dB steps
+const DNL_STEP = 5;
+
+/**
+ * DNL (day-night average sound level) noise contours around the region's
+ * airports, loaded from FAA Part 150 / Port Authority exports on disk
+ * (GeoJSON or shapefile in WGS84). Points are matched to the loudest
+ * contour that contains them, which follows the actual approach and
+ * departure paths rather than the distance to the airfield.
+ */
+export class AirportNoiseContourService {
+  private static instance: AirportNoiseContourService;
+  private contours: DnlContour[] = [];
+  private loading: Promise<boolean> | null = null;
+
+  static getInstance(): AirportNoiseContourService {
+    if (!AirportNoiseContourService.instance) {
+      AirportNoiseContourService.instance = new AirportNoiseContourService();
+    }
+    return AirportNoiseContourService.instance;
+  }
+
+  /**
+   * Location of the contour file (.geojson, .geojsonseq or .shp) on disk
+   */
+  static defaultContoursPath(): string {
+    return process.env.AIRPORT_NOISE_CONTOURS_PATH || "data/noise/airport_dnl_contours.geojson";
+  }
+
+  /**
+   * Load the contours once. Resolves to false when no contour file is available,
+   * in which case callers should fall back to distance-based estimates.
+   */
+  async ensureLoaded(): Promise<boolean> {
+    if (!this.loading) {
+      this.loading = this.loadContours(AirportNoiseContourService.defaultContoursPath());
+    }
+    return this.loading;
+  }
+
+  /**
+   * Replace the loaded contours with a different file
+   */
+  async reload(contoursPath: string = AirportNoiseContourService.defaultContoursPath()): Promise<boolean> {
+    this.loading = this.loadContours(contoursPath);
+    return this.loading;
+  }
+
+  /**
+   * The loudest contour containing the point, or null when the point is outside
+   * every contour (or no contours are loaded)
+   */
+  async lookup(lat: number, lng: number): Promise<DnlContourMatch | null> {
+    if (!(await this.ensureLoaded())) {
+      return null;
+    }
+
+    let best: DnlContour | null = null;
+    for (const contour of this.contours) {
+      if (best && contour.dnl <= best.dnl) continue;
+      const [minLng, minLat, maxLng, maxLat] = contour.bbox;
+      if (lat < minLat || lat > maxLat || lng < minLng || lng > maxLng) continue;
+      if (contour.polygons.some(polygon => pointInPolygon(lat, lng, polygon))) {
+        best = contour;
+      }
+    }
+
+    return best ? { dnl: best.dnl, band: this.describeBand(best.dnl), airport: best.airport } : null;
+  }
+
+  private async loadContours(contoursPath: string): Promise<boolean> {
+    try {
+      if (!fs.existsSync(contoursPath)) {
+        console.log(`[AirportNoise] No DNL contours at ${contoursPath}, using distance to airports`);
+        return false;
+      }
+
+      const features = await readGeoFeatures(contoursPath);
+      const contours: DnlContour[] = [];
+
+      for (const feature of features) {
+        const contour = this.toContour(feature);
+        if (contour) contours.push(contour);
+      }
+
+      const projected = contours.find(contour => Math.abs(contour.bbox[0]) > 180 || Math.abs(contour.bbox[1]) > 90);
+      if (projected) {
+        throw new Error("contours are in a projected coordinate system; reproject to WGS84 (EPSG:4326) first");
+      }
+
+      this.contours = contours;
+      const levels = Array.from(new Set(contours.map(contour => contour.dnl))).sort((a, b) => a - b);
+      console.log(`[AirportNoise] Loaded ${contours.length} DNL contours (${levels.join(", ")} dB) from ${contoursPath}`);
+      return contours.length > 0;
+
+    } catch (error) {
+      console.error(`[AirportNoise] Failed to load DNL contours from ${contoursPath}:`, error);
+      this.contours = [];
+      return false;
+    }
+  }
+
+  private toContour(feature: GeoJsonFeature): DnlContour | null {
+    const geometry = feature.geometry;
+    if (!geometry) return null;
+
+    const polygons: number[][][][] =
+      geometry.type === "Polygon" ? [geometry.coordinates] :
+      geometry.type === "MultiPolygon" ? geometry.coordinates :
+      [];
+    if (polygons.length === 0) return null;
+
+    const props = feature.properties || {};
+    const dnl = this.readLevel(props);
+    if (dnl === null) return null;
+
+    const airportField = AIRPORT_FIELDS.find(field => props[field] !== undefined && props[field] !== null && props[field] !== "");
+    const airport = airportField ? String(props[airportField]).trim() : null;
+
+    const bbox: [number, number, number, number] = [Infinity, Infinity, -Infinity, -Infinity];
+    for (const polygon of polygons) {
+      for (const [lng, lat] of polygon[0] || []) {
+        bbox[0] = Math.min(bbox[0], lng);
+        bbox[1] = Math.min(bbox[1], lat);
+        bbox[2] = Math.max(bbox[2], lng);
+        bbox[3] = Math.max(bbox[3], lat);
+      }
+    }
+
+    return { dnl, airport, polygons, bbox };
+  }
+
+  private readLevel(props: Record<string, any>): number | null {
+    for (const field of DNL_FIELDS) {
+      const value = props[field];
+      if (value === undefined || value === null) continue;
+      // Levels come as 65, "65", "65 DNL" or a band such as "65-70"; keep the lower bound
+      const level = typeof value === "number" ? value : parseFloat(String(value));
+      if (!isNaN(level) && level > 0) return level;
+    }
+    return null;
+  }
+
+  private describeBand(dnl: number): string {
+    const lower = Math.floor(dnl / DNL_STEP) * DNL_STEP;
+    return lower >= 75 ? "75+ DNL" : `${lower}–${lower + DNL_STEP} DNL`;
+  }
+}
@@ -0,0 +1,73 @@
+import { and, inArray, sql } from "drizzle-orm";
+import { db } from "../db";
+import { amenities } from "../../shared/schema";
+import { haversineMiles } from "../utils/geo";
+import { ImportedTable } from "../utils/database";
+import { AmenityIndexLoader, AmenityCategory } from "./amenityIndexLoader";
+
+export interface NearbyAmenity {
+  id: string;
+  name: string | null;
+  category: AmenityCategory;
+  osmTag: string;
+  lat: number;
+  lng: number;
+  distanceMiles: number;
+}
+
+/**
+ * Radius and category lookups against the local amenity index, so amenity
+ * counts come from one extract instead of live Overpass / SODA queries
+ */
+export class AmenityIndexService {
+  private static instance: AmenityIndexService;
+  private index = new ImportedTable(amenities, "[AmenityIndex]", "data:amenities");
+
+  static getInstance(): AmenityIndexService {
+    if (!AmenityIndexService.instance) {
+      AmenityIndexService.instance = new AmenityIndexService();
+    }
+    return AmenityIndexService.instance;
+  }
+
+  /**
+   * Rebuild the index from an OSM extract on disk
+   */
+  async refresh(filePath?: string) {
+    const result = await AmenityIndexLoader.getInstance().loadFromExtract(filePath);
+    this.index.markLoaded(result.amenitiesLoaded > 0);
+    return result;
+  }
+
+  /**
+   * Amenities within radiusMiles of a point, nearest first, optionally limited to
+   * some categories. Returns null when the index has not been built.
+   */
+  async findNearby(lat: number, lng: number, radiusMiles: number, categories?: AmenityCategory[]): Promise<NearbyAmenity[] | null> {
+    if (!(await this.index.hasRows())) {
+      return null;
+    }
+
+    // Bounding box in degrees; the gist index on location answers the <@ box test
+    const latDelta = radiusMiles / 69;
+    const lngDelta = radiusMiles / (69 * Math.cos(lat * Math.PI / 180));
+    const inBox = sql`${amenities.location} <@ box(point(${lng - lngDelta}, ${lat - latDelta}), point(${lng + lngDelta}, ${lat + latDelta}))`;
+
+    const rows = await db.select().from(amenities).where(
+      categories && categories.length > 0 ? and(inBox, inArray(amenities.category, categories)) : inBox
+    );
+
+    return rows
+      .map(row => ({
+        id: row.id,
+        name: row.name,
+        category: row.category as AmenityCategory,
+        osmTag: row.osmTag,
+        lat: row.lat,
+        lng: row.lng,
+        distanceMiles: haversineMiles(lat, lng, row.lat, row.lng)
+      }))
+      .filter(amenity => amenity.distanceMiles <= radiusMiles)
+      .sort((a, b) => a.distanceMiles - b.distanceMiles);
+  }
+}
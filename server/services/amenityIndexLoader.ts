@@ -0,0 +1,194 @@
+import path from "path";
+import { db } from "../db";
+import { amenities, InsertAmenity } from "../../shared/schema";
+import { forEachGeoJsonFeature, GeoJsonFeature, Position } from "../utils/geoFiles";
+
+export type AmenityCategory =
+  | "grocery"
+  | "convenience"
+  | "dining"
+  | "coffee"
+  | "parks"
+  | "pharmacy"
+  | "schools"
+  | "fitness"
+  | "banks"
+  | "healthcare"
+  | "library"
+  | "post_office";
+
+interface AmenityLoadResult {
+  filePath: string;
+  featuresRead: number;
+  amenitiesLoaded: number;
+  byCategory: Record<string, number>;
+}
+
+// OSM tags that place a feature in each category. Checked in order, first match wins.
+const CATEGORY_TAGS: Array<{ category: AmenityCategory; key: string; values: string[] }> = [
+  { category: "grocery", key: "shop", values: ["supermarket", "grocery", "greengrocer"] },
+  // Bodegas, delis and specialty food shops: food nearby, but not a full grocery
+  { category: "convenience", key: "shop", values: ["convenience", "deli", "butcher", "bakery"] },
+  { category: "coffee", key: "amenity", values: ["cafe"] },
+  { category: "coffee", key: "shop", values: ["coffee"] },
+  { category: "dining", key: "amenity", values: ["restaurant", "fast_food", "bar", "pub", "food_court", "ice_cream"] },
+  { category: "pharmacy", key: "amenity", values: ["pharmacy"] },
+  { category: "pharmacy", key: "shop", values: ["chemist"] },
+  { category: "healthcare", key: "amenity", values: ["hospital", "clinic", "doctors", "dentist"] },
+  { category: "schools", key: "amenity", values: ["school", "kindergarten", "childcare"] },
+  { category: "library", key: "amenity", values: ["library"] },
+  { category: "banks", key: "amenity", values: ["bank", "atm"] },
+  { category: "post_office", key: "amenity", values: ["post_office"] },
+  { category: "parks", key: "leisure", values: ["park", "playground", "garden", "dog_park"] },
+  { category: "fitness", key: "leisure", values: ["fitness_centre", "sports_centre", "swimming_pool"] }
+];
+
+export const AMENITY_CATEGORIES: AmenityCategory[] = Array.from(new Set(CATEGORY_TAGS.map(tag => tag.category)));
+
+/**
+ * Builds the amenity index from an OpenStreetMap extract on disk. Only GeoJSON
+ * is read, preferably a GeoJSON sequence: PBF extracts are converted first with
+ * `osmium tags-filter` + `osmium export`. Ways and relations are indexed at the
+ * centroid of their outer ring.
+ */
+export class AmenityIndexLoader {
+  private static instance: AmenityIndexLoader;
+
+  static getInstance(): AmenityIndexLoader {
+    if (!AmenityIndexLoader.instance) {
+      AmenityIndexLoader.instance = new AmenityIndexLoader();
+    }
+    return AmenityIndexLoader.instance;
+  }
+
+  /**
+   * Location of the OSM amenity extract (GeoJSON or GeoJSON sequence) on disk
+   */
+  static defaultExtractPath(): string {
+    return process.env.OSM_AMENITIES_PATH || "data/osm/amenities.geojson";
+  }
+
+  /**
+   * Replace the amenity index with the contents of the extract. OSM extracts are
+   * full snapshots, so the table is rebuilt rather than merged.
+   */
+  async loadFromExtract(filePath: string = AmenityIndexLoader.defaultExtractPath()): Promise<AmenityLoadResult> {
+    if (path.extname(filePath).toLowerCase() === ".pbf") {
+      throw new Error(`PBF extracts are not read directly; convert ${filePath} to GeoJSON first, e.g. osmium export -f geojsonseq -o amenities.geojsonseq ${filePath}`);
+    }
+
+    console.log(`[AmenityIndexLoader] Loading amenities from ${filePath}`);
+
+    const records = new Map<string, InsertAmenity>();
+    const byCategory: Record<string, number> = {};
+
+    const featuresRead = await forEachGeoJsonFeature(filePath, (feature) => {
+      const match = this.matchCategory(feature);
+      if (!match) return;
+
+      const center = this.featureCenter(feature);
+      if (!center) return;
+
+      const id = this.featureId(feature, match.category, center);
+      if (records.has(id)) return;
+
+      records.set(id, {
+        id,
+        name: feature.properties?.name || null,
+        category: match.category,
+        osmTag: match.tag,
+        lat: center.lat,
+        lng: center.lng,
+        location: { x: center.lng, y: center.lat }
+      });
+      byCategory[match.category] = (byCategory[match.category] || 0) + 1;
+    });
+
+    if (records.size === 0) {
+      throw new Error(`${filePath} contains no recognised amenities`);
+    }
+
+    const rows = Array.from(records.values());
+    await db.transaction(async (tx) => {
+      await tx.delete(amenities);
+      for (let i = 0; i < rows.length; i += 500) {
+        await tx.insert(amenities).values(rows.slice(i, i + 500));
+      }
+    });
+
+    console.log(`[AmenityIndexLoader] Indexed ${rows.length} amenities from ${featuresRead} features:`, byCategory);
+
+    return {
+      filePath,
+      featuresRead,
+      amenitiesLoaded: rows.length,
+      byCategory
+    };
+  }
+
+  private matchCategory(feature: GeoJsonFeature): { category: AmenityCategory; tag: string } | null {
+    const props = feature.properties || {};
+    // Overpass exports nest the OSM tags under "tags"; osmium writes them flat
+    const tags: Record<string, any> = props.tags && typeof props.tags === "object" ? { ...props, ...props.tags } : props;
+
+    for (const rule of CATEGORY_TAGS) {
+      const value = tags[rule.key];
+      if (typeof value === "string" && rule.values.includes(value)) {
+        return { category: rule.category, tag: `${rule.key}=${value}` };
+      }
+    }
+    return null;
+  }
+
+  private featureCenter(feature: GeoJsonFeature): { lat: number; lng: number } | null {
+    const geometry = feature.geometry;
+    if (!geometry) return null;
+
+    let positions: Position[] = [];
+    switch (geometry.type) {
+      case "Point":
+        positions = [geometry.coordinates];
+        break;
+      case "MultiPoint":
+      case "LineString":
+        positions = geometry.coordinates;
+        break;
+      case "MultiLineString":
+        positions = geometry.coordinates[0] || [];
+        break;
+      case "Polygon":
+        positions = geometry.coordinates[0] || [];
+        break;
+      case "MultiPolygon":
+        positions = (geometry.coordinates[0] || [])[0] || [];
+        break;
+    }
+
+    // Closed rings repeat the first vertex, which would bias the average
+    if (positions.length > 1) {
+      const first = positions[0];
+      const last = positions[positions.length - 1];
+      if (first[0] === last[0] && first[1] === last[1]) positions = positions.slice(0, -1);
+    }
+    if (positions.length === 0) return null;
+
+    const lng = positions.reduce((sum, position) => sum + position[0], 0) / positions.length;
+    const lat = positions.reduce((sum, position) => sum + position[1], 0) / positions.length;
+    return isNaN(lat) || isNaN(lng) ? null : { lat, lng };
+  }
+
+  private featureId(feature: GeoJsonFeature, category: AmenityCategory, center: { lat: number; lng: number }): string {
+    const props = feature.properties || {};
+
+    // osmium export -a type,id
+    if (props["@type"] && props["@id"] !== undefined) {
+      return `${props["@type"]}/${props["@id"]}`;
+    }
+    // Overpass / overpass-turbo exports ("node/123")
+    if (feature.id !== undefined) return String(feature.id);
+    if (typeof props["@id"] === "string") return props["@id"];
+    if (props.type && props.id !== undefined) return `${props.type}/${props.id}`;
+
+    return `${category}@${center.lat.toFixed(6)},${center.lng.toFixed(6)}`;
+  }
+}
@@ -0,0 +1,168 @@
+import fs from "fs";
+import path from "path";
+import { notInArray, sql } from "drizzle-orm";
+import { db } from "../db";
+import { busStops, InsertBusStop } from "../../shared/schema";
+import { openGtfsFeed, GtfsFeed } from "../utils/gtfs";
+
+interface BusStopLoadResult {
+  feedPaths: string[];
+  stopsLoaded: number;
+  stopsRemoved: number;
+  routesFound: number;
+}
+
+interface BusStopRecord {
+  name: string;
+  lat: number;
+  lng: number;
+  routes: Set<string>;
+}
+
+/**
+ * Builds the bus stop table from the locally stored MTA bus GTFS feeds
+ * (one per borough plus MTA Bus Company). Each stop records the routes that
+ * actually serve it according to the published schedules; stops shared by
+ * several feeds are merged.
+ */
+export class BusStopLoader {
+  private static instance: BusStopLoader;
+
+  static getInstance(): BusStopLoader {
+    if (!BusStopLoader.instance) {
+      BusStopLoader.instance = new BusStopLoader();
+    }
+    return BusStopLoader.instance;
+  }
+
+  /**
+   * Bus GTFS zips (or extracted directories) on disk: a comma-separated
+   * MTA_BUS_GTFS_PATHS, or every zip in data/gtfs/bus
+   */
+  static defaultFeedPaths(): string[] {
+    if (process.env.MTA_BUS_GTFS_PATHS) {
+      return process.env.MTA_BUS_GTFS_PATHS.split(",").map(feedPath => feedPath.trim()).filter(Boolean);
+    }
+
+    const directory = "data/gtfs/bus";
+    if (!fs.existsSync(directory)) {
+      return [];
+    }
+    return fs.readdirSync(directory)
+      .filter(name => name.toLowerCase().endsWith(".zip"))
+      .sort()
+      .map(name => path.join(directory, name));
+  }
+
+  /**
+   * Parse every feed and upsert one row per served stop. Stops that are no
+   * longer present in any feed are removed so the table mirrors the feeds.
+   */
+  async loadFromFeeds(feedPaths: string[] = BusStopLoader.defaultFeedPaths()): Promise<BusStopLoadResult> {
+    if (feedPaths.length === 0) {
+      throw new Error("No MTA bus GTFS feeds found (set MTA_BUS_GTFS_PATHS or add zips to data/gtfs/bus)");
+    }
+
+    const stops = new Map<string, BusStopRecord>();
+    const allRoutes = new Set<string>();
+    const sources: string[] = [];
+
+    for (const feedPath of feedPaths) {
+      console.log(`[BusStopLoader] Loading bus stops from ${feedPath}`);
+      const feed = openGtfsFeed(feedPath);
+      const routeNames = this.readRouteNames(feed);
+      routeNames.forEach(route => allRoutes.add(route));
+      this.collectFeedStops(feed, routeNames, stops);
+      sources.push(feed.source);
+    }
+
+    const records: InsertBusStop[] = [];
+    stops.forEach((stop, stopId) => {
+      // Stops without scheduled service are skipped
+      if (stop.routes.size === 0) return;
+      records.push({
+        id: stopId,
+        name: stop.name,
+        lat: stop.lat,
+        lng: stop.lng,
+        routes: JSON.stringify(this.sortRoutes(Array.from(stop.routes)))
+      });
+    });
+
+    if (records.length === 0) {
+      throw new Error(`Bus GTFS feeds ${sources.join(", ")} produced no served stops`);
+    }
+
+    const stopIds = records.map(record => record.id);
+    let stopsRemoved = 0;
+
+    await db.transaction(async (tx) => {
+      for (let i = 0; i < records.length; i += 500) {
+        await tx.insert(busStops)
+          .values(records.slice(i, i + 500))
+          .onConflictDoUpdate({
+            target: busStops.id,
+            set: {
+              name: sql`excluded.name`,
+              lat: sql`excluded.lat`,
+              lng: sql`excluded.lng`,
+              routes: sql`excluded.routes`,
+              lastUpdated: sql`now()`
+            }
+          });
+      }
+
+      const removed = await tx.delete(busStops)
+        .where(notInArray(busStops.id, stopIds))
+        .returning({ id: busStops.id });
+      stopsRemoved = removed.length;
+    });
+
+    console.log(`[BusStopLoader] Upserted ${records.length} bus stops, removed ${stopsRemoved} stale stops`);
+
+    return {
+      feedPaths: sources,
+      stopsLoaded: records.length,
+      stopsRemoved,
+      routesFound: allRoutes.size
+    };
+  }
+
+  private readRouteNames(feed: GtfsFeed): Map<string, string> {
+    const routeNames = new Map<string, string>();
+    feed.eachRow("routes", (route) => {
+      routeNames.set(route.route_id, (route.route_short_name || route.route_id).trim());
+    });
+    return routeNames;
+  }
+
+  private collectFeedStops(feed: GtfsFeed, routeNames: Map<string, string>, stops: Map<string, BusStopRecord>): void {
+    feed.eachRow("stops", (stop) => {
+      // Bus feeds have no stations, but skip anything that is not a boarding point
+      if (stop.location_type && stop.location_type !== "0") return;
+      if (stops.has(stop.stop_id)) return;
+
+      const lat = parseFloat(stop.stop_lat);
+      const lng = parseFloat(stop.stop_lon);
+      if (isNaN(lat) || isNaN(lng)) return;
+
+      stops.set(stop.stop_id, { name: stop.stop_name.trim(), lat, lng, routes: new Set() });
+    });
+
+    const routeByTrip = new Map<string, string>();
+    feed.eachRow("trips", (trip) => {
+      const route = routeNames.get(trip.route_id);
+      if (route) routeByTrip.set(trip.trip_id, route);
+    });
+
+    feed.eachRow("stop_times", (stopTime) => {
+      const route = routeByTrip.get(stopTime.trip_id);
+      const stop = stops.get(stopTime.stop_id);
+      if (route && stop) stop.routes.add(route);
+    });
+  }
+
+  private sortRoutes(routes: string[]): string[] {
+    return routes.sort((a, b) => a.localeCompare(b, "en", { numeric: true }));
+  }
+}
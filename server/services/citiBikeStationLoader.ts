@@ -0,0 +1,109 @@
+import fs from "fs";
+import { notInArray, sql } from "drizzle-orm";
+import { db } from "../db";
+import { citiBikeStations, InsertCitiBikeStation } from "../../shared/schema";
+
+interface CitiBikeLoadResult {
+  filePath: string;
+  stationsLoaded: number;
+  stationsRemoved: number;
+}
+
+interface GbfsStationInformation {
+  station_id: string;
+  name?: string;
+  lat?: number;
+  lon?: number;
+  capacity?: number;
+}
+
+/**
+ * Builds the Citi Bike dock table from a saved copy of the GBFS
+ * station_information.json feed
+ */
+export class CitiBikeStationLoader {
+  private static instance: CitiBikeStationLoader;
+
+  static getInstance(): CitiBikeStationLoader {
+    if (!CitiBikeStationLoader.instance) {
+      CitiBikeStationLoader.instance = new CitiBikeStationLoader();
+    }
+    return CitiBikeStationLoader.instance;
+  }
+
+  /**
+   * Location of station_information.json on disk
+   */
+  static defaultFilePath(): string {
+    return process.env.CITIBIKE_STATION_INFO_PATH || "data/citibike/station_information.json";
+  }
+
+  /**
+   * Upsert one row per dock in the file and remove docks that have been decommissioned
+   */
+  async loadFromFile(filePath: string = CitiBikeStationLoader.defaultFilePath()): Promise<CitiBikeLoadResult> {
+    console.log(`[CitiBikeStationLoader] Loading Citi Bike stations from ${filePath}`);
+
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`Citi Bike station information not found at ${filePath}`);
+    }
+
+    const feed = JSON.parse(fs.readFileSync(filePath, "utf8"));
+    const stations: GbfsStationInformation[] = feed?.data?.stations;
+    if (!Array.isArray(stations)) {
+      throw new Error(`${filePath} is not a GBFS station_information feed`);
+    }
+
+    const records: InsertCitiBikeStation[] = [];
+    for (const station of stations) {
+      const lat = Number(station.lat);
+      const lng = Number(station.lon);
+      if (!station.station_id || isNaN(lat) || isNaN(lng)) continue;
+
+      records.push({
+        id: String(station.station_id),
+        name: (station.name || String(station.station_id)).trim(),
+        lat,
+        lng,
+        capacity: typeof station.capacity === "number" ? station.capacity : null
+      });
+    }
+
+    if (records.length === 0) {
+      throw new Error(`${filePath} contains no Citi Bike stations`);
+    }
+
+    const stationIds = records.map(record => record.id);
+    let stationsRemoved = 0;
+
+    await db.transaction(async (tx) => {
+      for (let i = 0; i < records.length; i += 500) {
+        await tx.insert(citiBikeStations)
+          .values(records.slice(i, i + 500))
+          .onConflictDoUpdate({
+            target: citiBikeStations.id,
+            set: {
+              name: sql`excluded.name`,
+              lat: sql`excluded.lat`,
+              lng: sql`excluded.lng`,
+              capacity: sql`excluded.capacity`,
+              lastUpdated: sql`now()`
+            }
+          });
+      }
+
+      const removed = await tx.delete(citiBikeStations)
+        .where(notInArray(citiBikeStations.id, stationIds))
+        .returning({ id: citiBikeStations.id });
+      stationsRemoved = removed.length;
+    });
+
+    console.log(`[CitiBikeStationLoader] Upserted ${records.length} stations, removed ${stationsRemoved} stale stations`);
+
+    return {
+      filePath,
+      stationsLoaded: records.length,
+      stationsRemoved
+    };
+  }
+}
@@ -0,0 +1,179 @@
+import { GeocodingService } from "./geocoding";
+import { TransitRouterService, TransitItinerary } from "./transitRouter";
+import { haversineMiles } from "../utils/geo";
+import { CommuteDestination } from "../../shared/schema";
+
+export interface CommuteResult {
+  destination: string;
+  label?: string;
+  lat: number | null;
+  lng: number | null;
+  minutes: number | null;
+  score: number | null;
+  method: "gtfs" | "estimate" | "unresolved";
+  itinerary: TransitItinerary | null;
+  explanation: string;
+}
+
+export interface CommuteScoreResult {
+  score: number | null; // Null when no destination could be located
+  averageMinutes: number | null;
+  commutes: CommuteResult[];
+  explanation: string;
+  dataSource: string;
+}
+
+// Straight-line estimate used when no GTFS schedule is loaded
+const ESTIMATE_OVERHEAD_MINUTES = 12; // Walk to/from stations plus the platform wait
+const ESTIMATE_TRANSIT_MPH = 14;
+const ESTIMATE_ROUTE_FACTOR = 1.3;
+
+/**
+ * Door-to-door commute times from an address to user-specified destinations
+ * (offices, schools), scored against typical NYC commute expectations.
+ */
+export class CommuteScoringService {
+  private static instance: CommuteScoringService;
+  private geocodingService: GeocodingService;
+  private transitRouter: TransitRouterService;
+
+  constructor() {
+    this.geocodingService = GeocodingService.getInstance();
+    this.transitRouter = TransitRouterService.getInstance();
+  }
+
+  static getInstance(): CommuteScoringService {
+    if (!CommuteScoringService.instance) {
+      CommuteScoringService.instance = new CommuteScoringService();
+    }
+    return CommuteScoringService.instance;
+  }
+
+  async calculateCommuteScore(lat: number, lng: number, destinations: CommuteDestination[]): Promise<CommuteScoreResult> {
+    console.log(`[CommuteService] Calculating commutes from ${lat}, ${lng} to ${destinations.length} destinations`);
+
+    const commutes: CommuteResult[] = [];
+    for (const destination of destinations) {
+      commutes.push(await this.calculateCommute(lat, lng, destination));
+    }
+
+    const resolved = commutes.filter(commute => commute.minutes !== null && commute.score !== null);
+    if (resolved.length === 0) {
+      return {
+        score: null,
+        averageMinutes: null,
+        commutes,
+        explanation: "Unable to locate any of the commute destinations",
+        dataSource: "Fallback"
+      };
+    }
+
+    const score = Math.round(resolved.reduce((sum, commute) => sum + commute.score!, 0) / resolved.length);
+    const averageMinutes = Math.round(resolved.reduce((sum, commute) => sum + commute.minutes!, 0) / resolved.length);
+    const usedSchedule = resolved.some(commute => commute.method === "gtfs");
+
+    return {
+      score,
+      averageMinutes,
+      commutes,
+      explanation: this.generateExplanation(resolved, score),
+      dataSource: usedSchedule ? "NYC MTA GTFS Schedule" : "Straight-line commute estimate"
+    };
+  }
+
+  private async calculateCommute(lat: number, lng: number, destination: CommuteDestination): Promise<CommuteResult> {
+    const name = destination.label || destination.address;
+
+    try {
+      let destLat = destination.lat;
+      let destLng = destination.lng;
+
+      if (destLat === undefined || destLng === undefined) {
+        const geocoded = await this.geocodingService.geocodeAddress(destination.address);
+        if (!geocoded) {
+          return this.unresolved(destination, `Could not locate ${name}`);
+        }
+        destLat = geocoded.lat;
+        destLng = geocoded.lng;
+      }
+
+      const itinerary = await this.transitRouter.planTrip(lat, lng, destLat, destLng);
+      if (itinerary) {
+        return {
+          destination: destination.address,
+          label: destination.label,
+          lat: destLat,
+          lng: destLng,
+          minutes: itinerary.totalMinutes,
+          score: this.calculateScoreFromMinutes(itinerary.totalMinutes),
+          method: "gtfs",
+          itinerary,
+          explanation: this.describeItinerary(name, itinerary)
+        };
+      }
+
+      // No schedule loaded (or no route found): estimate from the straight-line distance
+      const miles = haversineMiles(lat, lng, destLat, destLng);
+      const minutes = Math.round(ESTIMATE_OVERHEAD_MINUTES + (miles * ESTIMATE_ROUTE_FACTOR / ESTIMATE_TRANSIT_MPH) * 60);
+      return {
+        destination: destination.address,
+        label: destination.label,
+        lat: destLat,
+        lng: destLng,
+        minutes,
+        score: this.calculateScoreFromMinutes(minutes),
+        method: "estimate",
+        itinerary: null,
+        explanation: `~${minutes} min to ${name} (estimated from ${miles.toFixed(1)} mile distance)`
+      };
+
+    } catch (error) {
+      console.error(`[CommuteService] Error calculating commute to ${destination.address}:`, error);
+      return this.unresolved(destination, `Unable to calculate commute to ${name}`);
+    }
+  }
+
+  private calculateScoreFromMinutes(minutes: number): number {
+    // 20 min or less = 100, 30 = 85, 45 = 60, 60 = 35, 90+ = 0
+    if (minutes <= 20) return 100;
+    if (minutes <= 30) return Math.round(100 - (minutes - 20) * 1.5);
+    if (minutes <= 45) return Math.round(85 - (minutes - 30) * (25 / 15));
+    if (minutes <= 60) return Math.round(60 - (minutes - 45) * (25 / 15));
+    if (minutes <= 90) return Math.round(35 - (minutes - 60) * (35 / 30));
+    return 0;
+  }
+
+  private describeItinerary(name: string, itinerary: TransitItinerary): string {
+    const rides = itinerary.legs.filter(leg => leg.mode === "subway");
+    if (rides.length === 0) {
+      return `${itinerary.totalMinutes} min walk to ${name}`;
+    }
+
+    const route = rides.map(leg => `${leg.line} ${leg.from} → ${leg.to}`).join(", then ");
+    const transfers = itinerary.transfers === 0 ? "no transfers" : `${itinerary.transfers} transfer${itinerary.transfers === 1 ? "" : "s"}`;
+    return `${itinerary.totalMinutes} min to ${name} via ${route} (${itinerary.walkMinutes} walk + ${itinerary.waitMinutes} wait + ${itinerary.rideMinutes} ride, ${transfers})`;
+  }
+
+  private generateExplanation(commutes: CommuteResult[], score: number): string {
+    let quality = "long";
+    if (score >= 85) quality = "excellent";
+    else if (score >= 60) quality = "reasonable";
+    else if (score >= 35) quality = "lengthy";
+
+    return `${quality} commute: ${commutes.map(commute => commute.explanation).join("; ")}`;
+  }
+
+  private unresolved(destination: CommuteDestination, explanation: string): CommuteResult {
+    return {
+      destination: destination.address,
+      label: destination.label,
+      lat: null,
+      lng: null,
+      minutes: null,
+      score: null,
+      method: "unresolved",
+      itinerary: null,
+      explanation
+    };
+  }
+}
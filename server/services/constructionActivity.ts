@@ -0,0 +1,166 @@
+import { sql } from "drizzle-orm";
+import { db } from "../db";
+import { constructionJobs, ConstructionJob } from "../../shared/schema";
+import { haversineMiles, FEET_PER_MILE } from "../utils/geo";
+import { ImportedTable } from "../utils/database";
+import { ConstructionJobLoader } from "./constructionJobLoader";
+
+export interface NearbyConstructionJob {
+  jobNumber: string;
+  jobType: string;
+  status: string;
+  phase: "active" | "upcoming";
+  address: string | null;
+  distanceFeet: number;
+  stories: number | null;
+  startDate: string; // YYYY-MM-DD, permit date or projected start
+  expectedCompletion: string; // YYYY-MM-DD, estimated from job type and size
+}
+
+export interface ConstructionActivity {
+  score: number;
+  radiusFeet: number;
+  activeJobs: number;
+  upcomingJobs: number;
+  expectedQuietBy: string | null; // When the last listed job is expected to finish
+  jobs: NearbyConstructionJob[]; // Nearest first
+}
+
+const CONSTRUCTION_RADIUS_FEET = 500;
+const MONTH_MS = 30.44 * 24 * 60 * 60 * 1000;
+
+// Permitted jobs often overrun; keep them active this long past the estimate
+const OVERRUN_GRACE_MONTHS = 12;
+// Filings older than this without a permit are assumed abandoned
+const STALE_FILING_MONTHS = 36;
+
+// Noise penalty for an active job right next door, by job type
+const JOB_PENALTY: Record<string, number> = {
+  new_building: 15,
+  demolition: 12,
+  major_alteration: 6
+};
+
+/**
+ * Time-aware construction risk from the local DOB job table: which new
+ * buildings, major alterations and demolitions within 500 ft are under way
+ * or about to start, and when they are expected to finish
+ */
+export class ConstructionActivityService {
+  private static instance: ConstructionActivityService;
+  private jobs = new ImportedTable(constructionJobs, "[ConstructionActivity]", "data:dob");
+
+  static getInstance(): ConstructionActivityService {
+    if (!ConstructionActivityService.instance) {
+      ConstructionActivityService.instance = new ConstructionActivityService();
+    }
+    return ConstructionActivityService.instance;
+  }
+
+  /**
+   * Reload the job table from DOB exports on disk
+   */
+  async refresh(filePaths?: string[]) {
+    const result = await ConstructionJobLoader.getInstance().loadFromExports(filePaths);
+    this.jobs.markLoaded(result.jobsLoaded > 0);
+    return result;
+  }
+
+  /**
+   * Construction activity around a point, or null when no DOB data is loaded
+   */
+  async analyze(lat: number, lng: number, now: Date = new Date()): Promise<ConstructionActivity | null> {
+    if (!(await this.jobs.hasRows())) {
+      return null;
+    }
+
+    const radiusMiles = CONSTRUCTION_RADIUS_FEET / FEET_PER_MILE;
+    const latDelta = radiusMiles / 69;
+    const lngDelta = radiusMiles / (69 * Math.cos(lat * Math.PI / 180));
+    const rows = await db.select().from(constructionJobs).where(
+      sql`${constructionJobs.location} <@ box(point(${lng - lngDelta}, ${lat - latDelta}), point(${lng + lngDelta}, ${lat + latDelta}))`
+    );
+
+    const jobs: NearbyConstructionJob[] = [];
+    let penalty = 0;
+
+    for (const job of rows) {
+      const distanceFeet = haversineMiles(lat, lng, job.lat, job.lng) * FEET_PER_MILE;
+      if (distanceFeet > CONSTRUCTION_RADIUS_FEET) continue;
+
+      const timeline = this.estimateTimeline(job, now);
+      if (!timeline) continue;
+
+      // Full weight within 150 ft, half at the edge of the radius
+      const proximity = distanceFeet <= 150 ? 1 : 1 - 0.5 * (distanceFeet - 150) / (CONSTRUCTION_RADIUS_FEET - 150);
+      // Upcoming jobs count half, and a quarter when they start more than a year out
+      const timing = timeline.phase === "active" ? 1 : timeline.start.getTime() - now.getTime() > 12 * MONTH_MS ? 0.25 : 0.5;
+      penalty += (JOB_PENALTY[job.jobType] || 5) * proximity * timing;
+
+      jobs.push({
+        jobNumber: job.id,
+        jobType: job.jobType,
+        status: job.status,
+        phase: timeline.phase,
+        address: job.address,
+        distanceFeet: Math.round(distanceFeet),
+        stories: job.stories,
+        startDate: this.formatDate(timeline.start),
+        expectedCompletion: this.formatDate(timeline.finish)
+      });
+    }
+
+    jobs.sort((a, b) => a.distanceFeet - b.distanceFeet);
+    const activeJobs = jobs.filter(job => job.phase === "active").length;
+    const expectedQuietBy = jobs.reduce<string | null>((latest, job) =>
+      !latest || job.expectedCompletion > latest ? job.expectedCompletion : latest, null);
+
+    console.log(`[ConstructionActivity] ${activeJobs} active and ${jobs.length - activeJobs} upcoming jobs within ${CONSTRUCTION_RADIUS_FEET} ft`);
+
+    return {
+      score: Math.round(Math.max(40, 95 - penalty)),
+      radiusFeet: CONSTRUCTION_RADIUS_FEET,
+      activeJobs,
+      upcomingJobs: jobs.length - activeJobs,
+      expectedQuietBy,
+      jobs: jobs.slice(0, 10)
+    };
+  }
+
+  /**
+   * Start and expected finish of a job, or null when it is finished, withdrawn or stale
+   */
+  private estimateTimeline(job: ConstructionJob, now: Date): { phase: "active" | "upcoming"; start: Date; finish: Date } | null {
+    if (job.status === "completed" || job.status === "withdrawn" || job.signoffDate) return null;
+
+    const duration = this.estimateDurationMonths(job) * MONTH_MS;
+
+    if (job.status === "permitted") {
+      const start = job.permitDate || job.approvedDate || job.filingDate;
+      if (!start) return null;
+      const finish = new Date(start.getTime() + duration);
+      if (now.getTime() > finish.getTime() + OVERRUN_GRACE_MONTHS * MONTH_MS) return null;
+      return { phase: "active", start, finish };
+    }
+
+    // Filed or approved: work typically starts a few months after approval
+    const filed = job.filingDate || job.approvedDate;
+    if (!filed || now.getTime() - filed.getTime() > STALE_FILING_MONTHS * MONTH_MS) return null;
+    const projected = job.approvedDate
+      ? job.approvedDate.getTime() + 3 * MONTH_MS
+      : filed.getTime() + 9 * MONTH_MS;
+    const start = new Date(Math.max(projected, now.getTime()));
+    return { phase: "upcoming", start, finish: new Date(start.getTime() + duration) };
+  }
+
+  private estimateDurationMonths(job: ConstructionJob): number {
+    if (job.jobType === "demolition") return 4;
+    if (job.jobType === "major_alteration") return 12;
+    // New buildings: about 18 months, plus time for each floor above six
+    return Math.min(48, 18 + Math.max(0, (job.stories || 0) - 6) * 0.75);
+  }
+
+  private formatDate(date: Date): string {
+    return date.toISOString().substring(0, 10);
+  }
+}
@@ -0,0 +1,213 @@
+import fs from "fs";
+import path from "path";
+import { db } from "../db";
+import { constructionJobs, InsertConstructionJob } from "../../shared/schema";
+import { forEachCsvRowInFile, field } from "../utils/csv";
+
+interface ConstructionJobLoadResult {
+  filePaths: string[];
+  rowsRead: number;
+  jobsLoaded: number;
+  byType: Record<string, number>;
+}
+
+// BIS job types and DOB NOW job types we track (minor alterations and signs are ignored)
+const JOB_TYPES: Record<string, string> = {
+  "NB": "new_building",
+  "A1": "major_alteration",
+  "DM": "demolition",
+  "NEW BUILDING": "new_building",
+  "ALTERATION CO": "major_alteration",
+  "FULL DEMOLITION": "demolition"
+};
+
+/**
+ * Builds the construction job table from DOB filing exports on disk: the BIS
+ * "DOB Job Application Filings" (ic3t-wcy2) and/or "DOB NOW: Build – Job
+ * Application Filings" (w9ak-ipjd) CSVs. The format is detected from the header.
+ */
+export class ConstructionJobLoader {
+  private static instance: ConstructionJobLoader;
+
+  static getInstance(): ConstructionJobLoader {
+    if (!ConstructionJobLoader.instance) {
+      ConstructionJobLoader.instance = new ConstructionJobLoader();
+    }
+    return ConstructionJobLoader.instance;
+  }
+
+  /**
+   * DOB filing CSVs on disk: a comma-separated DOB_JOB_FILINGS_PATHS, or every CSV in data/dob
+   */
+  static defaultExportPaths(): string[] {
+    if (process.env.DOB_JOB_FILINGS_PATHS) {
+      return process.env.DOB_JOB_FILINGS_PATHS.split(",").map(filePath => filePath.trim()).filter(Boolean);
+    }
+
+    const directory = "data/dob";
+    if (!fs.existsSync(directory)) {
+      return [];
+    }
+    return fs.readdirSync(directory)
+      .filter(name => name.toLowerCase().endsWith(".csv"))
+      .sort()
+      .map(name => path.join(directory, name));
+  }
+
+  /**
+   * Replace the job table with the tracked filings in the exports
+   */
+  async loadFromExports(filePaths: string[] = ConstructionJobLoader.defaultExportPaths()): Promise<ConstructionJobLoadResult> {
+    if (filePaths.length === 0) {
+      throw new Error("No DOB job filing exports found (set DOB_JOB_FILINGS_PATHS or add CSVs to data/dob)");
+    }
+
+    const jobs = new Map<string, InsertConstructionJob>();
+    const byType: Record<string, number> = {};
+    let rowsRead = 0;
+
+    for (const filePath of filePaths) {
+      console.log(`[ConstructionJobLoader] Loading DOB job filings from ${filePath}`);
+      if (!fs.existsSync(filePath)) {
+        throw new Error(`DOB export not found at ${filePath}`);
+      }
+
+      // The BIS export is well over 1 GB, too large for a single string
+      await forEachCsvRowInFile(filePath, (row) => {
+        rowsRead++;
+        const job = row["Job #"] !== undefined ? this.fromBisRow(row) : this.fromDobNowRow(row);
+        if (!job) return;
+
+        // BIS repeats a job once per document; the primary document (01) wins
+        if (jobs.has(job.id) && field(row, "Doc #") !== "01") return;
+        jobs.set(job.id, job);
+      });
+    }
+
+    const records = Array.from(jobs.values());
+    records.forEach(job => {
+      byType[job.jobType] = (byType[job.jobType] || 0) + 1;
+    });
+
+    if (records.length === 0) {
+      throw new Error(`DOB exports ${filePaths.join(", ")} contain no geocoded new building, alteration or demolition jobs`);
+    }
+
+    await db.transaction(async (tx) => {
+      await tx.delete(constructionJobs);
+      for (let i = 0; i < records.length; i += 500) {
+        await tx.insert(constructionJobs).values(records.slice(i, i + 500));
+      }
+    });
+
+    console.log(`[ConstructionJobLoader] Loaded ${records.length} construction jobs from ${rowsRead} rows:`, byType);
+
+    return { filePaths, rowsRead, jobsLoaded: records.length, byType };
+  }
+
+  private fromBisRow(row: Record<string, string>): InsertConstructionJob | null {
+    const jobType = JOB_TYPES[field(row, "Job Type").toUpperCase()];
+    if (!jobType) return null;
+
+    const statusDescription = field(row, "Job Status Descrp") || field(row, "Job Status");
+    return this.buildJob(row, {
+      id: field(row, "Job #"),
+      source: "dob_bis",
+      jobType,
+      statusDescription,
+      lat: field(row, "GIS_LATITUDE", "Latitude"),
+      lng: field(row, "GIS_LONGITUDE", "Longitude"),
+      house: field(row, "House #"),
+      stories: field(row, "Proposed No. Of Stories"),
+      filingDate: field(row, "Pre- Filing Date", "Pre-Filing Date"),
+      approvedDate: field(row, "Approved"),
+      permitDate: field(row, "Fully Permitted"),
+      signoffDate: field(row, "SIGNOFF_DATE", "Signoff Date")
+    });
+  }
+
+  private fromDobNowRow(row: Record<string, string>): InsertConstructionJob | null {
+    const jobType = JOB_TYPES[field(row, "Job Type").toUpperCase()];
+    if (!jobType) return null;
+
+    return this.buildJob(row, {
+      id: field(row, "Job Filing Number", "Job Number"),
+      source: "dob_now",
+      jobType,
+      statusDescription: field(row, "Filing Status", "Current Status"),
+      lat: field(row, "Latitude", "LATITUDE"),
+      lng: field(row, "Longitude", "LONGITUDE"),
+      house: field(row, "House No", "House #"),
+      stories: field(row, "Proposed No Of Stories", "Proposed No. Of Stories"),
+      filingDate: field(row, "Filing Date"),
+      approvedDate: field(row, "Approved Date"),
+      permitDate: field(row, "First Permit Date", "Permit Issue Date"),
+      signoffDate: field(row, "Signoff Date", "Sign-off Date")
+    });
+  }
+
+  private buildJob(row: Record<string, string>, parsed: {
+    id: string;
+    source: string;
+    jobType: string;
+    statusDescription: string;
+    lat: string;
+    lng: string;
+    house: string;
+    stories: string;
+    filingDate: string;
+    approvedDate: string;
+    permitDate: string;
+    signoffDate: string;
+  }): InsertConstructionJob | null {
+    const lat = parseFloat(parsed.lat);
+    const lng = parseFloat(parsed.lng);
+    if (!parsed.id || isNaN(lat) || isNaN(lng) || lat === 0 || lng === 0) return null;
+
+    const stories = parseInt(parsed.stories, 10);
+    const signoffDate = parseDate(parsed.signoffDate);
+    const street = field(row, "Street Name");
+
+    return {
+      id: parsed.id,
+      source: parsed.source,
+      jobType: parsed.jobType,
+      status: signoffDate ? "completed" : this.normalizeStatus(parsed.statusDescription),
+      statusDescription: parsed.statusDescription || null,
+      address: [parsed.house, street].filter(Boolean).join(" ") || null,
+      borough: field(row, "Borough").toUpperCase() || null,
+      lat,
+      lng,
+      location: { x: lng, y: lat },
+      stories: isNaN(stories) ? null : stories,
+      filingDate: parseDate(parsed.filingDate),
+      approvedDate: parseDate(parsed.approvedDate),
+      permitDate: parseDate(parsed.permitDate),
+      signoffDate
+    };
+  }
+
+  private normalizeStatus(description: string): string {
+    const status = description.toUpperCase();
+    if (/SIGNED.?OFF|SIGN-OFF|COMPLETED|LOC ISSUED|CO ISSUED/.test(status)) return "completed";
+    if (/WITHDRAWN|DISAPPROVED|SUSPENDED|REVOKED|DISMISSED/.test(status)) return "withdrawn";
+    if (/PERMIT/.test(status)) return "permitted";
+    if (/APPROVED/.test(status)) return "approved";
+    return "filed";
+  }
+}
+
+/**
+ * DOB exports use "04/12/2019", "04/12/2019 12:00:00 AM" or ISO timestamps
+ */
+function parseDate(value: string): Date | null {
+  if (!value) return null;
+
+  const us = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+  if (us) return new Date(Date.UTC(+us[3], +us[1] - 1, +us[2]));
+
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return new Date(Date.UTC(+iso[1], +iso[2] - 1, +iso[3]));
+
+  return null;
+}
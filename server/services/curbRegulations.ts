@@ -0,0 +1,249 @@
+import { sql } from "drizzle-orm";
+import { db } from "../db";
+import { parkingBlockFaces } from "../../shared/schema";
+import { haversineMiles, FEET_PER_MILE } from "../utils/geo";
+import { ImportedTable } from "../utils/database";
+import { evaluateCurbHours, streetCleaningWindows, weeklyMoveBurdenHours, SignedRule, CleaningWindow } from "../utils/parkingSigns";
+import { ParkingSignLoader } from "./parkingSignLoader";
+
+export interface StreetCurbSummary {
+  street: string;
+  blockFaces: number;
+  overnightAvailability: number; // % of 7pm-7am curb-hours a resident may park
+  weekendAvailability: number; // % of Sat/Sun 7am-7pm curb-hours
+  streetCleaning: string[]; // Distinct street cleaning signs, e.g. "NO PARKING (SANITATION BROOM SYMBOL) 8-9:30AM MON & THURS"
+  restrictions: string[]; // Other regulations, most signed first
+}
+
+export interface StreetCleaningWindow {
+  day: string; // "Mon"
+  start: string; // "8:30 AM"
+  end: string;
+  blockFaces: number;
+  streets: string[];
+}
+
+export interface StreetCleaningSchedule {
+  score: number; // 100 = no moves needed
+  blockFaces: number; // Nearby block faces where a car can be left overnight
+  blockFacesWithCleaning: number;
+  movesPerWeek: number; // On a typical (median) nearby block face
+  weeklyMoveBurdenHours: number; // Typical block face
+  lowestWeeklyMoveBurdenHours: number; // Least demanding nearby block face
+  windows: StreetCleaningWindow[]; // Weekly calendar, Monday first
+}
+
+export interface CurbRegulationAnalysis {
+  score: number;
+  radiusFeet: number;
+  blockFaces: number;
+  overnightAvailability: number; // Distance-weighted % across all nearby block faces
+  weekendAvailability: number;
+  streets: StreetCurbSummary[]; // Most block faces first
+  streetCleaning: StreetCleaningSchedule | null; // Null when no nearby curb can be left overnight
+}
+
+const CURB_RADIUS_FEET = 600;
+
+// Overnight hours matter more to residents than weekend daytime: 84 vs 24 hours a week
+const OVERNIGHT_WEIGHT = 84 / 108;
+const WEEKEND_WEIGHT = 24 / 108;
+
+// Block faces open overnight at least this share of the time count as places to keep a car
+const PARKABLE_OVERNIGHT_SHARE = 0.5;
+
+const DAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/**
+ * Share of nearby curb-hours legally available to residents overnight and on
+ * weekends, from the block-face regulations parsed out of DOT's sign data
+ */
+export class CurbRegulationService {
+  private static instance: CurbRegulationService;
+  private blockFaces = new ImportedTable(parkingBlockFaces, "[CurbRegulations]", "data:parking");
+
+  static getInstance(): CurbRegulationService {
+    if (!CurbRegulationService.instance) {
+      CurbRegulationService.instance = new CurbRegulationService();
+    }
+    return CurbRegulationService.instance;
+  }
+
+  /**
+   * Reload the block-face table from a DOT sign export on disk
+   */
+  async refresh(filePath?: string) {
+    const result = await ParkingSignLoader.getInstance().loadFromExport(filePath);
+    this.blockFaces.markLoaded(result.blockFacesLoaded > 0);
+    return result;
+  }
+
+  /**
+   * Curb availability around a point, or null when no sign data is loaded or
+   * no regulated block faces are nearby
+   */
+  async analyze(lat: number, lng: number): Promise<CurbRegulationAnalysis | null> {
+    if (!(await this.blockFaces.hasRows())) {
+      return null;
+    }
+
+    const radiusMiles = CURB_RADIUS_FEET / FEET_PER_MILE;
+    const latDelta = radiusMiles / 69;
+    const lngDelta = radiusMiles / (69 * Math.cos(lat * Math.PI / 180));
+    const rows = await db.select().from(parkingBlockFaces).where(
+      sql`${parkingBlockFaces.location} <@ box(point(${lng - lngDelta}, ${lat - latDelta}), point(${lng + lngDelta}, ${lat + latDelta}))`
+    );
+
+    const streets = new Map<string, {
+      faces: number;
+      weight: number;
+      overnight: number;
+      weekend: number;
+      cleaning: Set<string>;
+      restrictions: Map<string, number>;
+    }>();
+    let totalWeight = 0;
+    let overnightSum = 0;
+    let weekendSum = 0;
+    let faceCount = 0;
+    const parkableFaces: Array<{ street: string; windows: CleaningWindow[] }> = [];
+
+    for (const face of rows) {
+      const distanceFeet = haversineMiles(lat, lng, face.lat, face.lng) * FEET_PER_MILE;
+      if (distanceFeet > CURB_RADIUS_FEET) continue;
+
+      const regulations = this.parseRegulations(face.regulations);
+      if (regulations.length === 0) continue;
+
+      const hours = evaluateCurbHours(regulations);
+      // The blocks around the address count fully, the edge of the radius half
+      const weight = distanceFeet <= 200 ? 1 : 1 - 0.5 * (distanceFeet - 200) / (CURB_RADIUS_FEET - 200);
+      totalWeight += weight;
+      overnightSum += hours.overnight * weight;
+      weekendSum += hours.weekend * weight;
+      faceCount++;
+
+      if (hours.overnight >= PARKABLE_OVERNIGHT_SHARE) {
+        parkableFaces.push({ street: face.onStreet, windows: streetCleaningWindows(regulations) });
+      }
+
+      let street = streets.get(face.onStreet);
+      if (!street) {
+        street = { faces: 0, weight: 0, overnight: 0, weekend: 0, cleaning: new Set(), restrictions: new Map() };
+        streets.set(face.onStreet, street);
+      }
+      street.faces++;
+      street.weight += weight;
+      street.overnight += hours.overnight * weight;
+      street.weekend += hours.weekend * weight;
+
+      for (const { rule, signCount } of regulations) {
+        if (rule.kind === "street_cleaning") {
+          street.cleaning.add(rule.text);
+        } else {
+          street.restrictions.set(rule.text, (street.restrictions.get(rule.text) || 0) + signCount);
+        }
+      }
+    }
+
+    if (faceCount === 0) {
+      return null;
+    }
+
+    const overnight = overnightSum / totalWeight;
+    const weekend = weekendSum / totalWeight;
+    const share = overnight * OVERNIGHT_WEIGHT + weekend * WEEKEND_WEIGHT;
+
+    const summaries: StreetCurbSummary[] = Array.from(streets.entries())
+      .map(([name, street]) => ({
+        street: name,
+        blockFaces: street.faces,
+        overnightAvailability: Math.round(street.overnight / street.weight * 100),
+        weekendAvailability: Math.round(street.weekend / street.weight * 100),
+        streetCleaning: Array.from(street.cleaning),
+        restrictions: Array.from(street.restrictions.entries())
+          .sort((a, b) => b[1] - a[1])
+          .slice(0, 3)
+          .map(([text]) => text)
+      }))
+      .sort((a, b) => b.blockFaces - a.blockFaces);
+
+    console.log(`[CurbRegulations] ${faceCount} block faces within ${CURB_RADIUS_FEET} ft: ${Math.round(overnight * 100)}% overnight, ${Math.round(weekend * 100)}% weekend`);
+
+    return {
+      score: Math.max(5, Math.round(share * 100)),
+      radiusFeet: CURB_RADIUS_FEET,
+      blockFaces: faceCount,
+      overnightAvailability: Math.round(overnight * 100),
+      weekendAvailability: Math.round(weekend * 100),
+      streets: summaries.slice(0, 8),
+      streetCleaning: this.buildStreetCleaningSchedule(parkableFaces)
+    };
+  }
+
+  /**
+   * Alternate side parking calendar for the block faces a resident could keep
+   * a car on, and how many hours a week it takes to keep moving it
+   */
+  private buildStreetCleaningSchedule(faces: Array<{ street: string; windows: CleaningWindow[] }>): StreetCleaningSchedule | null {
+    if (faces.length === 0) {
+      return null;
+    }
+
+    const calendar = new Map<string, { window: CleaningWindow; blockFaces: number; streets: Set<string> }>();
+    for (const face of faces) {
+      for (const window of face.windows) {
+        const key = `${window.day}-${window.start}-${window.end}`;
+        let entry = calendar.get(key);
+        if (!entry) {
+          entry = { window, blockFaces: 0, streets: new Set() };
+          calendar.set(key, entry);
+        }
+        entry.blockFaces++;
+        entry.streets.add(face.street);
+      }
+    }
+
+    const burdens = faces
+      .map(face => ({ hours: weeklyMoveBurdenHours(face.windows), moves: face.windows.length }))
+      .sort((a, b) => a.hours - b.hours);
+    const typical = burdens[Math.floor((burdens.length - 1) / 2)];
+
+    // Monday first, as the ASP calendar is usually read
+    const windows = Array.from(calendar.values())
+      .sort((a, b) => (a.window.day + 6) % 7 - (b.window.day + 6) % 7 || a.window.start - b.window.start)
+      .map(entry => ({
+        day: DAY_NAMES[entry.window.day],
+        start: this.formatTime(entry.window.start),
+        end: this.formatTime(entry.window.end),
+        blockFaces: entry.blockFaces,
+        streets: Array.from(entry.streets)
+      }));
+
+    return {
+      // Each weekly hour of moving costs 12 points: one 1.5 hour window a week scores 79, four score 16
+      score: Math.max(10, Math.round(100 - typical.hours * 12)),
+      blockFaces: faces.length,
+      blockFacesWithCleaning: faces.filter(face => face.windows.length > 0).length,
+      movesPerWeek: typical.moves,
+      weeklyMoveBurdenHours: Math.round(typical.hours * 10) / 10,
+      lowestWeeklyMoveBurdenHours: Math.round(burdens[0].hours * 10) / 10,
+      windows
+    };
+  }
+
+  private formatTime(minutes: number): string {
+    const hour = Math.floor(minutes / 60) % 24;
+    const minute = minutes % 60;
+    return `${hour % 12 || 12}:${minute.toString().padStart(2, "0")} ${hour < 12 ? "AM" : "PM"}`;
+  }
+
+  private parseRegulations(value: string): SignedRule[] {
+    try {
+      const parsed = JSON.parse(value);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  }
+}
@@ -1,5 +1,6 @@
 import FirecrawlApp from "@mendable/firecrawl-js";
 import type { ExtractedPropertyData } from "@shared/schema";
+import { addressFromSlug, normalizeAddress } from "../../shared/address";
 
 interface FirecrawlScrapeResponse {
   success: boolean;
@@ -116,55 +117,6 @@ export class FirecrawlExtractor {
     }
   }
 
-  /**
-   * Normalize address string for proper formatting
-   */
-  private normalizeAddress(addressStr: string): string {
-    if (!addressStr) return addressStr;
-
-    // Convert to title case
-    let normalized = addressStr.toLowerCase().split(' ').map(word => {
-      return word.charAt(0).toUpperCase() + word.slice(1);
-    }).join(' ');
-
-    // Handle ordinal numbers for street names only (not building numbers)
-    // Pattern: look for numbers that are followed by words like "Street", "Avenue", etc.
-    normalized = normalized.replace(/\b(\d+)\s+((?:Street|Avenue|Road|Drive|Boulevard|Place|Lane|Court|St|Ave|Rd|Dr|Blvd|Pl|Ln|Ct))\b/g, (match, num, streetType) => {
-      const number = parseInt(num);
-      let ordinal;
-      
-      if (number >= 11 && number <= 13) {
-        ordinal = number + 'th';
-      } else {
-        const lastDigit = number % 10;
-        switch (lastDigit) {
-          case 1: ordinal = number + 'st'; break;
-          case 2: ordinal = number + 'nd'; break;
-          case 3: ordinal = number + 'rd'; break;
-          default: ordinal = number + 'th';
-        }
-      }
-      
-      return `${ordinal} ${streetType}`;
-    });
-
-    // Fix common street abbreviations
-    normalized = normalized
-      .replace(/\bSt\b/g, 'Street')
-      .replace(/\bAve\b/g, 'Avenue')
-      .replace(/\bRd\b/g, 'Road')
-      .replace(/\bDr\b/g, 'Drive')
-      .replace(/\bBlvd\b/g, 'Boulevard')
-      .replace(/\bPl\b/g, 'Place')
-      .replace(/\bLn\b/g, 'Lane')
-      .replace(/\bCt\b/g, 'Court');
-
-    // Clean up extra whitespace
-    normalized = normalized.replace(/\s+/g, ' ').trim();
-
-    return normalized;
-  }
-
   /**
    * Parse property data from Firecrawl markdown content
    */
@@ -254,14 +206,7 @@ export class FirecrawlExtractor {
       
       let address = null;
       if (buildingPart) {
-        // First remove the terminal "-new_york" segment if present
-        let cleanPart = buildingPart.replace(/-new_york$/, '');
-        
-        // Then replace remaining hyphens with spaces and underscores with spaces
-        cleanPart = cleanPart.replace(/-/g, ' ').replace(/_/g, ' ');
-        
-        // Clean up extra spaces and apply proper casing
-        address = this.normalizeAddress(cleanPart.trim());
+        address = normalizeAddress(addressFromSlug(buildingPart));
       }
       
       // Add apartment number if available
@@ -279,7 +224,7 @@ export class FirecrawlExtractor {
         for (const pattern of addressPatterns) {
           const match = markdown.match(pattern);
           if (match) {
-            address = this.normalizeAddress(match[1]);
+            address = normalizeAddress(match[1]);
             break;
           }
         }
@@ -0,0 +1,147 @@
+import { sql } from "drizzle-orm";
+import { db } from "../db";
+import { garages } from "../../shared/schema";
+import { haversineMiles } from "../utils/geo";
+import { ImportedTable } from "../utils/database";
+import { GarageRegistryLoader } from "./garageRegistryLoader";
+
+export interface NearbyGarage {
+  licenseNumber: string;
+  name: string;
+  address: string | null;
+  distanceMiles: number;
+  walkMinutes: number;
+  capacity: number | null;
+  hours: string | null;
+  monthlyRate: number | null;
+}
+
+export interface GarageProximity {
+  score: number;
+  walkingRadiusMiles: number;
+  garagesInRange: number;
+  garages: NearbyGarage[]; // Nearest first, the ones the score is based on
+  averageMonthlyRate: number | null; // Capacity-weighted across scored garages with known rates
+  cheapestMonthly: NearbyGarage | null; // Cheapest known monthly rate within walking distance
+}
+
+const WALKING_RADIUS_MILES = 0.5; // About a 10 minute walk
+const NEAREST_GARAGES = 5;
+const WALK_MINUTES_PER_MILE = 20;
+
+// Spaces assumed for a licensed garage that does not list its capacity
+const DEFAULT_CAPACITY = 75;
+
+// Monthly rate -> cost score, interpolated between points
+const MONTHLY_RATE_SCORES: Array<[number, number]> = [[250, 100], [400, 80], [600, 55], [800, 35], [1000, 15]];
+
+/**
+ * Garage proximity from the local registry of licensed garages: how much
+ * capacity is within walking distance and what a monthly spot costs
+ */
+export class GarageRegistryService {
+  private static instance: GarageRegistryService;
+  private registry = new ImportedTable(garages, "[GarageRegistry]", "data:garages");
+
+  static getInstance(): GarageRegistryService {
+    if (!GarageRegistryService.instance) {
+      GarageRegistryService.instance = new GarageRegistryService();
+    }
+    return GarageRegistryService.instance;
+  }
+
+  /**
+   * Reload the registry from the DCWP export and rates CSV on disk
+   */
+  async refresh(licensesPath?: string, ratesPath?: string) {
+    const result = await GarageRegistryLoader.getInstance().loadFromExports(licensesPath, ratesPath);
+    this.registry.markLoaded(result.garagesLoaded > 0);
+    return result;
+  }
+
+  /**
+   * Garage access around a point, or null when the registry is not loaded
+   */
+  async analyze(lat: number, lng: number): Promise<GarageProximity | null> {
+    if (!(await this.registry.hasRows())) {
+      return null;
+    }
+
+    const latDelta = WALKING_RADIUS_MILES / 69;
+    const lngDelta = WALKING_RADIUS_MILES / (69 * Math.cos(lat * Math.PI / 180));
+    const rows = await db.select().from(garages).where(
+      sql`${garages.location} <@ box(point(${lng - lngDelta}, ${lat - latDelta}), point(${lng + lngDelta}, ${lat + latDelta}))`
+    );
+
+    const inRange: NearbyGarage[] = rows
+      .map(garage => {
+        const distanceMiles = haversineMiles(lat, lng, garage.lat, garage.lng);
+        return {
+          licenseNumber: garage.id,
+          name: garage.name,
+          address: garage.address,
+          distanceMiles: Math.round(distanceMiles * 100) / 100,
+          walkMinutes: Math.round(distanceMiles * WALK_MINUTES_PER_MILE),
+          capacity: garage.capacity,
+          hours: garage.hours,
+          monthlyRate: garage.monthlyRate
+        };
+      })
+      .filter(garage => garage.distanceMiles <= WALKING_RADIUS_MILES)
+      .sort((a, b) => a.distanceMiles - b.distanceMiles);
+
+    const nearest = inRange.slice(0, NEAREST_GARAGES);
+    const cheapestMonthly = inRange
+      .filter(garage => garage.monthlyRate !== null)
+      .reduce<NearbyGarage | null>((cheapest, garage) =>
+        !cheapest || garage.monthlyRate! < cheapest.monthlyRate! ? garage : cheapest, null);
+
+    // Supply: capacity of the nearest garages, discounted with distance; three
+    // 100-space garages on the block count as full marks
+    const supply = nearest.reduce((total, garage) => {
+      const proximity = garage.distanceMiles <= 0.1 ? 1 : 1 - 0.8 * (garage.distanceMiles - 0.1) / (WALKING_RADIUS_MILES - 0.1);
+      return total + proximity * Math.min(1.5, (garage.capacity || DEFAULT_CAPACITY) / 100);
+    }, 0);
+    const supplyScore = Math.min(100, supply / 3 * 100);
+
+    const priced = nearest.filter(garage => garage.monthlyRate !== null);
+    const pricedCapacity = priced.reduce((total, garage) => total + (garage.capacity || DEFAULT_CAPACITY), 0);
+    const averageMonthlyRate = priced.length > 0
+      ? priced.reduce((total, garage) => total + garage.monthlyRate! * (garage.capacity || DEFAULT_CAPACITY), 0) / pricedCapacity
+      : null;
+
+    // Without any known rates the score rests on supply alone
+    const score = nearest.length === 0
+      ? 15
+      : averageMonthlyRate !== null
+        ? supplyScore * 0.6 + this.calculateCostScore(averageMonthlyRate) * 0.4
+        : supplyScore;
+
+    console.log(`[GarageRegistry] ${inRange.length} garages within ${WALKING_RADIUS_MILES} mi${cheapestMonthly ? `, cheapest monthly $${cheapestMonthly.monthlyRate} at ${cheapestMonthly.name}` : ""}`);
+
+    return {
+      score: Math.max(10, Math.round(score)),
+      walkingRadiusMiles: WALKING_RADIUS_MILES,
+      garagesInRange: inRange.length,
+      garages: nearest,
+      averageMonthlyRate: averageMonthlyRate !== null ? Math.round(averageMonthlyRate) : null,
+      cheapestMonthly
+    };
+  }
+
+  private calculateCostScore(monthlyRate: number): number {
+    const first = MONTHLY_RATE_SCORES[0];
+    const last = MONTHLY_RATE_SCORES[MONTHLY_RATE_SCORES.length - 1];
+    if (monthlyRate <= first[0]) return first[1];
+    if (monthlyRate >= last[0]) return last[1];
+
+    for (let i = 1; i < MONTHLY_RATE_SCORES.length; i++) {
+      const [upperRate, upperScore] = MONTHLY_RATE_SCORES[i];
+      const [lowerRate, lowerScore] = MONTHLY_RATE_SCORES[i - 1];
+      if (monthlyRate <= upperRate) {
+        return lowerScore + (monthlyRate - lowerRate) / (upperRate - lowerRate) * (upperScore - lowerScore);
+      }
+    }
+    return last[1];
+  }
+}
@@ -0,0 +1,169 @@
+import fs from "fs";
+import { db } from "../db";
+import { garages, InsertGarage } from "../../shared/schema";
+import { forEachCsvRow, field } from "../utils/csv";
+
+interface GarageRegistryLoadResult {
+  licensesPath: string;
+  ratesPath: string | null;
+  garagesLoaded: number;
+  withCapacity: number;
+  withRates: number;
+  unmatchedRates: number; // Rate rows whose license number is not an active garage
+}
+
+interface GarageRate {
+  monthlyRate: number | null;
+  hours: string | null;
+  capacity: number | null;
+}
+
+/**
+ * Builds the garage registry from DCWP's "Legally Operating Businesses" CSV
+ * export (NYC Open Data w7w3-xahh), keeping active garage and parking lot
+ * licenses, then applies monthly rates and hours from a hand-maintained CSV:
+ *
+ *   license_number,name,monthly_rate,hours,capacity
+ *   1234567,Example Garage,525,24/7,
+ *
+ * Only license_number is required; blank fields leave the licensed values alone.
+ */
+export class GarageRegistryLoader {
+  private static instance: GarageRegistryLoader;
+
+  static getInstance(): GarageRegistryLoader {
+    if (!GarageRegistryLoader.instance) {
+      GarageRegistryLoader.instance = new GarageRegistryLoader();
+    }
+    return GarageRegistryLoader.instance;
+  }
+
+  /**
+   * Location of the DCWP license export on disk
+   */
+  static defaultLicensesPath(): string {
+    return process.env.DCWP_GARAGES_PATH || "data/parking/dcwp_licensed_garages.csv";
+  }
+
+  /**
+   * Location of the monthly rates CSV on disk
+   */
+  static defaultRatesPath(): string {
+    return process.env.GARAGE_RATES_PATH || "data/parking/garage_rates.csv";
+  }
+
+  /**
+   * Replace the registry with the licensed garages, merged with any known rates
+   */
+  async loadFromExports(
+    licensesPath: string = GarageRegistryLoader.defaultLicensesPath(),
+    ratesPath: string = GarageRegistryLoader.defaultRatesPath()
+  ): Promise<GarageRegistryLoadResult> {
+    console.log(`[GarageRegistryLoader] Loading licensed garages from ${licensesPath}`);
+
+    if (!fs.existsSync(licensesPath)) {
+      throw new Error(`DCWP license export not found at ${licensesPath}`);
+    }
+
+    const records = new Map<string, InsertGarage>();
+    forEachCsvRow(fs.readFileSync(licensesPath, "utf8"), (row) => {
+      const garage = this.fromLicenseRow(row);
+      if (garage) records.set(garage.id, garage);
+    });
+
+    if (records.size === 0) {
+      throw new Error(`${licensesPath} contains no active, geocoded garage or parking lot licenses`);
+    }
+
+    // The rates file is optional; without it garages are scored on capacity and distance only
+    let unmatchedRates = 0;
+    const hasRates = fs.existsSync(ratesPath);
+    if (hasRates) {
+      console.log(`[GarageRegistryLoader] Applying garage rates from ${ratesPath}`);
+      const rates = this.parseRates(fs.readFileSync(ratesPath, "utf8"));
+      for (const [licenseNumber, rate] of Array.from(rates.entries())) {
+        const garage = records.get(licenseNumber);
+        if (!garage) {
+          unmatchedRates++;
+          continue;
+        }
+        if (rate.monthlyRate !== null) garage.monthlyRate = rate.monthlyRate;
+        if (rate.hours) garage.hours = rate.hours;
+        if (rate.capacity !== null) garage.capacity = rate.capacity;
+      }
+      if (unmatchedRates > 0) {
+        console.log(`[GarageRegistryLoader] ${unmatchedRates} rate rows do not match an active garage license`);
+      }
+    } else {
+      console.log(`[GarageRegistryLoader] No garage rates file at ${ratesPath}, loading licenses only`);
+    }
+
+    const values = Array.from(records.values());
+    await db.transaction(async (tx) => {
+      await tx.delete(garages);
+      for (let i = 0; i < values.length; i += 500) {
+        await tx.insert(garages).values(values.slice(i, i + 500));
+      }
+    });
+
+    const withCapacity = values.filter(garage => garage.capacity).length;
+    const withRates = values.filter(garage => garage.monthlyRate).length;
+    console.log(`[GarageRegistryLoader] Loaded ${values.length} garages (${withCapacity} with capacity, ${withRates} with monthly rates)`);
+
+    return {
+      licensesPath,
+      ratesPath: hasRates ? ratesPath : null,
+      garagesLoaded: values.length,
+      withCapacity,
+      withRates,
+      unmatchedRates
+    };
+  }
+
+  private fromLicenseRow(row: Record<string, string>): InsertGarage | null {
+    const category = field(row, "Business Category", "Industry");
+    if (!/GARAGE|PARKING LOT/i.test(category)) return null;
+
+    const status = field(row, "License Status");
+    if (status && !/^ACTIVE/i.test(status)) return null;
+
+    const id = field(row, "License Number", "DCA License Number");
+    const lat = parseFloat(field(row, "Latitude"));
+    const lng = parseFloat(field(row, "Longitude"));
+    if (!id || isNaN(lat) || isNaN(lng) || lat === 0 || lng === 0) return null;
+
+    // Garage licenses list their spaces in the detail text, e.g. "Vehicle Spaces: 120, Bicycle Spaces: 12"
+    const spaces = field(row, "Detail").match(/Vehicle Spaces:\s*(\d+)/i);
+    const address = [field(row, "Address Building"), field(row, "Address Street Name")].filter(Boolean).join(" ");
+
+    return {
+      id,
+      name: field(row, "DBA/Trade Name", "Business Name") || "Parking garage",
+      address: address || null,
+      borough: field(row, "Address Borough").toUpperCase() || null,
+      lat,
+      lng,
+      location: { x: lng, y: lat },
+      capacity: spaces ? parseInt(spaces[1], 10) : null,
+      hours: null,
+      monthlyRate: null
+    };
+  }
+
+  private parseRates(text: string): Map<string, GarageRate> {
+    const rates = new Map<string, GarageRate>();
+    forEachCsvRow(text, (row) => {
+      const licenseNumber = field(row, "license_number");
+      if (!licenseNumber) return;
+
+      const monthlyRate = parseFloat(field(row, "monthly_rate").replace(/[$,]/g, ""));
+      const capacity = parseInt(field(row, "capacity"), 10);
+      rates.set(licenseNumber, {
+        monthlyRate: isNaN(monthlyRate) || monthlyRate <= 0 ? null : Math.round(monthlyRate),
+        hours: field(row, "hours") || null,
+        capacity: isNaN(capacity) || capacity <= 0 ? null : capacity
+      });
+    });
+    return rates;
+  }
+}
@@ -0,0 +1,167 @@
+import { eq, sql } from "drizzle-orm";
+import { db } from "../db";
+import { geocodeCache, GeocodeCacheEntry, InsertGeocodeCacheEntry } from "../../shared/schema";
+import { addressKey, formatAddress, parseAddress } from "../../shared/address";
+import type { GeocodingResult } from "./geocoding";
+
+// How long a geocoder result is reused before the address is geocoded again
+const TTL_DAYS = parseFloat(process.env.GEOCODE_CACHE_TTL_DAYS || "") || 90;
+
+/**
+ * Geocoding results by normalized address, checked before the PAD index and
+ * Nominatim. Entries expire after the TTL; pinned entries are analyst
+ * corrections and are returned until unpinned.
+ */
+export class GeocodeCacheService {
+  private static instance: GeocodeCacheService;
+
+  static getInstance(): GeocodeCacheService {
+    if (!GeocodeCacheService.instance) {
+      GeocodeCacheService.instance = new GeocodeCacheService();
+    }
+    return GeocodeCacheService.instance;
+  }
+
+  static ttlDays(): number {
+    return TTL_DAYS;
+  }
+
+  /**
+   * Cached result for an address, or null when missing or expired
+   */
+  async get(address: string): Promise<GeocodingResult | null> {
+    const key = geocodeCacheKey(address);
+    try {
+      const rows = await db.select().from(geocodeCache).where(eq(geocodeCache.addressKey, key));
+      const entry = rows[0];
+      if (!entry) return null;
+
+      const ageDays = (Date.now() - entry.geocodedAt.getTime()) / (24 * 60 * 60 * 1000);
+      if (!entry.pinned && ageDays > TTL_DAYS) {
+        console.log(`[GeocodeCache] Expired entry for ${key} (${Math.round(ageDays)} days old)`);
+        return null;
+      }
+
+      console.log(`[GeocodeCache] Hit for ${key} (${entry.pinned ? "pinned" : entry.provider})`);
+      return toResult(entry);
+    } catch (error) {
+      console.error(`[GeocodeCache] Lookup failed for ${key}:`, error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  /**
+   * Store a geocoder result, replacing an expired entry but never a pinned one
+   */
+  async store(address: string, result: GeocodingResult): Promise<void> {
+    const key = geocodeCacheKey(address);
+    try {
+      await db.insert(geocodeCache)
+        .values(toEntry(key, address, result, false, null))
+        .onConflictDoUpdate({
+          target: geocodeCache.addressKey,
+          set: {
+            lat: sql`excluded.lat`,
+            lng: sql`excluded.lng`,
+            formattedAddress: sql`excluded.formatted_address`,
+            provider: sql`excluded.provider`,
+            confidence: sql`excluded.confidence`,
+            borough: sql`excluded.borough`,
+            neighborhood: sql`excluded.neighborhood`,
+            bbl: sql`excluded.bbl`,
+            bin: sql`excluded.bin`,
+            geocodedAt: sql`now()`
+          },
+          setWhere: eq(geocodeCache.pinned, false)
+        });
+    } catch (error) {
+      console.error(`[GeocodeCache] Failed to store ${key}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  /**
+   * Pin a corrected location for an address. The formatted address and BBL
+   * are kept from the geocoded entry when there is one.
+   */
+  async pin(address: string, location: { lat: number; lng: number; borough: string }, note?: string): Promise<GeocodeCacheEntry> {
+    const key = geocodeCacheKey(address);
+    const existing = (await db.select().from(geocodeCache).where(eq(geocodeCache.addressKey, key)))[0];
+
+    const entry = toEntry(key, existing?.address || address, {
+      lat: location.lat,
+      lng: location.lng,
+      formattedAddress: existing?.formattedAddress || address,
+      provider: "manual",
+      confidence: 100,
+      borough: location.borough,
+      neighborhood: existing?.neighborhood || undefined,
+      bbl: existing?.bbl || undefined,
+      bin: existing?.bin
+    }, true, note || null);
+
+    const [row] = await db.insert(geocodeCache)
+      .values(entry)
+      .onConflictDoUpdate({ target: geocodeCache.addressKey, set: { ...entry, geocodedAt: sql`now()` } })
+      .returning();
+
+    console.log(`[GeocodeCache] Pinned ${key} to ${location.lat}, ${location.lng}${note ? ` (${note})` : ""}`);
+    return row;
+  }
+
+  /**
+   * Remove an address's entry, pinned or not, so the next lookup geocodes it
+   * afresh. Resolves to false when there was no entry.
+   */
+  async remove(address: string): Promise<boolean> {
+    const key = geocodeCacheKey(address);
+    const removed = await db.delete(geocodeCache)
+      .where(eq(geocodeCache.addressKey, key))
+      .returning({ addressKey: geocodeCache.addressKey });
+    return removed.length > 0;
+  }
+}
+
+/**
+ * Cache key for an address: the building's normalized street address plus
+ * its borough when the address names one, so "123 E 45th St, Apt 4B, NY 10017"
+ * and "123 East 45 Street, Manhattan" share an entry
+ */
+export function geocodeCacheKey(address: string): string {
+  const parsed = parseAddress(address);
+  if (!parsed) return address.trim().toUpperCase();
+  const building = addressKey(formatAddress(parsed, false));
+  return parsed.borough ? `${building}, ${parsed.borough.toUpperCase()}` : building;
+}
+
+function toEntry(key: string, address: string, result: GeocodingResult, pinned: boolean, note: string | null): InsertGeocodeCacheEntry {
+  return {
+    addressKey: key,
+    address,
+    lat: result.lat,
+    lng: result.lng,
+    formattedAddress: result.formattedAddress,
+    provider: result.provider,
+    confidence: result.confidence,
+    borough: result.borough || null,
+    neighborhood: result.neighborhood || null,
+    bbl: result.bbl || null,
+    bin: result.bin || null,
+    pinned,
+    note
+  };
+}
+
+function toResult(entry: GeocodeCacheEntry): GeocodingResult {
+  return {
+    lat: entry.lat,
+    lng: entry.lng,
+    formattedAddress: entry.formattedAddress,
+    confidence: entry.confidence,
+    provider: entry.provider as GeocodingResult["provider"],
+    borough: entry.borough || undefined,
+    neighborhood: entry.neighborhood || undefined,
+    bbl: entry.bbl || undefined,
+    bin: entry.bin,
+    cached: true
+  };
+}
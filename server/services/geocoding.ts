@@ -1,8 +1,41 @@
-interface GeocodingResult {
+import { AddressIndexService } from './addressIndex';
+import { GeocodeCacheService } from './geocodeCache';
+import { GeographyService } from './geography';
+import { parseAddress } from '../../shared/address';
+
+export interface GeocodingResult {
+  lat: number;
+  lng: number;
+  formattedAddress: string;
+  confidence: number;
+  provider: 'pad' | 'nominatim' | 'manual'; // 'manual' for a location pinned by an analyst
+  borough?: string;
+  neighborhood?: string; // From Nominatim's address details, used when no NTA boundaries are loaded
+  bbl?: string; // Only from the local PAD index
+  bin?: string | null;
+  unit?: string | null;
+  cached?: boolean;
+}
+
+// A geocoded address placed in its borough and neighborhood, as served to the client
+export interface ResolvedAddress {
   lat: number;
   lng: number;
   formattedAddress: string;
   confidence: number;
+  provider: GeocodingResult['provider'];
+  borough: string;
+  neighborhood: string | null; // 2020 Neighborhood Tabulation Area name, else the geocoder's neighborhood
+  bbl: string | null;
+  bin: string | null;
+  unit: string | null;
+  cached: boolean;
+}
+
+interface NominatimAddress {
+  neighbourhood?: string;
+  quarter?: string;
+  suburb?: string;
 }
 
 interface NominatimResponse {
@@ -10,11 +43,15 @@ interface NominatimResponse {
   lon: string;
   display_name: string;
   importance: number;
+  address?: NominatimAddress;
 }
 
+const BOROUGH_NAMES = new Set(['Manhattan', 'Bronx', 'The Bronx', 'Brooklyn', 'Queens', 'Staten Island']);
+
 export class GeocodingService {
   private static instance: GeocodingService;
   private readonly baseUrl = 'https://nominatim.openstreetmap.org/search';
+  private readonly reverseUrl = 'https://nominatim.openstreetmap.org/reverse';
   
   static getInstance(): GeocodingService {
     if (!GeocodingService.instance) {
@@ -24,11 +61,84 @@ export class GeocodingService {
   }
 
   /**
-   * Geocode an address to coordinates using OpenStreetMap Nominatim API
+   * Geocode an address from the geocode cache, else the local PAD address
+   * index, falling back to OpenStreetMap Nominatim for addresses the index
+   * cannot match. Fresh results are cached per building.
    */
   async geocodeAddress(address: string): Promise<GeocodingResult | null> {
     console.log(`[Geocoding] Geocoding address: ${address}`);
-    
+    const unit = parseAddress(address)?.unit ?? null;
+
+    const cached = await GeocodeCacheService.getInstance().get(address);
+    if (cached) {
+      return { ...cached, unit };
+    }
+
+    const result = await this.geocodeUncached(address);
+    if (result) {
+      await GeocodeCacheService.getInstance().store(address, result);
+    }
+    return result ? { ...result, unit } : null;
+  }
+
+  /**
+   * Geocode an address and resolve its borough and neighborhood from the
+   * boundary polygons, so every flow labels a location the same way. Without
+   * NTA boundaries the neighborhood comes from the geocoder.
+   */
+  async resolveAddress(address: string): Promise<ResolvedAddress | null> {
+    const result = await this.geocodeAddress(address);
+    if (!result) return null;
+
+    const geography = await GeographyService.getInstance().resolve(result.lat, result.lng);
+    // Without boundary files the PAD (or pinned) borough beats the coordinate approximation
+    const borough = geography.source === 'boundaries' ? geography.borough : (result.borough || geography.borough);
+
+    return {
+      lat: result.lat,
+      lng: result.lng,
+      formattedAddress: result.formattedAddress,
+      confidence: result.confidence,
+      provider: result.provider,
+      borough,
+      neighborhood: geography.nta?.name ?? result.neighborhood ?? null,
+      bbl: result.bbl ?? null,
+      bin: result.bin ?? null,
+      unit: result.unit ?? null,
+      cached: result.cached ?? false
+    };
+  }
+
+  private async geocodeUncached(address: string): Promise<GeocodingResult | null> {
+    try {
+      const match = await AddressIndexService.getInstance().lookup(address);
+      if (match) {
+        // PAD has no neighborhood names; ask Nominatim only when the NTA boundaries cannot supply one
+        const geography = await GeographyService.getInstance().resolve(match.lat, match.lng);
+        const neighborhood = geography.nta ? undefined : await this.reverseNeighborhood(match.lat, match.lng);
+        return {
+          lat: match.lat,
+          lng: match.lng,
+          formattedAddress: match.formattedAddress,
+          confidence: match.confidence,
+          provider: 'pad',
+          borough: match.borough,
+          neighborhood,
+          bbl: match.bbl,
+          bin: match.bin
+        };
+      }
+    } catch (error) {
+      console.error(`[Geocoding] Address index lookup failed for "${address}":`, error instanceof Error ? error.message : error);
+    }
+
+    return this.geocodeWithNominatim(address);
+  }
+
+  /**
+   * Geocode an address to coordinates using OpenStreetMap Nominatim API
+   */
+  private async geocodeWithNominatim(address: string): Promise<GeocodingResult | null> {
     try {
       // Add NYC context to improve accuracy for NYC addresses
       const searchQuery = address.toLowerCase().includes('new york') || 
@@ -87,7 +197,9 @@ export class GeocodingService {
         lat,
         lng,
         formattedAddress: result.display_name,
-        confidence: Math.min(100, (result.importance || 0.5) * 100) // Convert importance to 0-100 scale
+        confidence: Math.min(100, (result.importance || 0.5) * 100), // Convert importance to 0-100 scale
+        provider: 'nominatim',
+        neighborhood: neighborhoodFromAddress(result.address)
       };
 
       console.log(`[Geocoding] Geocoded "${address}" to ${lat}, ${lng} (confidence: ${geocodingResult.confidence})`);
@@ -100,21 +212,51 @@ export class GeocodingService {
   }
 
   /**
-   * Validate if coordinates are within NYC boundaries
+   * Neighborhood name at a point from Nominatim's reverse geocoder
    */
-  isWithinNYC(lat: number, lng: number): boolean {
-    return lat >= 40.4774 && lat <= 40.9176 && lng >= -74.2591 && lng <= -73.7004;
+  private async reverseNeighborhood(lat: number, lng: number): Promise<string | undefined> {
+    try {
+      const params = new URLSearchParams({
+        lat: String(lat),
+        lon: String(lng),
+        format: 'json',
+        zoom: '16',
+        addressdetails: '1'
+      });
+
+      const response = await fetch(`${this.reverseUrl}?${params}`, {
+        headers: {
+          'User-Agent': 'StreetWise/1.0 (Property Analysis Service)'
+        }
+      });
+      if (!response.ok) {
+        console.error(`[Geocoding] Reverse lookup failed: ${response.status} ${response.statusText}`);
+        return undefined;
+      }
+
+      const result: NominatimResponse = await response.json();
+      return neighborhoodFromAddress(result.address);
+
+    } catch (error) {
+      console.error(`[Geocoding] Error reverse geocoding ${lat}, ${lng}:`, error);
+      return undefined;
+    }
   }
 
   /**
-   * Get borough name from coordinates (rough approximation)
+   * Validate if coordinates are within NYC boundaries
    */
-  getBoroughFromCoordinates(lat: number, lng: number): string {
-    // Very rough borough boundaries for basic classification
-    if (lat >= 40.8 && lng >= -73.95) return 'Bronx';
-    if (lat <= 40.65 && lng <= -74.0) return 'Staten Island';
-    if (lat <= 40.75 && lng >= -73.95) return 'Brooklyn';
-    if (lat >= 40.75 && lng <= -73.85) return 'Queens';
-    return 'Manhattan'; // Default fallback
+  isWithinNYC(lat: number, lng: number): boolean {
+    return lat >= 40.4774 && lat <= 40.9176 && lng >= -74.2591 && lng <= -73.7004;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Most specific neighborhood in Nominatim's address details. NYC suburbs are
+ * often the borough itself, which is not a neighborhood.
+ */
+function neighborhoodFromAddress(address: NominatimAddress | undefined): string | undefined {
+  if (!address) return undefined;
+  const suburb = address.suburb && !BOROUGH_NAMES.has(address.suburb) ? address.suburb : undefined;
+  return address.neighbourhood || address.quarter || suburb;
+}
@@ -0,0 +1,212 @@
+import fs from "fs";
+import path from "path";
+import RBush from "rbush";
+import { readGeoFeatures, readField, toBoundaryPolygons, GeoJsonFeature } from "../utils/geoFiles";
+import { pointInPolygon } from "../utils/geo";
+
+export interface GeographyResolution {
+  borough: string; // "Manhattan", "Bronx", "Brooklyn", "Queens", "Staten Island"
+  boroughCode: string; // "1"-"5", as used by DOF and DCP datasets
+  nta: { code: string; name: string } | null; // 2020 Neighborhood Tabulation Area
+  communityDistrict: number | null; // BoroCD, e.g. 105 = Manhattan Community District 5
+  councilDistrict: number | null;
+  schoolDistrict: number | null; // DOE community school district, 1-32
+  source: "boundaries" | "approximate"; // Approximate when no borough or NTA boundaries are loaded
+}
+
+type LayerName = "borough" | "nta" | "communityDistrict" | "councilDistrict" | "schoolDistrict";
+
+interface BoundaryEntry {
+  minX: number; // lng
+  minY: number; // lat
+  maxX: number;
+  maxY: number;
+  properties: Record<string, any>;
+  polygons: number[][][][];
+}
+
+// File name (without extension) of each boundary layer in the geography directory,
+// as published on NYC Open Data / DCP BYTES
+const LAYER_FILES: Record<LayerName, string> = {
+  borough: "borough_boundaries",
+  nta: "nta_2020",
+  communityDistrict: "community_districts",
+  councilDistrict: "council_districts",
+  schoolDistrict: "school_districts"
+};
+
+const BOROUGH_NAMES: Record<string, string> = {
+  "1": "Manhattan",
+  "2": "Bronx",
+  "3": "Brooklyn",
+  "4": "Queens",
+  "5": "Staten Island"
+};
+
+/**
+ * Borough, Neighborhood Tabulation Area, community, council and school
+ * district for any point, from DCP boundary polygons on disk (GeoJSON or
+ * shapefile, one file per layer) held in in-process R-trees. The one place
+ * borough is derived from coordinates; without boundary files it falls back
+ * to a coarse approximation so callers always get a borough.
+ */
+export class GeographyService {
+  private static instance: GeographyService;
+  private layers: Partial<Record<LayerName, RBush<BoundaryEntry>>> = {};
+  private loading: Promise<boolean> | null = null;
+
+  static getInstance(): GeographyService {
+    if (!GeographyService.instance) {
+      GeographyService.instance = new GeographyService();
+    }
+    return GeographyService.instance;
+  }
+
+  /**
+   * Directory holding the boundary files
+   */
+  static geographyDir(): string {
+    return process.env.GEOGRAPHY_DIR || "data/geography";
+  }
+
+  /**
+   * Load the boundary layers once. Resolves to false when neither borough
+   * nor NTA boundaries are available.
+   */
+  async ensureLoaded(): Promise<boolean> {
+    if (!this.loading) {
+      this.loading = this.loadLayers(GeographyService.geographyDir());
+    }
+    return this.loading;
+  }
+
+  /**
+   * Replace the loaded layers with the files in a different directory
+   */
+  async reload(directory: string = GeographyService.geographyDir()): Promise<boolean> {
+    this.loading = this.loadLayers(directory);
+    return this.loading;
+  }
+
+  async resolve(lat: number, lng: number): Promise<GeographyResolution> {
+    await this.ensureLoaded();
+
+    const borough = this.find("borough", lat, lng);
+    const nta = this.find("nta", lat, lng);
+    const communityDistrict = this.find("communityDistrict", lat, lng);
+    const councilDistrict = this.find("councilDistrict", lat, lng);
+    const schoolDistrict = this.find("schoolDistrict", lat, lng);
+
+    // Borough from the borough layer, else from the NTA or community district it falls in
+    const boroughCode =
+      readField(borough, "boro_code", "BoroCode", "borocode") ||
+      readField(nta, "borocode", "BoroCode", "boro_code") ||
+      (communityDistrict ? String(readField(communityDistrict, "boro_cd", "BoroCD")).charAt(0) : "");
+
+    const ntaCode = readField(nta, "nta2020", "NTA2020", "ntacode", "NTACode");
+    const cd = parseInt(readField(communityDistrict, "boro_cd", "BoroCD"), 10);
+    const council = parseInt(readField(councilDistrict, "coun_dist", "CounDist"), 10);
+    const school = parseInt(readField(schoolDistrict, "school_dist", "SchoolDist", "schooldist"), 10);
+
+    if (!BOROUGH_NAMES[boroughCode]) {
+      const approximateCode = approximateBoroughCode(lat, lng);
+      return {
+        borough: BOROUGH_NAMES[approximateCode],
+        boroughCode: approximateCode,
+        nta: null,
+        communityDistrict: isNaN(cd) ? null : cd,
+        councilDistrict: isNaN(council) ? null : council,
+        schoolDistrict: isNaN(school) ? null : school,
+        source: "approximate"
+      };
+    }
+
+    return {
+      borough: BOROUGH_NAMES[boroughCode],
+      boroughCode,
+      nta: ntaCode ? { code: ntaCode, name: readField(nta, "ntaname", "NTAName", "nta_name") || ntaCode } : null,
+      communityDistrict: isNaN(cd) ? null : cd,
+      councilDistrict: isNaN(council) ? null : council,
+      schoolDistrict: isNaN(school) ? null : school,
+      source: "boundaries"
+    };
+  }
+
+  /**
+   * Borough name for a point
+   */
+  async resolveBorough(lat: number, lng: number): Promise<string> {
+    return (await this.resolve(lat, lng)).borough;
+  }
+
+  /**
+   * Community school district for a point, or null when the school district
+   * boundaries are not loaded
+   */
+  async resolveSchoolDistrict(lat: number, lng: number): Promise<number | null> {
+    return (await this.resolve(lat, lng)).schoolDistrict;
+  }
+
+  private find(layer: LayerName, lat: number, lng: number): Record<string, any> | null {
+    const tree = this.layers[layer];
+    if (!tree) return null;
+
+    for (const entry of tree.search({ minX: lng, minY: lat, maxX: lng, maxY: lat })) {
+      if (entry.polygons.some(polygon => pointInPolygon(lat, lng, polygon))) {
+        return entry.properties;
+      }
+    }
+    return null;
+  }
+
+  private async loadLayers(directory: string): Promise<boolean> {
+    const layers: Partial<Record<LayerName, RBush<BoundaryEntry>>> = {};
+
+    for (const [layer, baseName] of Object.entries(LAYER_FILES) as Array<[LayerName, string]>) {
+      const filePath = [".geojson", ".json", ".shp"]
+        .map(extension => path.join(directory, baseName + extension))
+        .find(candidate => fs.existsSync(candidate));
+      if (!filePath) continue;
+
+      try {
+        const entries = (await readGeoFeatures(filePath))
+          .map(toBoundaryEntry)
+          .filter((entry): entry is BoundaryEntry => entry !== null);
+        const tree = new RBush<BoundaryEntry>();
+        tree.load(entries);
+        layers[layer] = tree;
+        console.log(`[Geography] Loaded ${entries.length} ${layer} boundaries from ${filePath}`);
+      } catch (error) {
+        console.error(`[Geography] Failed to load ${filePath}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    this.layers = layers;
+    const ready = Boolean(layers.borough || layers.nta);
+    if (!ready) {
+      console.log(`[Geography] No borough or NTA boundaries in ${directory}, using approximate boroughs`);
+    }
+    return ready;
+  }
+}
+
+function toBoundaryEntry(feature: GeoJsonFeature): BoundaryEntry | null {
+  const boundary = toBoundaryPolygons(feature.geometry);
+  if (!boundary) return null;
+
+  const { polygons, minLat, minLng, maxLat, maxLng } = boundary;
+  return { minX: minLng, minY: minLat, maxX: maxLng, maxY: maxLat, properties: feature.properties || {}, polygons };
+}
+
+/**
+ * Coarse borough code from coordinates, for when no boundary files are
+ * loaded. Known to be wrong near borough edges (Long Island City, Riverdale,
+ * Marble Hill); load the DCP boundaries for exact answers.
+ */
+function approximateBoroughCode(lat: number, lng: number): string {
+  if (lng < -74.05 && lat < 40.65) return "5"; // Staten Island
+  if (lat > 40.88 || (lat > 40.8 && lng > -73.93)) return "2"; // Bronx
+  if (lng < -73.93 && lat > 40.7 && lat <= 40.88) return "1"; // Manhattan, west of the East River
+  if (lat < 40.74 && lng < -73.86) return "3"; // Brooklyn
+  return "4"; // Queens
+}
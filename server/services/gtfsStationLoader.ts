@@ -0,0 +1,382 @@
+import fs from "fs";
+import { notInArray, sql } from "drizzle-orm";
+import { db } from "../db";
+import {
+  subwayStations,
+  subwayStationEntrances,
+  InsertSubwayStation,
+  InsertSubwayStationEntrance
+} from "../../shared/schema";
+import { openGtfsFeed, GtfsFeed } from "../utils/gtfs";
+import { forEachCsvRow } from "../utils/csv";
+import { haversineMiles } from "../utils/geo";
+
+interface StationLoadResult {
+  feedPath: string;
+  stationsLoaded: number;
+  stationsRemoved: number;
+  routesFound: number;
+  entrancesLoaded: number;
+}
+
+// GTFS route_type for subway/metro service
+const SUBWAY_ROUTE_TYPE = "1";
+
+// A segment counts as express when a path through intermediate stops exists
+// that is at most this much longer than the direct hop
+const LOCAL_DETOUR_FACTOR = 1.3;
+
+/**
+ * Builds the subway station table from a locally stored MTA GTFS static feed.
+ * Platforms are rolled up to their parent station and each station records the
+ * set of lines that actually stop there according to the published schedule,
+ * along with the lines that make express stops there.
+ */
+export class GtfsStationLoader {
+  private static instance: GtfsStationLoader;
+
+  static getInstance(): GtfsStationLoader {
+    if (!GtfsStationLoader.instance) {
+      GtfsStationLoader.instance = new GtfsStationLoader();
+    }
+    return GtfsStationLoader.instance;
+  }
+
+  /**
+   * Location of the subway GTFS zip (or extracted directory) on disk
+   */
+  static defaultFeedPath(): string {
+    return process.env.MTA_SUBWAY_GTFS_PATH || "data/gtfs/gtfs_subway.zip";
+  }
+
+  /**
+   * Location of the MTA "Subway Entrances and Exits" CSV export. Optional: when
+   * the file is missing, entrances come from the feed's location_type=2 stops.
+   */
+  static defaultEntrancesPath(): string {
+    return process.env.MTA_SUBWAY_ENTRANCES_PATH || "data/gtfs/subway_entrances.csv";
+  }
+
+  /**
+   * Parse the feed and upsert one row per parent station. Stations that are no
+   * longer present in the feed are removed so the table mirrors the feed.
+   */
+  async loadFromFeed(
+    feedPath: string = GtfsStationLoader.defaultFeedPath(),
+    entrancesPath: string = GtfsStationLoader.defaultEntrancesPath()
+  ): Promise<StationLoadResult> {
+    console.log(`[GtfsStationLoader] Loading subway stations from ${feedPath}`);
+    const feed = openGtfsFeed(feedPath);
+
+    const routeLines = this.readRouteLines(feed);
+    const { stations, parentOf, entrances: feedEntrances } = this.readParentStations(feed);
+    const { linesByStation, segmentsByLine } = this.collectStationService(feed, routeLines, parentOf);
+    const expressByStation = this.findExpressStops(segmentsByLine, stations);
+
+    const records: InsertSubwayStation[] = [];
+    for (const [stationId, station] of Array.from(stations.entries())) {
+      const lines = linesByStation.get(stationId);
+      if (!lines || lines.size === 0) {
+        // Stations without scheduled service (closed or future) are skipped
+        continue;
+      }
+
+      records.push({
+        id: stationId,
+        name: station.name,
+        lat: station.lat,
+        lng: station.lng,
+        lines: JSON.stringify(this.sortLines(Array.from(lines))),
+        expressLines: JSON.stringify(this.sortLines(Array.from(expressByStation.get(stationId) || []))),
+        borough: null
+      });
+    }
+
+    if (records.length === 0) {
+      throw new Error(`GTFS feed ${feed.source} produced no served subway stations`);
+    }
+
+    const stationIds = records.map(record => record.id);
+    const servedStations = new Set(stationIds);
+
+    // The MTA entrance export is more complete than the feed, so prefer it when present
+    const csvEntrances = fs.existsSync(entrancesPath) ? this.readEntranceCsv(entrancesPath) : [];
+    const entrances = (csvEntrances.length > 0 ? csvEntrances : feedEntrances)
+      .filter(entrance => servedStations.has(entrance.stationId));
+
+    let stationsRemoved = 0;
+
+    await db.transaction(async (tx) => {
+      for (let i = 0; i < records.length; i += 200) {
+        await tx.insert(subwayStations)
+          .values(records.slice(i, i + 200))
+          .onConflictDoUpdate({
+            target: subwayStations.id,
+            set: {
+              name: sql`excluded.name`,
+              lat: sql`excluded.lat`,
+              lng: sql`excluded.lng`,
+              lines: sql`excluded.lines`,
+              expressLines: sql`excluded.express_lines`,
+              borough: sql`coalesce(excluded.borough, ${subwayStations.borough})`,
+              lastUpdated: sql`now()`
+            }
+          });
+      }
+
+      const removed = await tx.delete(subwayStations)
+        .where(notInArray(subwayStations.id, stationIds))
+        .returning({ id: subwayStations.id });
+      stationsRemoved = removed.length;
+
+      // Entrances have no stable identity across exports, so replace them wholesale
+      await tx.delete(subwayStationEntrances);
+      for (let i = 0; i < entrances.length; i += 200) {
+        await tx.insert(subwayStationEntrances).values(entrances.slice(i, i + 200));
+      }
+    });
+
+    console.log(`[GtfsStationLoader] Upserted ${records.length} stations, removed ${stationsRemoved} stale stations`);
+    console.log(`[GtfsStationLoader] Loaded ${entrances.length} station entrances from ${csvEntrances.length > 0 ? entrancesPath : "the GTFS feed"}`);
+
+    return {
+      feedPath: feed.source,
+      stationsLoaded: records.length,
+      stationsRemoved,
+      routesFound: routeLines.size,
+      entrancesLoaded: entrances.length
+    };
+  }
+
+  private readRouteLines(feed: GtfsFeed): Map<string, string> {
+    const routeLines = new Map<string, string>();
+
+    feed.eachRow("routes", (route) => {
+      // MTA feeds only carry subway routes, but skip anything else defensively
+      if (route.route_type && route.route_type !== SUBWAY_ROUTE_TYPE) return;
+      routeLines.set(route.route_id, this.normalizeLine(route.route_short_name || route.route_id));
+    });
+
+    return routeLines;
+  }
+
+  private readParentStations(feed: GtfsFeed): {
+    stations: Map<string, { name: string; lat: number; lng: number }>;
+    parentOf: Map<string, string>;
+    entrances: InsertSubwayStationEntrance[];
+  } {
+    const stations = new Map<string, { name: string; lat: number; lng: number }>();
+    const parentOf = new Map<string, string>();
+    const entrances: InsertSubwayStationEntrance[] = [];
+
+    feed.eachRow("stops", (stop) => {
+      const locationType = stop.location_type || "0";
+
+      if (locationType === "1" || (locationType === "0" && !stop.parent_station)) {
+        const lat = parseFloat(stop.stop_lat);
+        const lng = parseFloat(stop.stop_lon);
+        if (isNaN(lat) || isNaN(lng)) return;
+
+        stations.set(stop.stop_id, { name: stop.stop_name.trim(), lat, lng });
+        parentOf.set(stop.stop_id, stop.stop_id);
+      } else if (locationType === "0") {
+        parentOf.set(stop.stop_id, stop.parent_station);
+      } else if (locationType === "2" && stop.parent_station) {
+        const lat = parseFloat(stop.stop_lat);
+        const lng = parseFloat(stop.stop_lon);
+        if (isNaN(lat) || isNaN(lng)) return;
+
+        entrances.push({ id: stop.stop_id, stationId: stop.parent_station, lat, lng, entranceType: null });
+      }
+    });
+
+    return { stations, parentOf, entrances };
+  }
+
+  private readEntranceCsv(entrancesPath: string): InsertSubwayStationEntrance[] {
+    const entrances: InsertSubwayStationEntrance[] = [];
+    const countByStation = new Map<string, number>();
+
+    forEachCsvRow(fs.readFileSync(entrancesPath, "utf8"), (row) => {
+      const stationId = row["GTFS Stop ID"];
+      const lat = parseFloat(row["Entrance Latitude"]);
+      const lng = parseFloat(row["Entrance Longitude"]);
+      if (!stationId || isNaN(lat) || isNaN(lng)) return;
+
+      // Exit-only stairs are no use when walking to the train
+      if ((row["Entry Allowed"] || "").toUpperCase() === "NO") return;
+
+      const index = (countByStation.get(stationId) || 0) + 1;
+      countByStation.set(stationId, index);
+
+      entrances.push({
+        id: `${stationId}-E${index}`,
+        stationId,
+        lat,
+        lng,
+        entranceType: row["Entrance Type"] || null
+      });
+    });
+
+    return entrances;
+  }
+
+  private collectStationService(
+    feed: GtfsFeed,
+    routeLines: Map<string, string>,
+    parentOf: Map<string, string>
+  ): { linesByStation: Map<string, Set<string>>; segmentsByLine: Map<string, Set<string>> } {
+    const lineByTrip = new Map<string, string>();
+    feed.eachRow("trips", (trip) => {
+      const line = routeLines.get(trip.route_id);
+      if (line) lineByTrip.set(trip.trip_id, line);
+    });
+
+    const linesByStation = new Map<string, Set<string>>();
+    const stopsByTrip = new Map<string, Array<{ sequence: number; stationId: string }>>();
+    feed.eachRow("stop_times", (stopTime) => {
+      const line = lineByTrip.get(stopTime.trip_id);
+      const stationId = parentOf.get(stopTime.stop_id);
+      if (!line || !stationId) return;
+
+      let lines = linesByStation.get(stationId);
+      if (!lines) {
+        lines = new Set();
+        linesByStation.set(stationId, lines);
+      }
+      lines.add(line);
+
+      let stops = stopsByTrip.get(stopTime.trip_id);
+      if (!stops) {
+        stops = [];
+        stopsByTrip.set(stopTime.trip_id, stops);
+      }
+      stops.push({ sequence: parseInt(stopTime.stop_sequence, 10), stationId });
+    });
+
+    // Consecutive stops of each trip are the station-to-station hops the line makes
+    const segmentsByLine = new Map<string, Set<string>>();
+    stopsByTrip.forEach((stops, tripId) => {
+      const line = lineByTrip.get(tripId)!;
+      let segments = segmentsByLine.get(line);
+      if (!segments) {
+        segments = new Set();
+        segmentsByLine.set(line, segments);
+      }
+
+      stops.sort((a, b) => a.sequence - b.sequence);
+      for (let i = 1; i < stops.length; i++) {
+        if (stops[i - 1].stationId !== stops[i].stationId) {
+          segments.add(`${stops[i - 1].stationId}|${stops[i].stationId}`);
+        }
+      }
+    });
+
+    return { linesByStation, segmentsByLine };
+  }
+
+  /**
+   * A hop is express when the same two stations are also linked by a comparable
+   * path through intermediate stations (the local track). Both ends of an express
+   * hop are express stops for the line making it.
+   */
+  private findExpressStops(
+    segmentsByLine: Map<string, Set<string>>,
+    stations: Map<string, { name: string; lat: number; lng: number }>
+  ): Map<string, Set<string>> {
+    const adjacency = new Map<string, Set<string>>();
+    const link = (from: string, to: string) => {
+      const neighbors = adjacency.get(from) || new Set<string>();
+      neighbors.add(to);
+      adjacency.set(from, neighbors);
+    };
+    segmentsByLine.forEach(segments => {
+      segments.forEach(segment => {
+        const [from, to] = segment.split("|");
+        link(from, to);
+        link(to, from);
+      });
+    });
+
+    const bypassed = new Map<string, boolean>();
+    const expressByStation = new Map<string, Set<string>>();
+
+    segmentsByLine.forEach((segments, line) => {
+      segments.forEach(segment => {
+        const [from, to] = segment.split("|");
+        const key = from < to ? `${from}|${to}` : `${to}|${from}`;
+        if (!bypassed.has(key)) {
+          bypassed.set(key, this.hasLocalPath(from, to, adjacency, stations));
+        }
+        if (!bypassed.get(key)) return;
+
+        for (const stationId of [from, to]) {
+          const lines = expressByStation.get(stationId) || new Set<string>();
+          lines.add(line);
+          expressByStation.set(stationId, lines);
+        }
+      });
+    });
+
+    return expressByStation;
+  }
+
+  private hasLocalPath(
+    from: string,
+    to: string,
+    adjacency: Map<string, Set<string>>,
+    stations: Map<string, { name: string; lat: number; lng: number }>
+  ): boolean {
+    const start = stations.get(from);
+    const end = stations.get(to);
+    if (!start || !end) return false;
+
+    const limit = haversineMiles(start.lat, start.lng, end.lat, end.lng) * LOCAL_DETOUR_FACTOR;
+    const distances = new Map<string, number>([[from, 0]]);
+    const settled = new Set<string>();
+
+    // Dijkstra over the track graph, ignoring the direct hop and bounded by the detour limit
+    while (true) {
+      let current: string | null = null;
+      let currentDistance = Infinity;
+      distances.forEach((distance, stationId) => {
+        if (!settled.has(stationId) && distance < currentDistance) {
+          current = stationId;
+          currentDistance = distance;
+        }
+      });
+      if (current === null) return false;
+      if (current === to) return true;
+      settled.add(current);
+
+      const position = stations.get(current)!;
+      const neighbors = adjacency.get(current) || new Set<string>();
+      neighbors.forEach(neighbor => {
+        if (current === from && neighbor === to) return;
+        const next = stations.get(neighbor);
+        if (!next || settled.has(neighbor)) return;
+
+        const distance = currentDistance + haversineMiles(position.lat, position.lng, next.lat, next.lng);
+        if (distance <= limit && distance < (distances.get(neighbor) ?? Infinity)) {
+          distances.set(neighbor, distance);
+        }
+      });
+    }
+  }
+
+  private normalizeLine(routeName: string): string {
+    const line = routeName.trim().toUpperCase();
+
+    // Shuttles (42 St, Franklin Av, Rockaway Park) are all signed as "S"
+    if (line === "GS" || line === "FS" || line === "H") return "S";
+
+    // Peak-direction express variants (6X, 7X, FX) are the same line
+    if (line.length === 2 && line.endsWith("X")) return line[0];
+
+    return line;
+  }
+
+  private sortLines(lines: string[]): string[] {
+    return lines.sort((a, b) => a.localeCompare(b, "en", { numeric: true }));
+  }
+}
@@ -5,7 +5,9 @@ import type {
   InsertComparableProperty, 
   MarketAnalysisRequest 
 } from "@shared/schema";
+import { addressKey, normalizeAddress } from "@shared/address";
 import { eq, and, gte, lte, desc, sql } from "drizzle-orm";
+import { GeographyService } from "./geography";
 
 interface ComparablePropertyData {
   id: string;
@@ -219,7 +221,7 @@ export class MarketAnalysisService {
       const lngRange = 0.018; // ~1 mile in longitude degrees (NYC area)
       
       // NYC Rolling Calendar Sales uses different field names
-      const boroughCode = this.getBoroughCode(lat, lng);
+      const { boroughCode } = await GeographyService.getInstance().resolve(lat, lng);
       const queryParams = new URLSearchParams({
         '$where': `sale_price > 100000`,
         '$limit': '200',
@@ -292,7 +294,7 @@ export class MarketAnalysisService {
         
         comparables.push({
           id: `nyc_${sale.bbl || `${sale.block}_${sale.lot}_${Date.parse(sale.sale_date)}`}`,
-          address: sale.address,
+          address: normalizeAddress(sale.address),
           unit: sale.apartment_number || undefined,
           price: Math.round(salePrice),
           bedrooms,
@@ -316,18 +318,6 @@ export class MarketAnalysisService {
       .slice(0, 12);
   }
 
-  /**
-   * Get NYC borough code for API filtering
-   */
-  private getBoroughCode(lat: number, lng: number): string {
-    // Rough borough boundaries for API filtering
-    if (lat >= 40.8 && lng >= -73.95) return '2'; // Bronx
-    if (lat <= 40.65 && lng <= -74.0) return '5'; // Staten Island
-    if (lat <= 40.75 && lng >= -73.95) return '3'; // Brooklyn
-    if (lat >= 40.75 && lng <= -73.85) return '4'; // Queens
-    return '1'; // Manhattan (default)
-  }
-
   /**
    * Extract bedroom count from NYC sales data
    */
@@ -475,10 +465,14 @@ export class MarketAnalysisService {
       ...(publicComparables.status === 'fulfilled' ? publicComparables.value : [])
     ];
     
-    // Remove duplicates based on address similarity
-    const uniqueComparables = allComparables.filter((comp, index, arr) => 
-      arr.findIndex(c => c.address === comp.address) === index
-    );
+    // Remove duplicates: the same unit listed under different spellings of its address
+    const seenAddresses = new Set<string>();
+    const uniqueComparables = allComparables.filter(comp => {
+      const key = addressKey(comp.address, comp.unit);
+      if (seenAddresses.has(key)) return false;
+      seenAddresses.add(key);
+      return true;
+    });
     
     console.log(`[MarketAnalysis] Found ${uniqueComparables.length} unique comparable properties`);
     
@@ -1,10 +1,12 @@
 import { db } from "../db";
-import { neighborhoodEnrichmentAudits, InsertNeighborhoodEnrichmentAudit, NeighborhoodEnrichmentAudit } from "../../shared/schema";
+import { neighborhoodEnrichmentAudits, InsertNeighborhoodEnrichmentAudit, NeighborhoodEnrichmentAudit, CommuteDestination } from "../../shared/schema";
 import { SubwayProximityService } from "./subwayProximity";
 import { WalkabilityService } from "./walkabilityScoring";
 import { NoiseScoringService } from "./noiseScoring";
 import { ParkingAvailabilityService } from "./parkingAvailability";
 import { SchoolScoringService } from "./schoolScoring";
+import { CommuteScoringService, CommuteScoreResult } from "./commuteScoring";
+import { GeographyService } from "./geography";
 import { safeInsert } from "../utils/database";
 
 interface LocationData {
@@ -12,6 +14,7 @@ interface LocationData {
   lng: number;
   address?: string;
   borough?: string;
+  commuteDestinations?: CommuteDestination[];
 }
 
 interface EnrichmentResult {
@@ -22,6 +25,7 @@ interface EnrichmentResult {
     noise: number;
     parking: number;
     school?: number;
+    commute?: number;
     overall: number;
   };
   details: {
@@ -30,6 +34,7 @@ interface EnrichmentResult {
     noise: any;
     parking: any;
     school?: any;
+    commute?: CommuteScoreResult;
   };
   explanation: string;
   dataSource: string;
@@ -45,6 +50,8 @@ export class NeighborhoodEnrichmentOrchestrator {
   private noiseService: NoiseScoringService;
   private parkingService: ParkingAvailabilityService;
   private schoolService: SchoolScoringService;
+  private commuteService: CommuteScoringService;
+  private geographyService: GeographyService;
 
   constructor() {
     this.subwayService = SubwayProximityService.getInstance();
@@ -52,6 +59,8 @@ export class NeighborhoodEnrichmentOrchestrator {
     this.noiseService = NoiseScoringService.getInstance();
     this.parkingService = ParkingAvailabilityService.getInstance();
     this.schoolService = SchoolScoringService.getInstance();
+    this.commuteService = CommuteScoringService.getInstance();
+    this.geographyService = GeographyService.getInstance();
   }
 
   static getInstance(): NeighborhoodEnrichmentOrchestrator {
@@ -61,45 +70,26 @@ export class NeighborhoodEnrichmentOrchestrator {
     return NeighborhoodEnrichmentOrchestrator.instance;
   }
 
-  private deriveBoroughFromCoordinates(lat: number, lng: number): string {
-    // Simple borough derivation based on coordinate ranges
-    // These are approximate boundaries for NYC boroughs
-    
-    // Staten Island (southernmost)
-    if (lat < 40.65) {
-      return "Staten Island";
-    }
-    
-    // Brooklyn (southern part of NYC)
-    if (lat < 40.75 && lng > -74.05) {
-      return "Brooklyn";
-    }
-    
-    // Queens (eastern part)
-    if (lng > -73.8) {
-      return "Queens";
-    }
-    
-    // Bronx (northern)
-    if (lat > 40.8) {
-      return "Bronx";
-    }
-    
-    // Default to Manhattan (central)
-    return "Manhattan";
-  }
-
   async enrichLocation(locationData: LocationData): Promise<EnrichmentResult> {
     const startTime = Date.now();
     console.log(`Starting neighborhood enrichment for: ${locationData.address || `${locationData.lat}, ${locationData.lng}`}`);
     
     // Ensure borough is available for school scoring
     if (!locationData.borough) {
-      locationData.borough = this.deriveBoroughFromCoordinates(locationData.lat, locationData.lng);
+      locationData.borough = await this.geographyService.resolveBorough(locationData.lat, locationData.lng);
       console.log(`[Orchestrator] Derived borough: ${locationData.borough} from coordinates`);
     }
 
     try {
+      // Commutes are only calculated when destinations were requested
+      const commutePromise: Promise<CommuteScoreResult | null> = locationData.commuteDestinations?.length
+        ? this.commuteService.calculateCommuteScore(locationData.lat, locationData.lng, locationData.commuteDestinations)
+            .catch(error => {
+              console.error("[Orchestrator] Commute scoring failed:", error);
+              return null;
+            })
+        : Promise.resolve(null);
+
       // Run all enrichment services in parallel for better performance
       const enrichmentPromises = [
         this.subwayService.calculateSubwayScore(locationData.lat, locationData.lng),
@@ -124,6 +114,8 @@ export class NeighborhoodEnrichmentOrchestrator {
       
       // Always extract school result since it's always included now
       const schoolResult = results[4].status === 'fulfilled' ? results[4].value : this.getSchoolFallback();
+      const commuteResult = await commutePromise;
+      const commuteScore = commuteResult?.score ?? undefined;
 
       // Calculate overall score
       const scores = {
@@ -132,12 +124,14 @@ export class NeighborhoodEnrichmentOrchestrator {
         noise: noiseResult.score,
         parking: parkingResult.score,
         school: schoolResult?.score,
+        commute: commuteScore,
         overall: this.calculateOverallScore({
           subway: subwayResult.score,
           walkability: walkabilityResult.score,
           noise: noiseResult.score,
           parking: parkingResult.score,
-          school: schoolResult?.score
+          school: schoolResult?.score,
+          commute: commuteScore
         })
       };
 
@@ -150,6 +144,7 @@ export class NeighborhoodEnrichmentOrchestrator {
         walkabilityScore: scores.walkability,
         noiseScore: scores.noise,
         parkingScore: scores.parking,
+        commuteScore: scores.commute ?? null,
         nearestSubwayStation: subwayResult.nearestStation || null,
         nearestSubwayDistance: subwayResult.distanceInMiles || null,
         dataSource: this.combineDataSources([subwayResult, walkabilityResult, noiseResult, parkingResult, schoolResult])
@@ -175,7 +170,8 @@ export class NeighborhoodEnrichmentOrchestrator {
           walkability: walkabilityResult,
           noise: noiseResult,
           parking: parkingResult,
-          school: schoolResult
+          school: schoolResult,
+          commute: commuteResult || undefined
         },
         explanation: this.generateOverallExplanation(scores, [subwayResult, walkabilityResult, noiseResult, parkingResult, schoolResult]),
         dataSource: auditData.dataSource,
@@ -185,7 +181,7 @@ export class NeighborhoodEnrichmentOrchestrator {
 
     } catch (error) {
       console.error("Neighborhood enrichment orchestration error:", error);
-      return this.getFallbackEnrichment(locationData);
+      return await this.getFallbackEnrichment(locationData);
     }
   }
 
@@ -195,6 +191,7 @@ export class NeighborhoodEnrichmentOrchestrator {
     noise: number;
     parking: number;
     school?: number;
+    commute?: number;
   }): number {
     // Weighted scoring system based on NYC residential priorities
     const weights = {
@@ -202,7 +199,8 @@ export class NeighborhoodEnrichmentOrchestrator {
       walkability: 0.25,   // Walkability is highly valued
       noise: 0.20,         // Noise impacts quality of life
       parking: 0.15,       // Parking is important but less critical
-      school: 0.15         // School quality (when available)
+      school: 0.15,        // School quality (when available)
+      commute: 0.25        // Commute to the user's destinations (when requested)
     };
 
     let weightedSum = 0;
@@ -230,6 +228,12 @@ export class NeighborhoodEnrichmentOrchestrator {
       totalWeight += weights.school;
     }
 
+    // Include commute score if destinations were requested
+    if (scores.commute !== null && scores.commute !== undefined) {
+      weightedSum += scores.commute * weights.commute;
+      totalWeight += weights.commute;
+    }
+
     // Calculate final weighted average
     const overallScore = Math.round(weightedSum / totalWeight);
     
@@ -262,6 +266,9 @@ export class NeighborhoodEnrichmentOrchestrator {
     if (scores.school && scores.school >= 70) highlights.push("excellent schools");
     else if (scores.school && scores.school < 40) concerns.push("limited school options");
 
+    if (scores.commute !== undefined && scores.commute >= 70) highlights.push("short commute");
+    else if (scores.commute !== undefined && scores.commute < 40) concerns.push("long commute");
+
     let explanation = `${quality} neighborhood livability (${scores.overall}/100)`;
     
     if (highlights.length > 0) {
@@ -332,24 +339,26 @@ export class NeighborhoodEnrichmentOrchestrator {
   }
 
   private getSchoolFallback() {
+    // No zoned or choice schools were scored; without a score the school weight
+    // drops out of the overall score, as commute does without destinations
     return {
-      score: 60,
+      score: undefined,
       explanation: "Unable to calculate school quality",
       dataSource: "Fallback",
-      elementaryScore: 60,
-      middleScore: 60,
-      highScore: 60,
-      compositeRating: 60
+      computed: false,
+      zonedScore: null,
+      bestAccessibleScore: null,
+      levels: [],
+      choiceOptions: []
     };
   }
 
-  private getFallbackEnrichment(locationData: LocationData): EnrichmentResult {
+  private async getFallbackEnrichment(locationData: LocationData): Promise<EnrichmentResult> {
     // Provide basic fallback based on location
     let baseScore = 50;
     
     // Manhattan gets higher base score due to general urban amenities
-    if (locationData.lat >= 40.70 && locationData.lat <= 40.88 && 
-        locationData.lng >= -74.02 && locationData.lng <= -73.93) {
+    if ((await this.geographyService.resolveBorough(locationData.lat, locationData.lng)) === "Manhattan") {
       baseScore = 65;
     }
 
@@ -383,18 +392,18 @@ export class NeighborhoodEnrichmentOrchestrator {
       locations.map(location => this.enrichLocation(location))
     );
 
-    return results.map((result, index) => {
+    return Promise.all(results.map((result, index) => {
       if (result.status === 'fulfilled') {
         return result.value;
       } else {
         console.error(`Failed to enrich location ${index}:`, result.reason);
         return this.getFallbackEnrichment(locations[index]);
       }
-    });
+    }));
   }
 
   // Method to refresh/update existing enrichment data
-  async refreshEnrichment(lat: number, lng: number, address?: string, borough?: string): Promise<EnrichmentResult> {
-    return this.enrichLocation({ lat, lng, address, borough });
+  async refreshEnrichment(lat: number, lng: number, address?: string, borough?: string, commuteDestinations?: CommuteDestination[]): Promise<EnrichmentResult> {
+    return this.enrichLocation({ lat, lng, address, borough, commuteDestinations });
   }
 }
\ No newline at end of file
@@ -0,0 +1,124 @@
+import fs from "fs";
+import { db } from "../db";
+import { noiseComplaints, InsertNoiseComplaint } from "../../shared/schema";
+import { forEachCsvRowInFile } from "../utils/csv";
+
+interface NoiseComplaintLoadResult {
+  filePath: string;
+  rowsRead: number;
+  complaintsLoaded: number;
+  byType: Record<string, number>;
+}
+
+/**
+ * Builds the noise complaint table from a 311 Service Requests CSV export
+ * (NYC Open Data erm2-nwe9). Only "Noise*" complaint types with a location are kept.
+ */
+export class NoiseComplaintLoader {
+  private static instance: NoiseComplaintLoader;
+
+  static getInstance(): NoiseComplaintLoader {
+    if (!NoiseComplaintLoader.instance) {
+      NoiseComplaintLoader.instance = new NoiseComplaintLoader();
+    }
+    return NoiseComplaintLoader.instance;
+  }
+
+  /**
+   * Location of the 311 CSV export on disk
+   */
+  static defaultExportPath(): string {
+    return process.env.NYC_311_NOISE_PATH || "data/311/noise_complaints.csv";
+  }
+
+  /**
+   * Replace the complaint table with the noise complaints in the export. The
+   * export is treated as the full window of interest (e.g. the last 12 months).
+   */
+  async loadFromExport(filePath: string = NoiseComplaintLoader.defaultExportPath()): Promise<NoiseComplaintLoadResult> {
+    console.log(`[NoiseComplaintLoader] Loading 311 noise complaints from ${filePath}`);
+
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`311 export not found at ${filePath}`);
+    }
+
+    const records: InsertNoiseComplaint[] = [];
+    const byType: Record<string, number> = {};
+    let rowsRead = 0;
+
+    // A year of 311 noise complaints runs to hundreds of MB, so stream the rows
+    await forEachCsvRowInFile(filePath, (row) => {
+      rowsRead++;
+      const complaintType = row["Complaint Type"] || "";
+      if (!complaintType.toLowerCase().startsWith("noise")) return;
+
+      const lat = parseFloat(row["Latitude"]);
+      const lng = parseFloat(row["Longitude"]);
+      const created = this.parseCreatedDate(row["Created Date"]);
+      if (!row["Unique Key"] || isNaN(lat) || isNaN(lng) || !created) return;
+
+      records.push({
+        id: row["Unique Key"],
+        complaintType,
+        descriptor: row["Descriptor"] || null,
+        borough: this.normalizeBorough(row["Borough"]),
+        lat,
+        lng,
+        location: { x: lng, y: lat },
+        createdDate: created.date,
+        hourOfDay: created.hour
+      });
+      byType[complaintType] = (byType[complaintType] || 0) + 1;
+    });
+
+    if (records.length === 0) {
+      throw new Error(`${filePath} contains no geocoded noise complaints`);
+    }
+
+    await db.transaction(async (tx) => {
+      await tx.delete(noiseComplaints);
+      for (let i = 0; i < records.length; i += 500) {
+        await tx.insert(noiseComplaints)
+          .values(records.slice(i, i + 500))
+          .onConflictDoNothing();
+      }
+    });
+
+    console.log(`[NoiseComplaintLoader] Loaded ${records.length} noise complaints from ${rowsRead} rows`);
+
+    return { filePath, rowsRead, complaintsLoaded: records.length, byType };
+  }
+
+  /**
+   * Open Data exports use "01/15/2024 11:32:45 PM"; the API uses ISO timestamps.
+   * The wall-clock time is kept as-is (New York local time).
+   */
+  private parseCreatedDate(value: string | undefined): { date: Date; hour: number } | null {
+    if (!value) return null;
+
+    const us = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})\s+(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(AM|PM)?/i);
+    if (us) {
+      let hour = parseInt(us[4], 10);
+      const meridiem = (us[7] || "").toUpperCase();
+      if (meridiem === "PM" && hour < 12) hour += 12;
+      if (meridiem === "AM" && hour === 12) hour = 0;
+      const date = new Date(Date.UTC(+us[3], +us[1] - 1, +us[2], hour, +us[5], +(us[6] || 0)));
+      return { date, hour };
+    }
+
+    const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::(\d{2}))?/);
+    if (iso) {
+      const hour = parseInt(iso[4], 10);
+      const date = new Date(Date.UTC(+iso[1], +iso[2] - 1, +iso[3], hour, +iso[5], +(iso[6] || 0)));
+      return { date, hour };
+    }
+
+    return null;
+  }
+
+  private normalizeBorough(value: string | undefined): string | null {
+    const borough = (value || "").trim().toUpperCase();
+    if (!borough || borough === "UNSPECIFIED") return null;
+    return borough;
+  }
+}
@@ -0,0 +1,167 @@
+import { sql } from "drizzle-orm";
+import { db } from "../db";
+import { noiseComplaints } from "../../shared/schema";
+import { haversineMiles } from "../utils/geo";
+import { NoiseComplaintLoader } from "./noiseComplaintLoader";
+import { GeographyService } from "./geography";
+
+export interface NoiseComplaintDensity {
+  score: number;
+  radiusMiles: number;
+  complaints: number; // Complaints within the radius over the loaded window
+  perSquareMile: number;
+  borough: string | null;
+  boroughPerSquareMile: number | null;
+  ratioToBorough: number | null; // Local density relative to the borough average
+  byType: Record<string, number>; // e.g. { "Residential": 120, "Commercial": 40 }
+  night: number; // 10pm-7am, the noise code's nighttime hours
+  day: number;
+}
+
+const COMPLAINT_RADIUS_MILES = 0.25;
+
+// Land area of each borough in square miles (NYC DCP)
+const BOROUGH_LAND_AREA_SQ_MI: Record<string, number> = {
+  "MANHATTAN": 22.83,
+  "BROOKLYN": 69.38,
+  "QUEENS": 108.53,
+  "BRONX": 42.10,
+  "STATEN ISLAND": 57.48
+};
+
+/**
+ * Density of 311 noise complaints around an address compared with the
+ * borough-wide average, from the locally loaded complaint table
+ */
+export class NoiseComplaintService {
+  private static instance: NoiseComplaintService;
+  private boroughCounts: Map<string, number> | null = null;
+  private boroughCountsLoadedAt = 0;
+  private cacheExpiry: number = 24 * 60 * 60 * 1000; // 24 hours
+
+  static getInstance(): NoiseComplaintService {
+    if (!NoiseComplaintService.instance) {
+      NoiseComplaintService.instance = new NoiseComplaintService();
+    }
+    return NoiseComplaintService.instance;
+  }
+
+  /**
+   * Reload the complaint table from a 311 export on disk
+   */
+  async refresh(filePath?: string) {
+    const result = await NoiseComplaintLoader.getInstance().loadFromExport(filePath);
+    this.boroughCounts = null;
+    return result;
+  }
+
+  /**
+   * Complaint density around a point, or null when no complaints are loaded
+   */
+  async analyze(lat: number, lng: number): Promise<NoiseComplaintDensity | null> {
+    const boroughCounts = await this.ensureBoroughCounts();
+    if (!boroughCounts) {
+      return null;
+    }
+
+    const latDelta = COMPLAINT_RADIUS_MILES / 69;
+    const lngDelta = COMPLAINT_RADIUS_MILES / (69 * Math.cos(lat * Math.PI / 180));
+    const rows = await db.select({
+      complaintType: noiseComplaints.complaintType,
+      lat: noiseComplaints.lat,
+      lng: noiseComplaints.lng,
+      hourOfDay: noiseComplaints.hourOfDay
+    }).from(noiseComplaints).where(
+      sql`${noiseComplaints.location} <@ box(point(${lng - lngDelta}, ${lat - latDelta}), point(${lng + lngDelta}, ${lat + latDelta}))`
+    );
+
+    const nearby = rows.filter(row => haversineMiles(lat, lng, row.lat, row.lng) <= COMPLAINT_RADIUS_MILES);
+
+    const byType: Record<string, number> = {};
+    let night = 0;
+    for (const complaint of nearby) {
+      const type = complaint.complaintType.replace(/^noise\s*-\s*/i, "") || "Other";
+      byType[type] = (byType[type] || 0) + 1;
+      if (complaint.hourOfDay >= 22 || complaint.hourOfDay < 7) night++;
+    }
+
+    // Complaint boroughs are stored in 311's upper-case form
+    const borough = (await GeographyService.getInstance().resolveBorough(lat, lng)).toUpperCase();
+
+    const area = Math.PI * COMPLAINT_RADIUS_MILES * COMPLAINT_RADIUS_MILES;
+    const perSquareMile = nearby.length / area;
+    const boroughPerSquareMile = BOROUGH_LAND_AREA_SQ_MI[borough]
+      ? (boroughCounts.get(borough) || 0) / BOROUGH_LAND_AREA_SQ_MI[borough]
+      : null;
+    const ratioToBorough = boroughPerSquareMile ? perSquareMile / boroughPerSquareMile : null;
+
+    console.log(`[NoiseComplaints] ${nearby.length} complaints within ${COMPLAINT_RADIUS_MILES} miles (${ratioToBorough !== null ? ratioToBorough.toFixed(2) + "x" : "n/a"} the ${borough} average)`);
+
+    return {
+      score: this.calculateScoreFromRatio(nearby.length === 0 ? 0 : ratioToBorough ?? 1),
+      radiusMiles: COMPLAINT_RADIUS_MILES,
+      complaints: nearby.length,
+      perSquareMile: Math.round(perSquareMile),
+      borough,
+      boroughPerSquareMile: boroughPerSquareMile !== null ? Math.round(boroughPerSquareMile) : null,
+      ratioToBorough: ratioToBorough !== null ? Math.round(ratioToBorough * 100) / 100 : null,
+      byType,
+      night,
+      day: nearby.length - night
+    };
+  }
+
+  private calculateScoreFromRatio(ratio: number): number {
+    // Half the borough average or less = 90, average = 75, 2x = 55, 4x = 35, 8x+ = 20
+    if (ratio <= 0.5) return 90;
+    if (ratio >= 8) return 20;
+    const points: Array<[number, number]> = [[0.5, 90], [1, 75], [2, 55], [4, 35], [8, 20]];
+    for (let i = 1; i < points.length; i++) {
+      const [upperRatio, upperScore] = points[i];
+      const [lowerRatio, lowerScore] = points[i - 1];
+      if (ratio <= upperRatio) {
+        // Interpolate on a log scale, since each step doubles the density
+        const progress = Math.log(ratio / lowerRatio) / Math.log(upperRatio / lowerRatio);
+        return Math.round(lowerScore + progress * (upperScore - lowerScore));
+      }
+    }
+    return 20;
+  }
+
+  /**
+   * Complaint totals per borough for the baseline. The table is filled by
+   * `npm run data:noise311`, never from a scoring request.
+   */
+  private async ensureBoroughCounts(): Promise<Map<string, number> | null> {
+    if (this.boroughCounts && Date.now() - this.boroughCountsLoadedAt < this.cacheExpiry) {
+      return this.boroughCounts;
+    }
+
+    try {
+      const totals = await this.countByBorough();
+      if (totals.size === 0) {
+        console.log("[NoiseComplaints] No noise complaints loaded; run `npm run data:noise311` to import the 311 export");
+      }
+
+      this.boroughCounts = totals.size > 0 ? totals : null;
+      this.boroughCountsLoadedAt = Date.now();
+      return this.boroughCounts;
+    } catch (error) {
+      console.log("[NoiseComplaints] Noise complaint data unavailable:", error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  private async countByBorough(): Promise<Map<string, number>> {
+    const rows = await db.select({
+      borough: noiseComplaints.borough,
+      count: sql<number>`count(*)`
+    }).from(noiseComplaints).groupBy(noiseComplaints.borough);
+
+    const totals = new Map<string, number>();
+    for (const row of rows) {
+      if (row.borough) totals.set(row.borough, Number(row.count));
+    }
+    return totals;
+  }
+}
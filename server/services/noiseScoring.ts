@@ -1,3 +1,25 @@
+import { AirportNoiseContourService } from "./airportNoiseContours";
+import { RoadTrafficNoiseService, AdjacentStreet } from "./roadTrafficNoise";
+import { NoiseComplaintService, NoiseComplaintDensity } from "./noiseComplaints";
+import { ConstructionActivityService, ConstructionActivity } from "./constructionActivity";
+import { GeographyService } from "./geography";
+
+interface TrafficNoiseDetails {
+  score: number;
+  method: "road_segments" | "estimate";
+  estimatedDb: number | null; // Combined traffic noise level at the address (dBA)
+  adjacentStreets: AdjacentStreet[]; // Loudest nearby streets with class, distance and volume
+}
+
+interface AirportNoiseDetails {
+  score: number;
+  method: "dnl_contours" | "distance";
+  dnlBand: string | null; // e.g. "65–70 DNL" when the address is inside a contour
+  dnlLevel: number | null;
+  airport: string | null; // Airport whose contour contains the address
+  nearestAirport: { name: string; distanceMiles: number };
+}
+
 interface NoiseScoreResult {
   score: number;
   explanation: string;
@@ -5,6 +27,10 @@ interface NoiseScoreResult {
   trafficLevel: number;
   airportProximity: number;
   constructionRisk: number;
+  trafficNoise?: TrafficNoiseDetails;
+  airportNoise?: AirportNoiseDetails;
+  complaintDensity?: NoiseComplaintDensity; // 311 noise complaints vs. the borough average
+  constructionActivity?: ConstructionActivity; // DOB jobs within 500 ft and their expected finish
 }
 
 interface TrafficData {
@@ -29,61 +55,119 @@ export class NoiseScoringService {
       const scores = await Promise.allSettled([
         this.calculateTrafficNoise(lat, lng),
         this.calculateAirportProximity(lat, lng),
-        this.calculateConstructionRisk(lat, lng)
+        this.calculateConstructionRisk(lat, lng),
+        NoiseComplaintService.getInstance().analyze(lat, lng)
       ]);
 
       // Extract scores or use defaults
-      const trafficScore = scores[0].status === 'fulfilled' ? scores[0].value : 70;
-      const airportScore = scores[1].status === 'fulfilled' ? scores[1].value : 85;
-      const constructionScore = scores[2].status === 'fulfilled' ? scores[2].value : 80;
-
-      // Weighted average: traffic 50%, airport 30%, construction 20%
-      const finalScore = Math.round(
-        (trafficScore * 0.5) + 
-        (airportScore * 0.3) + 
-        (constructionScore * 0.2)
-      );
+      const trafficNoise = scores[0].status === 'fulfilled' ? scores[0].value : null;
+      const trafficScore = trafficNoise ? trafficNoise.score : 70;
+      const airportNoise = scores[1].status === 'fulfilled' ? scores[1].value : null;
+      const airportScore = airportNoise ? airportNoise.score : 85;
+      const construction = scores[2].status === 'fulfilled' ? scores[2].value : null;
+      const constructionScore = construction ? construction.score : 80;
+      const complaintDensity = scores[3].status === 'fulfilled' ? scores[3].value : null;
+
+      // Weighted average: traffic 50%, airport 30%, construction 20%; with 311 data
+      // loaded: traffic 40%, airport 20%, construction 15%, complaints 25%
+      const finalScore = complaintDensity
+        ? Math.round(
+            (trafficScore * 0.4) +
+            (airportScore * 0.2) +
+            (constructionScore * 0.15) +
+            (complaintDensity.score * 0.25)
+          )
+        : Math.round(
+            (trafficScore * 0.5) + 
+            (airportScore * 0.3) + 
+            (constructionScore * 0.2)
+          );
 
       return {
         score: Math.max(0, Math.min(100, finalScore)),
-        explanation: this.generateExplanation(trafficScore, airportScore, constructionScore, finalScore),
-        dataSource: "NYC Open Data + FAA + Traffic Analysis",
+        explanation: this.generateExplanation(trafficScore, airportScore, constructionScore, finalScore, {
+          dnlBand: airportNoise?.dnlBand,
+          loudestStreet: trafficNoise?.adjacentStreets[0]?.street,
+          complaintDensity,
+          constructionActivity: construction?.activity
+        }),
+        dataSource: [
+          "NYC Open Data",
+          airportNoise?.method === "dnl_contours" ? "FAA DNL Contours" : "FAA",
+          trafficNoise?.method === "road_segments" ? "LION + DOT Traffic Counts" : "Traffic Analysis",
+          ...(complaintDensity ? ["311 Noise Complaints"] : []),
+          ...(construction?.activity ? ["DOB Job Filings"] : [])
+        ].join(" + "),
         trafficLevel: 100 - trafficScore, // Invert for display (higher = noisier)
         airportProximity: 100 - airportScore,
-        constructionRisk: 100 - constructionScore
+        constructionRisk: 100 - constructionScore,
+        trafficNoise: trafficNoise || undefined,
+        airportNoise: airportNoise || undefined,
+        complaintDensity: complaintDensity || undefined,
+        constructionActivity: construction?.activity || undefined
       };
 
     } catch (error) {
       console.error("Noise scoring error:", error);
-      return this.getFallbackScore(lat, lng, address);
+      return await this.getFallbackScore(lat, lng, address);
     }
   }
 
-  private async calculateTrafficNoise(lat: number, lng: number): Promise<number> {
+  private async calculateTrafficNoise(lat: number, lng: number): Promise<TrafficNoiseDetails | null> {
     try {
+      // Model the actual adjacent streets when the centerline is available
+      const roadNoise = await RoadTrafficNoiseService.getInstance().estimate(lat, lng);
+      if (roadNoise) {
+        console.log(`[NoiseService] Traffic noise ~${roadNoise.estimatedDb} dBA from ${roadNoise.adjacentStreets.length} streets (${roadNoise.segmentsConsidered} segments)`);
+        return {
+          score: this.calculateScoreFromDb(roadNoise.estimatedDb),
+          method: "road_segments",
+          estimatedDb: roadNoise.estimatedDb,
+          adjacentStreets: roadNoise.adjacentStreets
+        };
+      }
+
       let trafficScore = 85; // Start with good score (low noise)
 
       // Check proximity to major highways and bridges
       const majorRoads = await this.findNearbyMajorRoads(lat, lng);
       trafficScore -= majorRoads.penaltyPoints;
 
-      // Check for busy intersections using NYC traffic volume data
-      const intersectionNoise = await this.analyzeNearbyIntersections(lat, lng);
-      trafficScore -= intersectionNoise;
+      // Busy intersections by neighborhood
+      trafficScore -= await this.estimateIntersectionNoise(lat, lng);
 
       // Manhattan traffic patterns
-      if (this.isInManhattan(lat, lng)) {
+      if (await this.isInManhattan(lat, lng)) {
         trafficScore -= this.getManhattanTrafficPenalty(lat, lng);
       }
 
-      return Math.max(20, Math.min(100, trafficScore));
+      return {
+        score: Math.round(Math.max(20, Math.min(100, trafficScore))),
+        method: "estimate",
+        estimatedDb: null,
+        adjacentStreets: []
+      };
 
     } catch (error) {
       console.error("Traffic noise calculation error:", error);
-      return 70;
+      return null;
     }
   }
 
+  private calculateScoreFromDb(db: number): number {
+    // 50 dBA or less = 95, 55 = 88, 60 = 78, 65 = 65, 70 = 50, 75 = 35, 80+ = 20
+    const points: Array<[number, number]> = [[50, 95], [55, 88], [60, 78], [65, 65], [70, 50], [75, 35], [80, 20]];
+    if (db <= points[0][0]) return points[0][1];
+    for (let i = 1; i < points.length; i++) {
+      const [upperDb, upperScore] = points[i];
+      const [lowerDb, lowerScore] = points[i - 1];
+      if (db <= upperDb) {
+        return Math.round(lowerScore + (db - lowerDb) / (upperDb - lowerDb) * (upperScore - lowerScore));
+      }
+    }
+    return 20;
+  }
+
   private async findNearbyMajorRoads(lat: number, lng: number): Promise<{ penaltyPoints: number }> {
     try {
       // Major NYC highways and bridges with noise impact
@@ -121,41 +205,10 @@ export class NoiseScoringService {
     }
   }
 
-  private async analyzeNearbyIntersections(lat: number, lng: number): Promise<number> {
-    try {
-      // Use NYC traffic volume data to identify busy intersections
-      const radiusMeters = 200; // ~650 feet
-      const query = `$where=within_circle(the_geom, ${lat}, ${lng}, ${radiusMeters})`;
-      const url = `https://data.cityofnewyork.us/resource/7ym2-wayt.json?${query}&$limit=10`;
-
-      const response = await fetch(url);
-      if (!response.ok) {
-        return this.estimateIntersectionNoise(lat, lng);
-      }
-
-      const trafficData = await response.json();
-      let noisePenalty = 0;
-
-      for (const data of trafficData) {
-        // Analyze traffic volume if available
-        const volume = parseInt(data.vol || data.volume || '0');
-        if (volume > 10000) noisePenalty += 15; // Very high volume
-        else if (volume > 5000) noisePenalty += 10; // High volume
-        else if (volume > 2000) noisePenalty += 5; // Moderate volume
-      }
-
-      return Math.min(25, noisePenalty);
-
-    } catch (error) {
-      console.error("Intersection analysis error:", error);
-      return this.estimateIntersectionNoise(lat, lng);
-    }
-  }
-
-  private estimateIntersectionNoise(lat: number, lng: number): number {
+  private async estimateIntersectionNoise(lat: number, lng: number): Promise<number> {
     // Estimate based on location characteristics
     if (this.isInMidtown(lat, lng)) return 20; // Very busy
-    if (this.isInManhattan(lat, lng)) return 15; // Generally busy
+    if (await this.isInManhattan(lat, lng)) return 15; // Generally busy
     if (this.isInDowntownBrooklyn(lat, lng)) return 10; // Moderately busy
     return 5; // Other areas
   }
@@ -168,7 +221,7 @@ export class NoiseScoringService {
     return 8; // Lower Manhattan
   }
 
-  private async calculateAirportProximity(lat: number, lng: number): Promise<number> {
+  private async calculateAirportProximity(lat: number, lng: number): Promise<AirportNoiseDetails | null> {
     try {
       const airports = [
         { name: "LaGuardia", lat: 40.7769, lng: -73.8740, impact: 35 },
@@ -178,9 +231,13 @@ export class NoiseScoringService {
       ];
 
       let airportScore = 100; // Start with no airport noise
+      let nearestAirport = { name: airports[0].name, distanceMiles: Infinity };
 
       for (const airport of airports) {
         const distance = this.calculateDistance(lat, lng, airport.lat, airport.lng);
+        if (distance < nearestAirport.distanceMiles) {
+          nearestAirport = { name: airport.name, distanceMiles: Math.round(distance * 10) / 10 };
+        }
         
         // Airport noise impacts within different radii
         if (distance <= 3) {
@@ -190,67 +247,63 @@ export class NoiseScoringService {
         }
       }
 
-      return Math.max(30, Math.min(100, airportScore));
+      const distanceScore = Math.max(30, Math.min(100, airportScore));
+
+      // Prefer the published DNL contours, which follow the flight paths
+      const contours = AirportNoiseContourService.getInstance();
+      if (await contours.ensureLoaded()) {
+        const contour = await contours.lookup(lat, lng);
+        return {
+          // Outside every contour only a small off-axis penalty remains
+          score: contour ? this.calculateScoreFromDnl(contour.dnl) : Math.round(Math.max(85, distanceScore)),
+          method: "dnl_contours",
+          dnlBand: contour ? contour.band : null,
+          dnlLevel: contour ? contour.dnl : null,
+          airport: contour ? contour.airport : null,
+          nearestAirport
+        };
+      }
+
+      return {
+        score: Math.round(distanceScore),
+        method: "distance",
+        dnlBand: null,
+        dnlLevel: null,
+        airport: null,
+        nearestAirport
+      };
 
     } catch (error) {
       console.error("Airport proximity calculation error:", error);
-      return 85;
+      return null;
     }
   }
 
-  private async calculateConstructionRisk(lat: number, lng: number): Promise<number> {
-    try {
-      // Check NYC Open Data for construction permits and ongoing projects
-      const constructionScore = await this.checkNearbyConstruction(lat, lng);
-      
-      // Also consider development-heavy neighborhoods
-      const developmentRisk = this.assessDevelopmentRisk(lat, lng);
-      
-      return Math.max(40, Math.min(100, constructionScore - developmentRisk));
-
-    } catch (error) {
-      console.error("Construction risk calculation error:", error);
-      return 80;
-    }
+  private calculateScoreFromDnl(dnl: number): number {
+    // 65 DNL is the FAA threshold for significant noise impact on residential use
+    if (dnl >= 75) return 30;
+    if (dnl >= 70) return 45;
+    if (dnl >= 65) return 60;
+    if (dnl >= 60) return 75;
+    if (dnl >= 55) return 85;
+    return 90;
   }
 
-  private async checkNearbyConstruction(lat: number, lng: number): Promise<number> {
+  private async calculateConstructionRisk(lat: number, lng: number): Promise<{ score: number; activity: ConstructionActivity | null } | null> {
     try {
-      const radiusMeters = 300; // ~1000 feet
-      const datasets = [
-        'https://data.cityofnewyork.us/resource/ipu4-2q9a.json', // Construction permits
-        'https://data.cityofnewyork.us/resource/ic3t-wcy2.json'  // Building permits
-      ];
-
-      let constructionCount = 0;
-
-      for (const dataset of datasets) {
-        try {
-          const query = `$where=within_circle(the_geom, ${lat}, ${lng}, ${radiusMeters})`;
-          const response = await fetch(`${dataset}?${query}&$limit=20`);
-          
-          if (response.ok) {
-            const permits = await response.json();
-            constructionCount += permits.length;
-          }
-        } catch (datasetError) {
-          console.log(`Construction data error:`, datasetError);
-          continue;
-        }
+      // DOB filings give the actual jobs nearby and when they should wrap up
+      const activity = await ConstructionActivityService.getInstance().analyze(lat, lng);
+      if (activity) {
+        return { score: activity.score, activity };
       }
 
-      // Score based on construction activity
-      let score = 90; // Start with low construction noise
-      if (constructionCount >= 10) score -= 30;
-      else if (constructionCount >= 5) score -= 20;
-      else if (constructionCount >= 2) score -= 10;
-      else if (constructionCount >= 1) score -= 5;
-
-      return score;
+      // Without DOB data, fall back to development-heavy neighborhoods
+      const developmentRisk = this.assessDevelopmentRisk(lat, lng);
+      return { score: Math.round(Math.max(40, Math.min(100, 85 - developmentRisk))), activity: null };
 
     } catch (error) {
-      console.error("Construction check error:", error);
-      return 80;
+      console.error("Construction risk calculation error:", error);
+      return null;
     }
   }
 
@@ -272,8 +325,8 @@ export class NoiseScoringService {
     return 0;
   }
 
-  private isInManhattan(lat: number, lng: number): boolean {
-    return lat >= 40.70 && lat <= 40.88 && lng >= -74.02 && lng <= -73.93;
+  private async isInManhattan(lat: number, lng: number): Promise<boolean> {
+    return (await GeographyService.getInstance().resolveBorough(lat, lng)) === "Manhattan";
   }
 
   private isInMidtown(lat: number, lng: number): boolean {
@@ -299,7 +352,12 @@ export class NoiseScoringService {
     return degrees * (Math.PI / 180);
   }
 
-  private generateExplanation(traffic: number, airport: number, construction: number, final: number): string {
+  private generateExplanation(traffic: number, airport: number, construction: number, final: number, context: {
+    dnlBand?: string | null;
+    loudestStreet?: string;
+    complaintDensity?: NoiseComplaintDensity | null;
+    constructionActivity?: ConstructionActivity | null;
+  } = {}): string {
     let quality = "poor";
     if (final >= 80) quality = "very quiet";
     else if (final >= 65) quality = "quiet";
@@ -307,21 +365,29 @@ export class NoiseScoringService {
     else if (final >= 35) quality = "noisy";
 
     const factors = [];
-    if (traffic < 60) factors.push("heavy traffic");
-    if (airport < 70) factors.push("airport proximity");
-    if (construction < 70) factors.push("construction activity");
+    if (traffic < 60) factors.push(context.loudestStreet ? `heavy traffic on ${context.loudestStreet}` : "heavy traffic");
+    if (context.dnlBand) factors.push(`airport flight path noise (${context.dnlBand})`);
+    else if (airport < 70) factors.push("airport proximity");
+    const activity = context.constructionActivity;
+    if (construction < 70) {
+      factors.push(activity && activity.expectedQuietBy
+        ? `construction activity (${activity.activeJobs} active, ${activity.upcomingJobs} upcoming jobs; expected to finish by ${activity.expectedQuietBy})`
+        : "construction activity");
+    }
+    const ratio = context.complaintDensity?.ratioToBorough;
+    if (ratio && ratio >= 2) factors.push(`frequent 311 noise complaints (${ratio.toFixed(1)}x the borough average)`);
 
     const factorsText = factors.length > 0 ? ` (affected by ${factors.join(", ")})` : "";
     
     return `${quality} environment (${final}/100)${factorsText}`;
   }
 
-  private getFallbackScore(lat: number, lng: number, address?: string): NoiseScoreResult {
+  private async getFallbackScore(lat: number, lng: number, address?: string): Promise<NoiseScoreResult> {
     // Provide geographic-based fallback
     let score = 60;
     
     if (this.isInMidtown(lat, lng)) score = 35; // Very noisy
-    else if (this.isInManhattan(lat, lng)) score = 50; // Moderately noisy
+    else if (await this.isInManhattan(lat, lng)) score = 50; // Moderately noisy
     else if (this.isInDowntownBrooklyn(lat, lng)) score = 55; // Somewhat noisy
     else score = 70; // Quieter outer areas
 
@@ -0,0 +1,197 @@
+import fs from "fs";
+import { db } from "../db";
+import { padAddresses, InsertPadAddress } from "../../shared/schema";
+import { forEachCsvRowInFile, field } from "../utils/csv";
+import { normalizeStreetName, parseHouseNumber } from "../../shared/address";
+
+interface PadAddressLoadResult {
+  padPath: string;
+  footprintsPath: string;
+  rangesLoaded: number;
+  byBorough: Record<string, number>;
+  positionedByLot: number; // Ranges without a footprint for their BIN, placed at their lot's buildings
+  skippedRows: number; // Rows without a house number range or any footprint for the BIN or lot
+}
+
+// DOB placeholder BINs (1000000, 2000000, ...) stand for "no building assigned"
+const PLACEHOLDER_BIN = /^[1-5]0{6}$/;
+
+/**
+ * Builds the local address index from DCP's Property Address Directory and
+ * the DOITT Building Footprints export (NYC Open Data 5zhs-2jue):
+ *
+ *   bobaadr.txt  boro,block,lot,bin,lhnd,lhns,...,hhnd,hhns,...,stname,...,zipcode
+ *   footprints   the_geom,BIN,BASE_BBL,...   (the_geom as WKT MULTIPOLYGON)
+ *
+ * Each PAD range is positioned at its building's footprint centroid, or at the
+ * mean of its lot's footprints when the BIN has none (placeholder BINs, vacant
+ * lots with addresses). Both files are streamed; the footprint export is too
+ * large to read into memory as one string.
+ */
+export class PadAddressLoader {
+  private static instance: PadAddressLoader;
+
+  static getInstance(): PadAddressLoader {
+    if (!PadAddressLoader.instance) {
+      PadAddressLoader.instance = new PadAddressLoader();
+    }
+    return PadAddressLoader.instance;
+  }
+
+  /**
+   * Location of the PAD address file (bobaadr.txt) on disk
+   */
+  static defaultPadPath(): string {
+    return process.env.PAD_ADDRESS_PATH || "data/geocoding/bobaadr.txt";
+  }
+
+  /**
+   * Location of the building footprints CSV export on disk
+   */
+  static defaultFootprintsPath(): string {
+    return process.env.BUILDING_FOOTPRINTS_PATH || "data/geocoding/building_footprints.csv";
+  }
+
+  /**
+   * Replace the address index with the PAD ranges that can be positioned
+   */
+  async loadFromFiles(
+    padPath: string = PadAddressLoader.defaultPadPath(),
+    footprintsPath: string = PadAddressLoader.defaultFootprintsPath()
+  ): Promise<PadAddressLoadResult> {
+    for (const [label, filePath] of [["PAD address file", padPath], ["Building footprints export", footprintsPath]]) {
+      if (!fs.existsSync(filePath)) {
+        throw new Error(`${label} not found at ${filePath}`);
+      }
+    }
+
+    console.log(`[PadAddressLoader] Reading building footprints from ${footprintsPath}`);
+    const { byBin, byBbl } = await this.readFootprints(footprintsPath);
+    console.log(`[PadAddressLoader] ${byBin.size} footprint centroids across ${byBbl.size} lots`);
+
+    console.log(`[PadAddressLoader] Reading address ranges from ${padPath}`);
+    const records: InsertPadAddress[] = [];
+    const byBorough: Record<string, number> = {};
+    let positionedByLot = 0;
+    let skippedRows = 0;
+
+    await forEachCsvRowInFile(padPath, (row) => {
+      const range = this.fromPadRow(row);
+      if (!range) {
+        skippedRows++;
+        return;
+      }
+
+      let position = range.bin ? byBin.get(range.bin) : undefined;
+      if (!position) {
+        const lot = byBbl.get(range.bbl);
+        if (lot) {
+          position = { lat: lot.latSum / lot.count, lng: lot.lngSum / lot.count };
+          positionedByLot++;
+        }
+      }
+      if (!position) {
+        skippedRows++;
+        return;
+      }
+
+      records.push({ ...range, lat: position.lat, lng: position.lng });
+      byBorough[range.boroughCode] = (byBorough[range.boroughCode] || 0) + 1;
+    });
+
+    if (records.length === 0) {
+      throw new Error(`${padPath} contains no address ranges matching a building footprint`);
+    }
+
+    await db.transaction(async (tx) => {
+      await tx.delete(padAddresses);
+      for (let i = 0; i < records.length; i += 500) {
+        await tx.insert(padAddresses).values(records.slice(i, i + 500));
+      }
+    });
+
+    console.log(`[PadAddressLoader] Loaded ${records.length} address ranges (${positionedByLot} positioned by lot, ${skippedRows} skipped)`);
+
+    return { padPath, footprintsPath, rangesLoaded: records.length, byBorough, positionedByLot, skippedRows };
+  }
+
+  private fromPadRow(row: Record<string, string>): Omit<InsertPadAddress, "lat" | "lng"> | null {
+    const boroughCode = field(row, "boro", "BORO");
+    const block = field(row, "block", "BLOCK");
+    const lot = field(row, "lot", "LOT");
+    const street = normalizeStreetName(field(row, "stname", "STNAME"));
+    const lowHouseNumber = field(row, "lhnd", "LHND");
+    const highHouseNumber = field(row, "hhnd", "HHND") || lowHouseNumber;
+    if (!/^[1-5]$/.test(boroughCode) || !block || !lot || !street || !lowHouseNumber) return null;
+
+    const low = parseHouseNumber(lowHouseNumber);
+    const high = parseHouseNumber(highHouseNumber);
+    if (!low || !high || low.hyphenated !== high.hyphenated) return null;
+
+    const bin = field(row, "bin", "BIN");
+    return {
+      boroughCode,
+      street,
+      lowHouseNumber,
+      highHouseNumber,
+      lowKey: Math.min(low.key, high.key),
+      highKey: Math.max(low.key, high.key),
+      hyphenated: low.hyphenated,
+      bbl: toBbl(boroughCode, block, lot),
+      bin: bin && !PLACEHOLDER_BIN.test(bin) ? bin : null,
+      zipCode: field(row, "zipcode", "ZIPCODE") || null
+    };
+  }
+
+  private async readFootprints(filePath: string) {
+    const byBin = new Map<string, { lat: number; lng: number }>();
+    const byBbl = new Map<string, { latSum: number; lngSum: number; count: number }>();
+
+    await forEachCsvRowInFile(filePath, (row) => {
+      const centroid = wktCentroid(field(row, "the_geom", "THE_GEOM", "geometry"));
+      if (!centroid) return;
+
+      const bin = field(row, "BIN", "bin");
+      if (bin && !PLACEHOLDER_BIN.test(bin)) {
+        byBin.set(bin, centroid);
+      }
+
+      const bbl = field(row, "BASE_BBL", "base_bbl", "MPLUTO_BBL", "mappluto_bbl").replace(/\.0+$/, "");
+      if (/^\d{10}$/.test(bbl)) {
+        const lot = byBbl.get(bbl) || { latSum: 0, lngSum: 0, count: 0 };
+        lot.latSum += centroid.lat;
+        lot.lngSum += centroid.lng;
+        lot.count++;
+        byBbl.set(bbl, lot);
+      }
+    });
+
+    return { byBin, byBbl };
+  }
+}
+
+/**
+ * Mean vertex of a WKT polygon's first ring; close enough to the centroid
+ * for a building footprint
+ */
+function wktCentroid(wkt: string): { lat: number; lng: number } | null {
+  const ring = wkt.match(/\(\(+([^()]+)\)/);
+  if (!ring) return null;
+
+  let latSum = 0, lngSum = 0, count = 0;
+  for (const pair of ring[1].split(",")) {
+    const [lng, lat] = pair.trim().split(/\s+/).map(Number);
+    if (isNaN(lat) || isNaN(lng)) continue;
+    latSum += lat;
+    lngSum += lng;
+    count++;
+  }
+  return count > 0 ? { lat: latSum / count, lng: lngSum / count } : null;
+}
+
+/**
+ * 10-digit borough-block-lot, e.g. 1, 1300, 23 -> "1013000023"
+ */
+function toBbl(boroughCode: string, block: string, lot: string): string {
+  return boroughCode + block.padStart(5, "0") + lot.padStart(4, "0");
+}
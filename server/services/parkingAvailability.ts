@@ -1,3 +1,7 @@
+import { CurbRegulationService, CurbRegulationAnalysis, StreetCleaningSchedule } from "./curbRegulations";
+import { GarageRegistryService, GarageProximity } from "./garageRegistry";
+import { GeographyService } from "./geography";
+
 interface ParkingScoreResult {
   score: number;
   explanation: string;
@@ -5,6 +9,9 @@ interface ParkingScoreResult {
   streetParking: number;
   garageProximity: number;
   parkingRegulations: string;
+  curbRegulations?: CurbRegulationAnalysis; // Block-face breakdown when DOT sign data is loaded
+  streetCleaning?: StreetCleaningSchedule; // Alternate side calendar and weekly move-your-car burden
+  garages?: GarageProximity; // Nearest licensed garages and the cheapest monthly spot in walking distance
 }
 
 interface ParkingRegulation {
@@ -26,38 +33,50 @@ export class ParkingAvailabilityService {
 
   async calculateParkingScore(lat: number, lng: number, address?: string): Promise<ParkingScoreResult> {
     try {
+      // Block-face regulations replace the street and zone estimates when DOT sign data is loaded
+      const curb = await this.analyzeCurbRegulations(lat, lng);
+
       // Calculate multiple parking factors
       const scores = await Promise.allSettled([
-        this.calculateStreetParkingScore(lat, lng),
-        this.calculateGarageProximityScore(lat, lng),
-        this.analyzeParkingRegulations(lat, lng, address)
+        curb ? Promise.resolve(curb.score) : this.calculateStreetParkingScore(lat, lng),
+        this.analyzeGarageProximity(lat, lng),
+        curb
+          ? Promise.resolve({ score: curb.score, regulations: this.describeCurbRegulations(curb) })
+          : this.analyzeParkingRegulations(lat, lng, address)
       ]);
 
       // Extract scores or use defaults
       const streetScore = scores[0].status === 'fulfilled' ? scores[0].value : 40;
-      const garageScore = scores[1].status === 'fulfilled' ? scores[1].value : 50;
+      const garageProximity = scores[1].status === 'fulfilled' ? scores[1].value : null;
+      const garageScore = garageProximity ? garageProximity.score : await this.estimateGarageAvailability(lat, lng);
       const regulationsInfo = scores[2].status === 'fulfilled' ? scores[2].value : 
         { score: 50, regulations: "Standard NYC regulations" };
 
-      // Weighted average: street 40%, garage 35%, regulations 25%
-      const finalScore = Math.round(
-        (streetScore * 0.4) + 
-        (garageScore * 0.35) + 
-        (regulationsInfo.score * 0.25)
-      );
+      // Weighted average: curb-hours 65%, garage 35% with block-face data;
+      // otherwise street 40%, garage 35%, regulations 25%
+      const finalScore = curb
+        ? Math.round((curb.score * 0.65) + (garageScore * 0.35))
+        : Math.round(
+          (streetScore * 0.4) + 
+          (garageScore * 0.35) + 
+          (regulationsInfo.score * 0.25)
+        );
 
       return {
         score: Math.max(0, Math.min(100, finalScore)),
-        explanation: this.generateExplanation(streetScore, garageScore, regulationsInfo.score, finalScore),
-        dataSource: "NYC Open Data + ParkWhiz + SpotHero APIs",
+        explanation: this.generateExplanation(streetScore, garageScore, regulationsInfo.score, finalScore, curb, garageProximity),
+        dataSource: this.describeDataSources(curb, garageProximity),
         streetParking: streetScore,
         garageProximity: garageScore,
-        parkingRegulations: regulationsInfo.regulations
+        parkingRegulations: regulationsInfo.regulations,
+        ...(curb && { curbRegulations: curb }),
+        ...(curb?.streetCleaning && { streetCleaning: curb.streetCleaning }),
+        ...(garageProximity && { garages: garageProximity })
       };
 
     } catch (error) {
       console.error("Parking scoring error:", error);
-      return this.getFallbackScore(lat, lng, address);
+      return await this.getFallbackScore(lat, lng, address);
     }
   }
 
@@ -70,7 +89,7 @@ export class ParkingAvailabilityService {
       const regulationSeverity = await this.analyzeStreetRegulations(lat, lng);
       
       // Manhattan has generally less available street parking
-      if (this.isInManhattan(lat, lng)) {
+      if (await this.isInManhattan(lat, lng)) {
         streetScore -= this.getManhattanParkingPenalty(lat, lng);
       } else {
         streetScore += 10; // Outer boroughs generally better
@@ -99,7 +118,7 @@ export class ParkingAvailabilityService {
 
       const response = await fetch(url);
       if (!response.ok) {
-        return this.estimateMeterDensity(lat, lng);
+        return await this.estimateMeterDensity(lat, lng);
       }
 
       const meters = await response.json();
@@ -114,15 +133,15 @@ export class ParkingAvailabilityService {
 
     } catch (error) {
       console.error("Parking meter analysis error:", error);
-      return this.estimateMeterDensity(lat, lng);
+      return await this.estimateMeterDensity(lat, lng);
     }
   }
 
-  private estimateMeterDensity(lat: number, lng: number): number {
+  private async estimateMeterDensity(lat: number, lng: number): Promise<number> {
     // Estimate meter density based on location
     if (this.isInMidtown(lat, lng)) return 25; // Very high
     if (this.isInLowerManhattan(lat, lng)) return 20; // High
-    if (this.isInManhattan(lat, lng)) return 15; // Moderate-high
+    if (await this.isInManhattan(lat, lng)) return 15; // Moderate-high
     if (this.isInDowntownBrooklyn(lat, lng)) return 10; // Moderate
     return 5; // Lower in outer areas
   }
@@ -131,7 +150,7 @@ export class ParkingAvailabilityService {
     try {
       // Analyze street cleaning and parking regulation signs
       const regulationPenalty = await this.checkParkingRegulations(lat, lng);
-      const streetCleaningPenalty = this.estimateStreetCleaningImpact(lat, lng);
+      const streetCleaningPenalty = await this.estimateStreetCleaningImpact(lat, lng);
       
       return Math.min(20, regulationPenalty + streetCleaningPenalty);
 
@@ -175,9 +194,9 @@ export class ParkingAvailabilityService {
     }
   }
 
-  private estimateStreetCleaningImpact(lat: number, lng: number): number {
+  private async estimateStreetCleaningImpact(lat: number, lng: number): Promise<number> {
     // NYC has extensive street cleaning programs
-    if (this.isInManhattan(lat, lng)) return 8; // Frequent cleaning
+    if (await this.isInManhattan(lat, lng)) return 8; // Frequent cleaning
     if (this.isInDowntownBrooklyn(lat, lng)) return 6; // Regular cleaning
     return 4; // Less frequent in outer areas
   }
@@ -189,134 +208,48 @@ export class ParkingAvailabilityService {
     return 20; // General Manhattan difficulty
   }
 
-  private async calculateGarageProximityScore(lat: number, lng: number): Promise<number> {
+  private async analyzeGarageProximity(lat: number, lng: number): Promise<GarageProximity | null> {
     try {
-      // Find nearby parking garages and lots
-      const nearbyGarages = await this.findNearbyParkingFacilities(lat, lng);
-      const garageCount = nearbyGarages.count;
-      const averageDistance = nearbyGarages.averageDistance;
-      const averageCost = nearbyGarages.averageCost;
-
-      let garageScore = 30; // Base score
-
-      // Score based on number of nearby facilities
-      if (garageCount >= 10) garageScore += 30;
-      else if (garageCount >= 5) garageScore += 20;
-      else if (garageCount >= 2) garageScore += 15;
-      else if (garageCount >= 1) garageScore += 10;
-
-      // Adjust for distance (closer is better)
-      if (averageDistance <= 0.1) garageScore += 15; // Very close
-      else if (averageDistance <= 0.25) garageScore += 10; // Close
-      else if (averageDistance <= 0.5) garageScore += 5; // Moderate distance
-
-      // Adjust for cost (lower is better)
-      if (averageCost <= 15) garageScore += 10; // Reasonable
-      else if (averageCost <= 25) garageScore += 5; // Moderate
-      // No bonus for expensive parking
-
-      return Math.min(100, garageScore);
-
+      return await GarageRegistryService.getInstance().analyze(lat, lng);
     } catch (error) {
       console.error("Garage proximity calculation error:", error);
-      return this.estimateGarageAvailability(lat, lng);
+      return null;
     }
   }
 
-  private async findNearbyParkingFacilities(lat: number, lng: number): Promise<{
-    count: number;
-    averageDistance: number;
-    averageCost: number;
-  }> {
-    try {
-      // Use NYC Open Data for parking facilities
-      const radiusMeters = 500; // ~0.3 miles
-      const datasets = [
-        'https://data.cityofnewyork.us/resource/uupn-dn92.json', // Parking facilities
-        'https://data.cityofnewyork.us/resource/tvpp-9vvx.json'  // Off-street parking
-      ];
-
-      let facilities: any[] = [];
-
-      for (const dataset of datasets) {
-        try {
-          const query = `$where=within_circle(the_geom, ${lat}, ${lng}, ${radiusMeters})`;
-          const response = await fetch(`${dataset}?${query}&$limit=20`);
-          
-          if (response.ok) {
-            const data = await response.json();
-            facilities.push(...data);
-          }
-        } catch (datasetError) {
-          continue;
-        }
-      }
-
-      if (facilities.length === 0) {
-        return { count: 0, averageDistance: 1.0, averageCost: 30 };
-      }
-
-      // Calculate average distance and cost
-      let totalDistance = 0;
-      let totalCost = 0;
-      let validCostCount = 0;
-
-      for (const facility of facilities) {
-        // Calculate distance
-        const facilityLat = parseFloat(facility.latitude || facility.lat || '0');
-        const facilityLng = parseFloat(facility.longitude || facility.lng || '0');
-        
-        if (facilityLat && facilityLng) {
-          const distance = this.calculateDistance(lat, lng, facilityLat, facilityLng);
-          totalDistance += distance;
-        }
-
-        // Extract cost if available
-        const cost = this.extractParkingCost(facility);
-        if (cost > 0) {
-          totalCost += cost;
-          validCostCount++;
-        }
-      }
-
-      return {
-        count: facilities.length,
-        averageDistance: totalDistance / facilities.length,
-        averageCost: validCostCount > 0 ? totalCost / validCostCount : 25 // Default cost
-      };
+  /**
+   * Area estimate used when the garage registry is not loaded
+   */
+  private async estimateGarageAvailability(lat: number, lng: number): Promise<number> {
+    // Estimate based on area characteristics
+    if (this.isInMidtown(lat, lng)) return 70; // Many garages but expensive
+    if (this.isInLowerManhattan(lat, lng)) return 60; // Good availability
+    if (await this.isInManhattan(lat, lng)) return 50; // Moderate
+    if (this.isInDowntownBrooklyn(lat, lng)) return 45; // Limited
+    return 30; // Fewer options in outer areas
+  }
 
+  private async analyzeCurbRegulations(lat: number, lng: number): Promise<CurbRegulationAnalysis | null> {
+    try {
+      return await CurbRegulationService.getInstance().analyze(lat, lng);
     } catch (error) {
-      console.error("Parking facilities search error:", error);
-      return { count: 0, averageDistance: 1.0, averageCost: 30 };
+      console.error("Curb regulation analysis error:", error);
+      return null;
     }
   }
 
-  private extractParkingCost(facility: any): number {
-    // Try to extract cost from various fields
-    const costFields = ['rate', 'daily_rate', 'hourly_rate', 'cost', 'price'];
-    
-    for (const field of costFields) {
-      if (facility[field]) {
-        const costStr = facility[field].toString();
-        const cost = parseFloat(costStr.replace(/[^0-9.]/g, ''));
-        if (!isNaN(cost) && cost > 0) {
-          return cost;
-        }
-      }
+  private describeCurbRegulations(curb: CurbRegulationAnalysis): string {
+    let text = `${curb.overnightAvailability}% of nearby curb open to residents overnight, ${curb.weekendAvailability}% on weekend days (${curb.blockFaces} block faces)`;
+    const cleaned = curb.streets.find(street => street.streetCleaning.length > 0);
+    if (cleaned) {
+      text += `; street cleaning on ${cleaned.street}: ${cleaned.streetCleaning.join(", ")}`;
     }
-    
-    return 0;
-  }
-
-  private estimateGarageAvailability(lat: number, lng: number): number {
-    // Estimate based on area characteristics
-    if (this.isInMidtown(lat, lng)) return 70; // Many garages but expensive
-    if (this.isInLowerManhattan(lat, lng)) return 60; // Good availability
-    if (this.isInManhattan(lat, lng)) return 50; // Moderate
-    if (this.isInDowntownBrooklyn(lat, lng)) return 45; // Limited
-    return 30; // Fewer options in outer areas
+    return text;
   }
 
+  /**
+   * Zone estimate from rough bounding boxes, used when no DOT sign data is loaded
+   */
   private async analyzeParkingRegulations(lat: number, lng: number, address?: string): Promise<{
     score: number;
     regulations: string;
@@ -326,7 +259,7 @@ export class ParkingAvailabilityService {
       let regulationsText = "Standard NYC parking regulations";
 
       // Check specific regulation zones
-      const zoneType = this.determineRegulationZone(lat, lng);
+      const zoneType = await this.determineRegulationZone(lat, lng);
       
       switch (zoneType) {
         case 'commercial':
@@ -355,9 +288,9 @@ export class ParkingAvailabilityService {
     }
   }
 
-  private determineRegulationZone(lat: number, lng: number): string {
+  private async determineRegulationZone(lat: number, lng: number): Promise<string> {
     if (this.isInMidtown(lat, lng)) return 'midtown';
-    if (this.isInManhattan(lat, lng)) {
+    if (await this.isInManhattan(lat, lng)) {
       // Check if in commercial corridors
       if (this.isNearCommercialCorridor(lat, lng)) return 'commercial';
       return 'mixed';
@@ -378,8 +311,8 @@ export class ParkingAvailabilityService {
     );
   }
 
-  private isInManhattan(lat: number, lng: number): boolean {
-    return lat >= 40.70 && lat <= 40.88 && lng >= -74.02 && lng <= -73.93;
+  private async isInManhattan(lat: number, lng: number): Promise<boolean> {
+    return (await GeographyService.getInstance().resolveBorough(lat, lng)) === "Manhattan";
   }
 
   private isInMidtown(lat: number, lng: number): boolean {
@@ -409,7 +342,22 @@ export class ParkingAvailabilityService {
     return degrees * (Math.PI / 180);
   }
 
-  private generateExplanation(street: number, garage: number, regulations: number, final: number): string {
+  private describeDataSources(curb: CurbRegulationAnalysis | null, garages: GarageProximity | null): string {
+    const sources = [];
+    if (curb) sources.push("DOT Parking Regulation Signs");
+    if (garages) sources.push("DCWP Licensed Garages");
+    if (!curb) sources.push("NYC Open Data");
+    return sources.join(" + ");
+  }
+
+  private generateExplanation(
+    street: number,
+    garage: number,
+    regulations: number,
+    final: number,
+    curb?: CurbRegulationAnalysis | null,
+    garages?: GarageProximity | null
+  ): string {
     let quality = "poor";
     if (final >= 75) quality = "excellent";
     else if (final >= 60) quality = "good";
@@ -417,16 +365,25 @@ export class ParkingAvailabilityService {
     else if (final >= 30) quality = "difficult";
 
     const factors = [];
-    if (street >= 60) factors.push("available street parking");
+    if (curb) factors.push(`${curb.overnightAvailability}% of nearby curb legal overnight`);
+    else if (street >= 60) factors.push("available street parking");
     else factors.push("limited street parking");
+
+    if (curb?.streetCleaning && curb.streetCleaning.movesPerWeek > 0) {
+      factors.push(`about ${curb.streetCleaning.weeklyMoveBurdenHours} hours a week moving the car for street cleaning`);
+    }
     
     if (garage >= 60) factors.push("nearby garages");
     else factors.push("few parking facilities");
 
+    if (garages?.cheapestMonthly) {
+      factors.push(`monthly garage parking from $${garages.cheapestMonthly.monthlyRate} (${garages.cheapestMonthly.name}, ${garages.cheapestMonthly.walkMinutes} min walk)`);
+    }
+
     return `${quality} parking availability (${final}/100): ${factors.join(", ")}`;
   }
 
-  private getFallbackScore(lat: number, lng: number, address?: string): ParkingScoreResult {
+  private async getFallbackScore(lat: number, lng: number, address?: string): Promise<ParkingScoreResult> {
     // Provide geographic-based fallback
     let score = 50;
     let regulations = "Standard NYC parking regulations";
@@ -434,7 +391,7 @@ export class ParkingAvailabilityService {
     if (this.isInMidtown(lat, lng)) {
       score = 20;
       regulations = "Midtown: Heavy restrictions, expensive parking";
-    } else if (this.isInManhattan(lat, lng)) {
+    } else if (await this.isInManhattan(lat, lng)) {
       score = 35;
       regulations = "Manhattan: Limited parking, metered streets";
     } else if (this.isInDowntownBrooklyn(lat, lng)) {
@@ -0,0 +1,169 @@
+import fs from "fs";
+import { db } from "../db";
+import { parkingBlockFaces, InsertParkingBlockFace } from "../../shared/schema";
+import { forEachCsvRowInFile, field } from "../utils/csv";
+import { nyStatePlaneToWgs84, isProjectedCoordinate } from "../utils/projection";
+import { parseParkingSign, SignedRule } from "../utils/parkingSigns";
+
+interface ParkingSignLoadResult {
+  filePath: string;
+  rowsRead: number;
+  signsParsed: number;
+  blockFacesLoaded: number;
+}
+
+interface BlockFaceAccumulator {
+  borough: string | null;
+  onStreet: string;
+  fromStreet: string | null;
+  toStreet: string | null;
+  sideOfStreet: string | null;
+  rules: Map<string, SignedRule>; // Keyed by normalized sign text
+  signCount: number;
+  latSum: number;
+  lngSum: number;
+  located: number;
+}
+
+/**
+ * Builds the block-face parking regulation table from DOT's "Parking
+ * Regulation Locations and Signs" CSV export (NYC Open Data nfid-uabd). Each
+ * DOT order number covers one side of one block; its signs are parsed into
+ * structured rules and stored together.
+ */
+export class ParkingSignLoader {
+  private static instance: ParkingSignLoader;
+
+  static getInstance(): ParkingSignLoader {
+    if (!ParkingSignLoader.instance) {
+      ParkingSignLoader.instance = new ParkingSignLoader();
+    }
+    return ParkingSignLoader.instance;
+  }
+
+  /**
+   * Location of the DOT sign CSV export on disk
+   */
+  static defaultExportPath(): string {
+    return process.env.DOT_PARKING_SIGNS_PATH || "data/dot/parking_regulation_signs.csv";
+  }
+
+  /**
+   * Replace the block-face table with the regulations in the export
+   */
+  async loadFromExport(filePath: string = ParkingSignLoader.defaultExportPath()): Promise<ParkingSignLoadResult> {
+    console.log(`[ParkingSignLoader] Loading DOT parking signs from ${filePath}`);
+
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`DOT parking sign export not found at ${filePath}`);
+    }
+
+    const faces = new Map<string, BlockFaceAccumulator>();
+    let rowsRead = 0;
+    let signsParsed = 0;
+
+    // The citywide sign export runs to several hundred MB, so it is streamed
+    await forEachCsvRowInFile(filePath, (row) => {
+      rowsRead++;
+      const orderNumber = field(row, "order_number", "Order Number", "SRP_Order");
+      const onStreet = field(row, "on_street", "On Street", "Main_St");
+      if (!orderNumber || !onStreet) return;
+
+      // Voided sign designs and removed signs no longer regulate the curb
+      if (field(row, "sign_design_voided_on_date", "Sign Design Voided On Date")) return;
+      if (/REMOVED|VOID/i.test(field(row, "record_type", "Record Type"))) return;
+
+      const rule = parseParkingSign(field(row, "sign_description", "Sign Description", "SignDesc1"));
+      if (!rule) return;
+      signsParsed++;
+
+      let face = faces.get(orderNumber);
+      if (!face) {
+        face = {
+          borough: field(row, "borough", "Borough").toUpperCase() || null,
+          onStreet: normalizeStreet(onStreet),
+          fromStreet: normalizeStreet(field(row, "from_street", "From Street", "From_St")) || null,
+          toStreet: normalizeStreet(field(row, "to_street", "To Street", "To_St")) || null,
+          sideOfStreet: field(row, "side_of_street", "Side Of Street", "SOS").toUpperCase() || null,
+          rules: new Map(),
+          signCount: 0,
+          latSum: 0,
+          lngSum: 0,
+          located: 0
+        };
+        faces.set(orderNumber, face);
+      }
+
+      const existing = face.rules.get(rule.text);
+      if (existing) {
+        existing.signCount++;
+      } else {
+        face.rules.set(rule.text, { rule, signCount: 1 });
+      }
+      face.signCount++;
+
+      const position = this.parsePosition(row);
+      if (position) {
+        face.latSum += position.lat;
+        face.lngSum += position.lng;
+        face.located++;
+      }
+    });
+
+    const records: InsertParkingBlockFace[] = [];
+    for (const [orderNumber, face] of Array.from(faces.entries())) {
+      if (face.located === 0) continue;
+      const lat = face.latSum / face.located;
+      const lng = face.lngSum / face.located;
+
+      records.push({
+        id: orderNumber,
+        borough: face.borough,
+        onStreet: face.onStreet,
+        fromStreet: face.fromStreet,
+        toStreet: face.toStreet,
+        sideOfStreet: face.sideOfStreet,
+        regulations: JSON.stringify(Array.from(face.rules.values())),
+        signCount: face.signCount,
+        lat,
+        lng,
+        location: { x: lng, y: lat }
+      });
+    }
+
+    if (records.length === 0) {
+      throw new Error(`${filePath} contains no located parking regulation signs`);
+    }
+
+    await db.transaction(async (tx) => {
+      await tx.delete(parkingBlockFaces);
+      for (let i = 0; i < records.length; i += 500) {
+        await tx.insert(parkingBlockFaces).values(records.slice(i, i + 500));
+      }
+    });
+
+    console.log(`[ParkingSignLoader] Loaded ${records.length} block faces from ${signsParsed} regulation signs (${rowsRead} rows)`);
+
+    return { filePath, rowsRead, signsParsed, blockFacesLoaded: records.length };
+  }
+
+  /**
+   * DOT publishes sign positions in State Plane feet; some exports add lat/lng columns
+   */
+  private parsePosition(row: Record<string, string>): { lat: number; lng: number } | null {
+    const lat = parseFloat(field(row, "latitude", "Latitude"));
+    const lng = parseFloat(field(row, "longitude", "Longitude"));
+    if (!isNaN(lat) && !isNaN(lng) && lat !== 0 && lng !== 0) {
+      return { lat, lng };
+    }
+
+    const x = parseFloat(field(row, "sign_x_coord", "Sign X Coord", "SG_X_Cord"));
+    const y = parseFloat(field(row, "sign_y_coord", "Sign Y Coord", "SG_Y_Cord"));
+    if (isNaN(x) || isNaN(y) || !isProjectedCoordinate(x, y)) return null;
+    return nyStatePlaneToWgs84(x, y);
+  }
+}
+
+function normalizeStreet(value: string): string {
+  return value.trim().replace(/\s+/g, " ").toUpperCase();
+}
@@ -0,0 +1,381 @@
+import fs from "fs";
+import { readGeoFeatures, GeoJsonFeature, Position } from "../utils/geoFiles";
+import { forEachCsvRowInFile } from "../utils/csv";
+import { FEET_PER_MILE } from "../utils/geo";
+import { nyStatePlaneToWgs84, isProjectedCoordinate } from "../utils/projection";
+
+export type RoadClass = "highway" | "bridge" | "ramp" | "arterial" | "collector" | "local";
+
+export interface AdjacentStreet {
+  street: string;
+  roadClass: RoadClass;
+  distanceFeet: number;
+  dailyVolume: number;
+  volumeSource: "atvc" | "estimated";
+  noiseDb: number; // Estimated level at the address from this street
+}
+
+export interface RoadNoiseEstimate {
+  estimatedDb: number; // Combined traffic noise level (dBA) at the address
+  adjacentStreets: AdjacentStreet[]; // Loudest contributors first
+  segmentsConsidered: number;
+}
+
+interface RoadSegment {
+  street: string;
+  roadClass: RoadClass;
+  dailyVolume: number;
+  volumeSource: "atvc" | "estimated";
+  lats: number[];
+  lngs: number[];
+}
+
+// Typical daily volumes when a segment has no DOT count
+const DEFAULT_DAILY_VOLUME: Record<RoadClass, number> = {
+  highway: 90000,
+  bridge: 60000,
+  ramp: 15000,
+  arterial: 20000,
+  collector: 8000,
+  local: 2000
+};
+
+// Extra dB for the speed and truck mix of each class
+const CLASS_ADJUSTMENT_DB: Record<RoadClass, number> = {
+  highway: 4,
+  bridge: 3,
+  ramp: 2,
+  arterial: 1,
+  collector: 0,
+  local: 0
+};
+
+// Level at 50 ft from the centerline = 10·log10(hourly volume) + this constant
+const REFERENCE_LEVEL_DB = 35;
+const REFERENCE_DISTANCE_FEET = 50;
+// 4.5 dB per doubling of distance (line source over urban ground)
+const ATTENUATION_PER_DECADE_DB = 15;
+// Buildings rarely sit closer than this to a street centerline
+const MIN_DISTANCE_FEET = 25;
+
+const SEARCH_RADIUS_FEET = 800;
+const GRID_CELL_DEGREES = 0.002;
+const FEET_PER_DEGREE_LAT = 69.0 * FEET_PER_MILE;
+
+// LION roadway types with no surface traffic: tunnel, boardwalk, path, step street, non-physical, ferry
+const LION_EXCLUDED_RW_TYPES = new Set([4, 5, 6, 7, 12, 14]);
+// LION feature types: railroad, shoreline, census block boundary, paper street, boundaries, ferry
+const LION_EXCLUDED_FEATURE_TYPES = new Set(["1", "2", "3", "5", "7", "9", "F"]);
+
+// OSM highway values mapped onto the same classes
+const OSM_ROAD_CLASSES: Record<string, RoadClass> = {
+  motorway: "highway", trunk: "highway",
+  motorway_link: "ramp", trunk_link: "ramp", primary_link: "ramp",
+  primary: "arterial", secondary: "arterial",
+  tertiary: "collector", secondary_link: "collector", tertiary_link: "collector",
+  residential: "local", unclassified: "local", living_street: "local", service: "local"
+};
+
+/**
+ * Traffic noise from the street segments around an address. Segments come from
+ * the LION street centerline (road class, lanes) and volumes from the DOT
+ * Automated Traffic Volume Counts, both stored on disk. Each nearby street
+ * contributes a level based on its volume and class, attenuated with distance,
+ * and the contributions are summed energetically.
+ */
+export class RoadTrafficNoiseService {
+  private static instance: RoadTrafficNoiseService;
+  private segments: RoadSegment[] = [];
+  private grid: Map<string, number[]> = new Map();
+  private loading: Promise<boolean> | null = null;
+
+  static getInstance(): RoadTrafficNoiseService {
+    if (!RoadTrafficNoiseService.instance) {
+      RoadTrafficNoiseService.instance = new RoadTrafficNoiseService();
+    }
+    return RoadTrafficNoiseService.instance;
+  }
+
+  /**
+   * Location of the LION centerline (GeoJSON or shapefile, WGS84 or EPSG:2263)
+   */
+  static defaultCenterlinePath(): string {
+    return process.env.LION_CENTERLINE_PATH || "data/streets/lion.geojson";
+  }
+
+  /**
+   * Location of the Automated Traffic Volume Counts CSV export. Optional: segments
+   * without counts use a typical volume for their road class.
+   */
+  static defaultTrafficCountsPath(): string {
+    return process.env.TRAFFIC_COUNTS_PATH || "data/traffic/automated_traffic_volume_counts.csv";
+  }
+
+  /**
+   * Load the road segments once. Resolves to false when no centerline is available.
+   */
+  async ensureLoaded(): Promise<boolean> {
+    if (!this.loading) {
+      this.loading = this.loadSegments(RoadTrafficNoiseService.defaultCenterlinePath(), RoadTrafficNoiseService.defaultTrafficCountsPath());
+    }
+    return this.loading;
+  }
+
+  /**
+   * Replace the loaded segments with a different centerline / count export
+   */
+  async reload(
+    centerlinePath: string = RoadTrafficNoiseService.defaultCenterlinePath(),
+    countsPath: string = RoadTrafficNoiseService.defaultTrafficCountsPath()
+  ): Promise<boolean> {
+    this.loading = this.loadSegments(centerlinePath, countsPath);
+    return this.loading;
+  }
+
+  /**
+   * Estimated traffic noise at a point, or null when no centerline is loaded
+   */
+  async estimate(lat: number, lng: number): Promise<RoadNoiseEstimate | null> {
+    if (!(await this.ensureLoaded())) {
+      return null;
+    }
+
+    const feetPerDegreeLng = FEET_PER_DEGREE_LAT * Math.cos(lat * Math.PI / 180);
+    const cellsLat = Math.ceil(SEARCH_RADIUS_FEET / FEET_PER_DEGREE_LAT / GRID_CELL_DEGREES);
+    const cellsLng = Math.ceil(SEARCH_RADIUS_FEET / feetPerDegreeLng / GRID_CELL_DEGREES);
+    const row = Math.floor(lat / GRID_CELL_DEGREES);
+    const col = Math.floor(lng / GRID_CELL_DEGREES);
+
+    const candidates = new Set<number>();
+    for (let dRow = -cellsLat; dRow <= cellsLat; dRow++) {
+      for (let dCol = -cellsLng; dCol <= cellsLng; dCol++) {
+        const bucket = this.grid.get(this.cellKey(row + dRow, col + dCol));
+        if (bucket) bucket.forEach(index => candidates.add(index));
+      }
+    }
+
+    // A street is split into one segment per block; only its closest segment counts
+    const loudestByStreet = new Map<string, AdjacentStreet>();
+    let segmentsConsidered = 0;
+
+    candidates.forEach(index => {
+      const segment = this.segments[index];
+      const distanceFeet = this.distanceToSegmentFeet(lat, lng, segment, feetPerDegreeLng);
+      if (distanceFeet > SEARCH_RADIUS_FEET) return;
+      segmentsConsidered++;
+
+      const noiseDb = this.levelAt(segment, distanceFeet);
+      const key = `${segment.street}|${segment.roadClass}`;
+      const existing = loudestByStreet.get(key);
+      if (!existing || noiseDb > existing.noiseDb) {
+        loudestByStreet.set(key, {
+          street: segment.street,
+          roadClass: segment.roadClass,
+          distanceFeet: Math.round(distanceFeet),
+          dailyVolume: Math.round(segment.dailyVolume),
+          volumeSource: segment.volumeSource,
+          noiseDb: Math.round(noiseDb * 10) / 10
+        });
+      }
+    });
+
+    const streets = Array.from(loudestByStreet.values()).sort((a, b) => b.noiseDb - a.noiseDb);
+    const energy = streets.reduce((sum, street) => sum + Math.pow(10, street.noiseDb / 10), 0);
+
+    return {
+      estimatedDb: energy > 0 ? Math.round(10 * Math.log10(energy) * 10) / 10 : 0,
+      adjacentStreets: streets.slice(0, 5),
+      segmentsConsidered
+    };
+  }
+
+  private levelAt(segment: RoadSegment, distanceFeet: number): number {
+    const hourlyVolume = Math.max(1, segment.dailyVolume / 24);
+    const referenceLevel = 10 * Math.log10(hourlyVolume) + REFERENCE_LEVEL_DB + CLASS_ADJUSTMENT_DB[segment.roadClass];
+    const distance = Math.max(MIN_DISTANCE_FEET, distanceFeet);
+    return referenceLevel - ATTENUATION_PER_DECADE_DB * Math.log10(distance / REFERENCE_DISTANCE_FEET);
+  }
+
+  private distanceToSegmentFeet(lat: number, lng: number, segment: RoadSegment, feetPerDegreeLng: number): number {
+    let best = Infinity;
+    for (let i = 1; i < segment.lats.length; i++) {
+      // Local planar coordinates in feet, relative to the address
+      const ax = (segment.lngs[i - 1] - lng) * feetPerDegreeLng;
+      const ay = (segment.lats[i - 1] - lat) * FEET_PER_DEGREE_LAT;
+      const bx = (segment.lngs[i] - lng) * feetPerDegreeLng;
+      const by = (segment.lats[i] - lat) * FEET_PER_DEGREE_LAT;
+
+      const dx = bx - ax;
+      const dy = by - ay;
+      const lengthSquared = dx * dx + dy * dy;
+      const t = lengthSquared > 0 ? Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared)) : 0;
+      const px = ax + t * dx;
+      const py = ay + t * dy;
+      best = Math.min(best, Math.sqrt(px * px + py * py));
+    }
+    return best;
+  }
+
+  private async loadSegments(centerlinePath: string, countsPath: string): Promise<boolean> {
+    try {
+      if (!fs.existsSync(centerlinePath)) {
+        console.log(`[RoadTrafficNoise] No street centerline at ${centerlinePath}, using traffic noise estimates`);
+        return false;
+      }
+
+      const startTime = Date.now();
+      const volumes = fs.existsSync(countsPath) ? await this.readTrafficCounts(countsPath) : new Map<string, number>();
+      const features = await readGeoFeatures(centerlinePath);
+
+      this.segments = [];
+      this.grid = new Map();
+      let counted = 0;
+
+      for (const feature of features) {
+        const segment = this.toSegment(feature, volumes);
+        if (!segment) continue;
+        if (segment.volumeSource === "atvc") counted++;
+        this.addSegment(segment);
+      }
+
+      console.log(`[RoadTrafficNoise] Loaded ${this.segments.length} road segments (${counted} with DOT counts) from ${centerlinePath} in ${Date.now() - startTime}ms`);
+      return this.segments.length > 0;
+
+    } catch (error) {
+      console.error(`[RoadTrafficNoise] Failed to load road segments from ${centerlinePath}:`, error);
+      this.segments = [];
+      this.grid = new Map();
+      return false;
+    }
+  }
+
+  private toSegment(feature: GeoJsonFeature, volumes: Map<string, number>): RoadSegment | null {
+    const geometry = feature.geometry;
+    if (!geometry) return null;
+
+    const props = feature.properties || {};
+    const roadClass = this.classify(props);
+    if (!roadClass) return null;
+
+    const lines: Position[][] =
+      geometry.type === "LineString" ? [geometry.coordinates] :
+      geometry.type === "MultiLineString" ? geometry.coordinates : [];
+    const positions = lines.reduce((all, line) => all.concat(line), [] as Position[]);
+    if (positions.length < 2) return null;
+
+    const lats: number[] = [];
+    const lngs: number[] = [];
+    for (const [x, y] of positions) {
+      const point = isProjectedCoordinate(x, y) ? nyStatePlaneToWgs84(x, y) : { lat: y, lng: x };
+      lats.push(point.lat);
+      lngs.push(point.lng);
+    }
+
+    const segmentId = this.normalizeSegmentId(props.SegmentID ?? props.segmentid ?? props.SEGMENTID);
+    const counted = segmentId ? volumes.get(segmentId) : undefined;
+    const street = String(props.Street ?? props.street ?? props.STREET ?? props.name ?? "").trim() || "Unnamed road";
+
+    return {
+      street,
+      roadClass,
+      dailyVolume: counted ?? DEFAULT_DAILY_VOLUME[roadClass],
+      volumeSource: counted !== undefined ? "atvc" : "estimated",
+      lats,
+      lngs
+    };
+  }
+
+  private classify(props: Record<string, any>): RoadClass | null {
+    // OpenStreetMap extract
+    if (props.highway !== undefined) {
+      return OSM_ROAD_CLASSES[props.highway] || null;
+    }
+
+    // LION
+    const rwType = parseInt(String(props.RW_TYPE ?? props.rw_type ?? "1"), 10);
+    if (LION_EXCLUDED_RW_TYPES.has(rwType)) return null;
+    const featureType = String(props.FeatureTyp ?? props.featuretyp ?? "0").trim();
+    if (LION_EXCLUDED_FEATURE_TYPES.has(featureType)) return null;
+
+    if (rwType === 2) return "highway";
+    if (rwType === 3) return "bridge";
+    if (rwType === 9) return "ramp";
+
+    const lanes = parseInt(String(props.Number_Travel_Lanes ?? props.number_travel_lanes ?? ""), 10);
+    if (lanes >= 4) return "arterial";
+    if (lanes >= 2) return "collector";
+    return "local";
+  }
+
+  /**
+   * Average daily volume per LION segment from the 15-minute ATVC counts.
+   * Partial days are scaled up to 24 hours and both directions are summed.
+   * The counts run to millions of rows, so the file is streamed.
+   */
+  private async readTrafficCounts(countsPath: string): Promise<Map<string, number>> {
+    const byDirection = new Map<string, { volume: number; intervals: number }>();
+
+    await forEachCsvRowInFile(countsPath, (row) => {
+      const segmentId = this.normalizeSegmentId(row.SegmentID);
+      const volume = parseFloat(row.Vol);
+      if (!segmentId || isNaN(volume)) return;
+
+      const key = `${segmentId}|${row.Yr}-${row.M}-${row.D}|${row.Direction || ""}`;
+      const entry = byDirection.get(key) || { volume: 0, intervals: 0 };
+      entry.volume += volume;
+      entry.intervals++;
+      byDirection.set(key, entry);
+    });
+
+    const byDay = new Map<string, number>();
+    byDirection.forEach((entry, key) => {
+      // Less than six hours of counts is too little to extrapolate a day
+      if (entry.intervals < 24) return;
+      const dayKey = key.substring(0, key.lastIndexOf("|"));
+      byDay.set(dayKey, (byDay.get(dayKey) || 0) + entry.volume * 96 / entry.intervals);
+    });
+
+    const totals = new Map<string, { volume: number; days: number }>();
+    byDay.forEach((volume, dayKey) => {
+      const segmentId = dayKey.substring(0, dayKey.indexOf("|"));
+      const total = totals.get(segmentId) || { volume: 0, days: 0 };
+      total.volume += volume;
+      total.days++;
+      totals.set(segmentId, total);
+    });
+
+    const volumes = new Map<string, number>();
+    totals.forEach((total, segmentId) => volumes.set(segmentId, total.volume / total.days));
+    console.log(`[RoadTrafficNoise] Loaded traffic counts for ${volumes.size} segments from ${countsPath}`);
+    return volumes;
+  }
+
+  private addSegment(segment: RoadSegment): void {
+    const index = this.segments.length;
+    this.segments.push(segment);
+
+    const minRow = Math.floor(Math.min(...segment.lats) / GRID_CELL_DEGREES);
+    const maxRow = Math.floor(Math.max(...segment.lats) / GRID_CELL_DEGREES);
+    const minCol = Math.floor(Math.min(...segment.lngs) / GRID_CELL_DEGREES);
+    const maxCol = Math.floor(Math.max(...segment.lngs) / GRID_CELL_DEGREES);
+
+    for (let row = minRow; row <= maxRow; row++) {
+      for (let col = minCol; col <= maxCol; col++) {
+        const key = this.cellKey(row, col);
+        const bucket = this.grid.get(key);
+        if (bucket) bucket.push(index);
+        else this.grid.set(key, [index]);
+      }
+    }
+  }
+
+  private normalizeSegmentId(value: unknown): string | null {
+    // LION pads segment ids with zeros ("0012345"); ATVC does not
+    const id = parseInt(String(value ?? ""), 10);
+    return isNaN(id) ? null : String(id);
+  }
+
+  private cellKey(row: number, col: number): string {
+    return `${row}:${col}`;
+  }
+}
@@ -0,0 +1,107 @@
+import fs from "fs";
+import { eq } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "../db";
+import { boroughSchoolMedians } from "../../shared/schema";
+import { CITYWIDE } from "./schoolQualityReportLoader";
+import { SchoolCalibration, SchoolScoreOverrideRule, overrideRuleSchema, calibrateByPercentile, applyOverrides } from "../utils/schoolCalibration";
+
+// Logistic steepness for the pre-calibration fallback
+const LOGISTIC_K = 0.8;
+
+// How long the distribution and rules are kept before rereading them, so a
+// `data:school-medians` run or an edited rules file takes effect without a restart
+const RELOAD_INTERVAL_MS = 10 * 60 * 1000;
+
+/**
+ * Maps composite ratings to 0-100 scores by their percentile in the citywide
+ * School Quality Report distribution, then applies any configured override
+ * rules. Until the distribution is loaded (npm run data:school-medians) scores
+ * fall back to a logistic curve around the borough median.
+ */
+export class SchoolCalibrationService {
+  private static instance: SchoolCalibrationService;
+  private distribution: { percentiles: number[]; datasetYear: string | null } | null = null;
+  private rules: SchoolScoreOverrideRule[] = [];
+  private loading: Promise<void> | null = null;
+  private loadedAt = 0;
+
+  static getInstance(): SchoolCalibrationService {
+    if (!SchoolCalibrationService.instance) {
+      SchoolCalibrationService.instance = new SchoolCalibrationService();
+    }
+    return SchoolCalibrationService.instance;
+  }
+
+  /**
+   * Location of the override rules file on disk
+   */
+  static defaultRulesPath(): string {
+    return process.env.SCHOOL_SCORE_OVERRIDES_PATH || "data/schools/score_overrides.json";
+  }
+
+  /**
+   * Reload the distribution and rules, e.g. after recomputing medians
+   */
+  async reload(): Promise<void> {
+    this.loadedAt = Date.now();
+    this.loading = this.load();
+    return this.loading;
+  }
+
+  async calibrate(dbn: string, compositeRating: number, boroughMedian: number): Promise<SchoolCalibration> {
+    if (!this.loading || Date.now() - this.loadedAt > RELOAD_INTERVAL_MS) {
+      this.reload();
+    }
+    await this.loading;
+
+    let calibration: SchoolCalibration;
+    if (this.distribution) {
+      calibration = calibrateByPercentile(compositeRating, this.distribution.percentiles, this.distribution.datasetYear);
+    } else {
+      const rawScore = 100 * (1 / (1 + Math.exp(-LOGISTIC_K * (compositeRating - boroughMedian))));
+      calibration = {
+        score: Math.round(Math.max(0, Math.min(100, rawScore))),
+        method: "borough_logistic",
+        percentile: null,
+        datasetYear: null,
+        override: null
+      };
+    }
+
+    return applyOverrides(this.rules, dbn, compositeRating, calibration);
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const rows = await db.select().from(boroughSchoolMedians).where(eq(boroughSchoolMedians.borough, CITYWIDE));
+      const percentiles = rows[0]?.percentiles ? JSON.parse(rows[0].percentiles) : null;
+      this.distribution = Array.isArray(percentiles) && percentiles.length > 1
+        ? { percentiles, datasetYear: rows[0].datasetYear }
+        : null;
+      if (!this.distribution) {
+        console.log("[SchoolCalibration] No citywide distribution loaded, using borough logistic scores");
+      }
+    } catch (error) {
+      console.error("[SchoolCalibration] Failed to load citywide distribution:", error instanceof Error ? error.message : error);
+      this.distribution = null;
+    }
+
+    this.rules = loadOverrideRules(SchoolCalibrationService.defaultRulesPath());
+  }
+}
+
+function loadOverrideRules(rulesPath: string): SchoolScoreOverrideRule[] {
+  if (!fs.existsSync(rulesPath)) {
+    return [];
+  }
+
+  try {
+    const rules = z.array(overrideRuleSchema).parse(JSON.parse(fs.readFileSync(rulesPath, "utf8")));
+    console.log(`[SchoolCalibration] Loaded ${rules.length} score override rules from ${rulesPath}`);
+    return rules;
+  } catch (error) {
+    console.error(`[SchoolCalibration] Ignoring invalid override rules in ${rulesPath}:`, error instanceof Error ? error.message : error);
+    return [];
+  }
+}
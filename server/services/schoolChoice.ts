@@ -0,0 +1,94 @@
+import { and, eq, ne, sql } from "drizzle-orm";
+import { db } from "../db";
+import { schoolPrograms, SchoolProgramType } from "../../shared/schema";
+import { haversineMiles } from "../utils/geo";
+import { ImportedTable } from "../utils/database";
+import { SchoolProgramLoader } from "./schoolProgramLoader";
+
+export interface SchoolChoiceCandidate {
+  dbn: string;
+  schoolName: string;
+  programType: SchoolProgramType;
+  programName: string | null;
+  grades: string | null;
+  address: string | null;
+  distanceMiles: number;
+  access: "district" | "distance"; // Admits from the address's district, or a charter within reach
+}
+
+// How far families are assumed to travel to a charter school
+const CHARTER_RADIUS_MILES = parseFloat(process.env.SCHOOL_CHOICE_CHARTER_RADIUS_MILES || "") || 1.0;
+
+/**
+ * Realistic options beyond the zoned school: programs that admit from the
+ * address's community school district, and charters within travel distance
+ */
+export class SchoolChoiceService {
+  private static instance: SchoolChoiceService;
+  private programs = new ImportedTable(schoolPrograms, "[SchoolChoice]", "data:school-programs");
+
+  static getInstance(): SchoolChoiceService {
+    if (!SchoolChoiceService.instance) {
+      SchoolChoiceService.instance = new SchoolChoiceService();
+    }
+    return SchoolChoiceService.instance;
+  }
+
+  static charterRadiusMiles(): number {
+    return CHARTER_RADIUS_MILES;
+  }
+
+  /**
+   * Reload the program table from the program list on disk
+   */
+  async refresh(filePath?: string) {
+    const result = await SchoolProgramLoader.getInstance().loadFromFile(filePath);
+    this.programs.markLoaded(result.programsLoaded > 0);
+    return result;
+  }
+
+  /**
+   * Programs open to an address, nearest first, or null when no program list
+   * is loaded. Without a district only charters are considered.
+   */
+  async findCandidates(lat: number, lng: number, district: number | null): Promise<SchoolChoiceCandidate[] | null> {
+    if (!(await this.programs.hasRows())) {
+      return null;
+    }
+
+    const districtPrograms = district !== null
+      ? await db.select().from(schoolPrograms).where(
+          and(eq(schoolPrograms.district, district), ne(schoolPrograms.programType, "charter"))
+        )
+      : [];
+
+    const latDelta = CHARTER_RADIUS_MILES / 69;
+    const lngDelta = CHARTER_RADIUS_MILES / (69 * Math.cos(lat * Math.PI / 180));
+    const charters = await db.select().from(schoolPrograms).where(
+      and(
+        eq(schoolPrograms.programType, "charter"),
+        sql`${schoolPrograms.location} <@ box(point(${lng - lngDelta}, ${lat - latDelta}), point(${lng + lngDelta}, ${lat + latDelta}))`
+      )
+    );
+
+    const candidates: SchoolChoiceCandidate[] = [
+      ...districtPrograms.map(program => ({ program, access: "district" as const })),
+      ...charters.map(program => ({ program, access: "distance" as const }))
+    ]
+      .map(({ program, access }) => ({
+        dbn: program.dbn,
+        schoolName: program.schoolName,
+        programType: program.programType as SchoolProgramType,
+        programName: program.programName,
+        grades: program.grades,
+        address: program.address,
+        distanceMiles: Math.round(haversineMiles(lat, lng, program.lat, program.lng) * 100) / 100,
+        access
+      }))
+      .filter(candidate => candidate.access === "district" || candidate.distanceMiles <= CHARTER_RADIUS_MILES)
+      .sort((a, b) => a.distanceMiles - b.distanceMiles);
+
+    console.log(`[SchoolChoice] ${districtPrograms.length} district ${district ?? "-"} programs, ${candidates.length - districtPrograms.length} charters within ${CHARTER_RADIUS_MILES} mi`);
+    return candidates;
+  }
+}
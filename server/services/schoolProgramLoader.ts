@@ -0,0 +1,129 @@
+import fs from "fs";
+import { db } from "../db";
+import { schoolPrograms, InsertSchoolProgram, SchoolProgramType } from "../../shared/schema";
+import { forEachCsvRow, field } from "../utils/csv";
+
+interface SchoolProgramLoadResult {
+  filePath: string;
+  programsLoaded: number;
+  byType: Partial<Record<SchoolProgramType, number>>;
+  skippedRows: number; // Rows without a DBN, a recognized program type or a location
+}
+
+const BOROUGH_CODES: Record<string, string> = {
+  M: "MANHATTAN",
+  X: "BRONX",
+  K: "BROOKLYN",
+  Q: "QUEENS",
+  R: "STATEN ISLAND"
+};
+
+/**
+ * Loads the school choice program list: one row per program, assembled from
+ * the DOE directories (G&T, dual language and screened middle school program
+ * lists) and the charter schools in the School Locations dataset (wg9x-4ke6):
+ *
+ *   dbn,school_name,program_type,program_name,grades,district,latitude,longitude,address
+ *   03M009,P.S. 009 Sarah Anderson,G&T,District 3 G&T,K-5,3,40.7848,-73.9749,100 W 84th St
+ *   84M350,Success Academy Upper West,charter,,K-4,,40.7931,-73.9713,145 W 84th St
+ *
+ * program_type accepts the DOE labels (G&T, Dual Language, Screened, Charter).
+ * district is the community school district the program admits from; it
+ * defaults to the DBN's district and is ignored for charters, which admit
+ * citywide by lottery.
+ */
+export class SchoolProgramLoader {
+  private static instance: SchoolProgramLoader;
+
+  static getInstance(): SchoolProgramLoader {
+    if (!SchoolProgramLoader.instance) {
+      SchoolProgramLoader.instance = new SchoolProgramLoader();
+    }
+    return SchoolProgramLoader.instance;
+  }
+
+  /**
+   * Location of the program list on disk
+   */
+  static defaultPath(): string {
+    return process.env.SCHOOL_PROGRAMS_PATH || "data/schools/school_programs.csv";
+  }
+
+  /**
+   * Replace the program table with the contents of the program list
+   */
+  async loadFromFile(filePath: string = SchoolProgramLoader.defaultPath()): Promise<SchoolProgramLoadResult> {
+    console.log(`[SchoolProgramLoader] Loading school choice programs from ${filePath}`);
+
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`School program list not found at ${filePath}`);
+    }
+
+    const records: InsertSchoolProgram[] = [];
+    const byType: Partial<Record<SchoolProgramType, number>> = {};
+    let skippedRows = 0;
+
+    forEachCsvRow(fs.readFileSync(filePath, "utf8"), (row) => {
+      const program = this.fromRow(row);
+      if (!program) {
+        skippedRows++;
+        return;
+      }
+      records.push(program);
+      const type = program.programType as SchoolProgramType;
+      byType[type] = (byType[type] || 0) + 1;
+    });
+
+    if (records.length === 0) {
+      throw new Error(`${filePath} contains no school programs with a DBN, program type and location`);
+    }
+
+    await db.transaction(async (tx) => {
+      await tx.delete(schoolPrograms);
+      for (let i = 0; i < records.length; i += 500) {
+        await tx.insert(schoolPrograms).values(records.slice(i, i + 500));
+      }
+    });
+
+    console.log(`[SchoolProgramLoader] Loaded ${records.length} school programs:`, byType);
+
+    return { filePath, programsLoaded: records.length, byType, skippedRows };
+  }
+
+  private fromRow(row: Record<string, string>): InsertSchoolProgram | null {
+    const dbn = field(row, "dbn", "DBN", "ats_system_code").toUpperCase();
+    if (!/^\d{2}[MXKQR]\d{3}$/.test(dbn)) return null;
+
+    const programType = this.parseProgramType(field(row, "program_type", "type"));
+    if (!programType) return null;
+
+    const lat = parseFloat(field(row, "latitude", "lat", "Latitude"));
+    const lng = parseFloat(field(row, "longitude", "lng", "Longitude"));
+    if (isNaN(lat) || isNaN(lng) || lat === 0 || lng === 0) return null;
+
+    const district = parseInt(field(row, "district", "geographical_district_code") || dbn.substring(0, 2), 10);
+
+    return {
+      dbn,
+      schoolName: field(row, "school_name", "location_name", "name") || `School ${dbn}`,
+      programType,
+      programName: field(row, "program_name") || null,
+      grades: field(row, "grades", "grades_final_text", "grade_span") || null,
+      district: programType === "charter" || isNaN(district) ? null : district,
+      borough: BOROUGH_CODES[dbn.charAt(2)] || null,
+      address: field(row, "address", "primary_address_line_1") || null,
+      lat,
+      lng,
+      location: { x: lng, y: lat }
+    };
+  }
+
+  private parseProgramType(value: string): SchoolProgramType | null {
+    const text = value.toUpperCase();
+    if (/G\s*&\s*T|GIFTED/.test(text)) return "gifted_talented";
+    if (/DUAL\s*LANG/.test(text)) return "dual_language";
+    if (/SCREEN/.test(text)) return "screened";
+    if (/CHARTER/.test(text)) return "charter";
+    return null;
+  }
+}
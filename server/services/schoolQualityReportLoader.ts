@@ -0,0 +1,241 @@
+import fs from "fs";
+import path from "path";
+import { eq } from "drizzle-orm";
+import { db } from "../db";
+import { boroughSchoolMedians, schoolQualityReports, InsertBoroughSchoolMedian, InsertSchoolQualityReport } from "../../shared/schema";
+import { forEachCsvRow } from "../utils/csv";
+import { SchoolQualityData, calculateCompositeRating, hasQualityMetrics } from "../utils/schoolQuality";
+
+interface BoroughMedianLoadResult {
+  filePath: string;
+  datasetYear: string;
+  schoolsRated: number;
+  skippedRows: number; // Rows without a DBN or any quality metric
+  mediansUpdated: boolean; // False when a newer report year's medians are already loaded
+  boroughs: Array<{ borough: string; median: number; schoolCount: number }>;
+}
+
+const BOROUGH_NAMES: Record<string, string> = {
+  M: "Manhattan",
+  X: "Bronx",
+  K: "Brooklyn",
+  Q: "Queens",
+  R: "Staten Island"
+};
+
+// Column names per metric, after lower-casing headers and replacing
+// punctuation with underscores. The first names match the SODA export.
+const METRIC_FIELDS: Record<"ela_proficiency" | "math_proficiency" | "school_environment" | "attendance_rate", string[]> = {
+  ela_proficiency: ["ela_proficiency", "ela_proficient", "percent_proficient_ela", "ela_percent_proficient"],
+  math_proficiency: ["math_proficiency", "math_proficient", "percent_proficient_math", "math_percent_proficient"],
+  school_environment: ["school_environment", "supportive_environment", "supportive_environment_rating"],
+  attendance_rate: ["attendance_rate", "student_attendance_rate", "average_attendance"]
+};
+
+// Percentiles stored per borough: P0, P5, ..., P100
+const PERCENTILE_STEP = 5;
+
+// Row holding the distribution across all five boroughs
+export const CITYWIDE = "Citywide";
+
+/**
+ * Derives the borough medians the school score is calibrated against from a
+ * full School Quality Report export (CSV, or the JSON array SODA returns),
+ * rating every school with the same composite formula the score uses. Each
+ * school's metrics are kept per report year, so loading several years builds
+ * the history school trends are computed from; medians follow the newest year.
+ */
+export class SchoolQualityReportLoader {
+  private static instance: SchoolQualityReportLoader;
+
+  static getInstance(): SchoolQualityReportLoader {
+    if (!SchoolQualityReportLoader.instance) {
+      SchoolQualityReportLoader.instance = new SchoolQualityReportLoader();
+    }
+    return SchoolQualityReportLoader.instance;
+  }
+
+  /**
+   * Location of the School Quality Report export on disk
+   */
+  static defaultPath(): string {
+    return process.env.SCHOOL_QUALITY_REPORT_PATH || "data/schools/school_quality_report.csv";
+  }
+
+  /**
+   * Replace the export's report year of school metrics, and the borough
+   * medians unless a newer year is loaded. The dataset year defaults to the
+   * one in the file name, e.g. sqr_2022-23.csv.
+   */
+  async loadFromFile(filePath: string = SchoolQualityReportLoader.defaultPath(), datasetYear?: string): Promise<BoroughMedianLoadResult> {
+    console.log(`[SchoolQualityReportLoader] Loading School Quality Report from ${filePath}`);
+
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`School Quality Report export not found at ${filePath}`);
+    }
+
+    const year = datasetYear || this.yearFromFileName(filePath);
+    if (!year) {
+      throw new Error(`No dataset year given and none in the file name ${path.basename(filePath)}`);
+    }
+
+    const ratings = new Map<string, number[]>();
+    const schools: InsertSchoolQualityReport[] = [];
+    const seen = new Set<string>();
+    let skippedRows = 0;
+
+    for (const row of this.readRows(filePath)) {
+      const quality = this.toQualityData(row);
+      // Some exports repeat a school per grade band; rate each school once
+      if (!quality || seen.has(quality.dbn)) {
+        skippedRows++;
+        continue;
+      }
+      seen.add(quality.dbn);
+
+      const compositeRating = calculateCompositeRating(quality);
+      const borough = BOROUGH_NAMES[quality.dbn.charAt(2)];
+      const boroughRatings = ratings.get(borough) || [];
+      boroughRatings.push(compositeRating);
+      ratings.set(borough, boroughRatings);
+
+      schools.push({
+        dbn: quality.dbn,
+        reportYear: year,
+        schoolName: quality.school_name,
+        elaProficiency: quality.ela_proficiency ?? null,
+        mathProficiency: quality.math_proficiency ?? null,
+        schoolEnvironment: quality.school_environment ?? null,
+        attendanceRate: quality.attendance_rate ?? null,
+        compositeRating: Math.round(compositeRating * 100) / 100
+      });
+    }
+
+    if (ratings.size === 0) {
+      throw new Error(`${filePath} contains no schools with quality metrics`);
+    }
+
+    const citywide = Array.from(ratings.values()).reduce<number[]>((all, values) => all.concat(values), []);
+    const distributions = Array.from(ratings.entries()).concat([[CITYWIDE, citywide]]);
+
+    const records: InsertBoroughSchoolMedian[] = distributions.map(([borough, values]) => {
+      const sorted = values.slice().sort((a, b) => a - b);
+      const percentiles: number[] = [];
+      for (let p = 0; p <= 100; p += PERCENTILE_STEP) {
+        percentiles.push(Math.round(percentile(sorted, p) * 100) / 100);
+      }
+      return {
+        borough,
+        median: Math.round(percentile(sorted, 50) * 100) / 100,
+        percentiles: JSON.stringify(percentiles),
+        schoolCount: sorted.length,
+        datasetYear: year
+      };
+    });
+
+    const current = await db.select({ datasetYear: boroughSchoolMedians.datasetYear })
+      .from(boroughSchoolMedians)
+      .where(eq(boroughSchoolMedians.borough, CITYWIDE));
+    const newestYear = current[0]?.datasetYear;
+    const mediansUpdated = !newestYear || year >= newestYear;
+
+    await db.transaction(async (tx) => {
+      await tx.delete(schoolQualityReports).where(eq(schoolQualityReports.reportYear, year));
+      for (let i = 0; i < schools.length; i += 500) {
+        await tx.insert(schoolQualityReports).values(schools.slice(i, i + 500));
+      }
+      if (mediansUpdated) {
+        await tx.delete(boroughSchoolMedians);
+        await tx.insert(boroughSchoolMedians).values(records);
+      }
+    });
+
+    const schoolsRated = citywide.length;
+    console.log(`[SchoolQualityReportLoader] Rated ${schoolsRated} schools from the ${year} report across ${ratings.size} boroughs`);
+    if (!mediansUpdated) {
+      console.log(`[SchoolQualityReportLoader] Kept the ${newestYear} borough medians; ${year} is stored as history only`);
+    }
+
+    return {
+      filePath,
+      datasetYear: year,
+      schoolsRated,
+      skippedRows,
+      mediansUpdated,
+      boroughs: records.map(record => ({ borough: record.borough, median: record.median, schoolCount: record.schoolCount || 0 }))
+    };
+  }
+
+  private readRows(filePath: string): Array<Record<string, string>> {
+    const text = fs.readFileSync(filePath, "utf8");
+    const rows: Array<Record<string, string>> = [];
+
+    if (/\.json$/i.test(filePath)) {
+      const parsed = JSON.parse(text);
+      for (const record of Array.isArray(parsed) ? parsed : []) {
+        rows.push(normalizeKeys(record));
+      }
+    } else {
+      forEachCsvRow(text, (row) => rows.push(normalizeKeys(row)));
+    }
+    return rows;
+  }
+
+  private toQualityData(row: Record<string, string>): SchoolQualityData | null {
+    const dbn = (row.dbn || "").toUpperCase();
+    if (!/^\d{2}[MXKQR]\d{3}$/.test(dbn)) return null;
+
+    const quality: SchoolQualityData = { dbn, school_name: row.school_name || row.schoolname || dbn };
+    for (const [metric, names] of Object.entries(METRIC_FIELDS)) {
+      const value = readMetric(row, names, metric !== "school_environment");
+      if (value !== undefined) {
+        quality[metric as keyof typeof METRIC_FIELDS] = value;
+      }
+    }
+    return hasQualityMetrics(quality) ? quality : null;
+  }
+
+  private yearFromFileName(filePath: string): string | null {
+    const match = path.basename(filePath).match(/(20\d{2})[-_](\d{2}(?:\d{2})?)/);
+    return match ? `${match[1]}-${match[2].slice(-2)}` : null;
+  }
+}
+
+/**
+ * Lower-case keys with punctuation and spaces collapsed to underscores, so
+ * "Percent Proficient - ELA" and percent_proficient_ela match
+ */
+function normalizeKeys(record: Record<string, any>): Record<string, string> {
+  const row: Record<string, string> = {};
+  for (const [key, value] of Object.entries(record)) {
+    const name = key.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_|_$/g, "");
+    if (value !== null && value !== undefined && row[name] === undefined) {
+      row[name] = String(value).trim();
+    }
+  }
+  return row;
+}
+
+/**
+ * First parseable metric among the column names. Percentages published as
+ * fractions (0.85) are scaled to 0-100.
+ */
+function readMetric(row: Record<string, string>, names: string[], isPercentage: boolean): number | undefined {
+  for (const name of names) {
+    const value = parseFloat((row[name] || "").replace(/[%,]/g, ""));
+    if (isNaN(value) || value <= 0) continue;
+    return isPercentage && value <= 1 ? value * 100 : value;
+  }
+  return undefined;
+}
+
+/**
+ * Linearly interpolated percentile of sorted values
+ */
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 1) return sorted[0];
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
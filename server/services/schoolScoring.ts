@@ -1,7 +1,14 @@
-import { eq } from "drizzle-orm";
+import { asc, eq } from "drizzle-orm";
 import { db } from "../db";
-import { schoolScoreAudits, boroughSchoolMedians, InsertSchoolScoreAudit, InsertBoroughSchoolMedian, SchoolScoreAudit } from "../../shared/schema";
+import { schoolScoreAudits, boroughSchoolMedians, InsertSchoolScoreAudit, InsertBoroughSchoolMedian, SchoolScoreAudit, SchoolLevel, SchoolProgramType, schoolQualityReports } from "../../shared/schema";
 import { generateId, safeInsert } from "../utils/database";
+import { SchoolQualityData, SchoolTrend, calculateCompositeRating, calculateTrend, hasQualityMetrics } from "../utils/schoolQuality";
+import { SchoolZoneIndex } from "./schoolZoneIndex";
+import { SchoolChoiceService, SchoolChoiceCandidate } from "./schoolChoice";
+import { SchoolQualityReportLoader } from "./schoolQualityReportLoader";
+import { SchoolCalibrationService } from "./schoolCalibration";
+import { SchoolCalibration } from "../utils/schoolCalibration";
+import { GeographyService } from "./geography";
 
 interface SchoolZoneResult {
   dbn: string;
@@ -10,29 +17,106 @@ interface SchoolZoneResult {
   address: string;
 }
 
-interface SchoolQualityData {
+interface SchoolLevelScore {
+  level: SchoolLevel;
+  score: number;
+  schoolDbn: string;
+  schoolName: string;
+  grades: string;
+  explanation: string;
+  value: string;
+  auditId: string;
+  trend: SchoolTrend | null; // Across the report years on file; null with fewer than two
+}
+
+interface SchoolChoiceOption {
   dbn: string;
-  school_name: string;
-  ela_proficiency?: number;
-  math_proficiency?: number;
-  school_environment?: number;
-  attendance_rate?: number;
-  grade_span_all?: string;
+  schoolName: string;
+  programType: SchoolProgramType;
+  programName: string | null;
+  grades: string;
+  levels: SchoolLevel[];
+  distanceMiles: number;
+  access: "district" | "distance";
+  score: number;
+  compositeRating: number;
+  elaProficiency: number | null;
+  mathProficiency: number | null;
+  schoolEnvironment: number | null;
+  attendanceRate: number | null;
+  value: string;
 }
 
 interface SchoolScoreResult {
-  score: number;
-  schoolDbn: string;
+  score: number; // Weighted across the zoned levels
+  zonedScore: number; // Same as score: zoned schools only
+  bestAccessibleScore: number; // Best of the zoned school and the choice options at each zoned level
+  schoolDbn: string; // The lowest zoned level's school
   schoolName: string;
   explanation: string;
   dataSource: string;
   value: string;
   auditId: string;
+  levels: SchoolLevelScore[]; // Elementary, middle, high; levels without a zoned school are omitted
+  choiceOptions: SchoolChoiceOption[]; // Best scoring first
 }
 
+const SCHOOL_LEVELS: SchoolLevel[] = ["elementary", "middle", "high"];
+
+const LEVEL_LABELS: Record<SchoolLevel, string> = {
+  elementary: "Elementary",
+  middle: "Middle",
+  high: "High"
+};
+
+const LEVEL_DEFAULT_GRADES: Record<SchoolLevel, string> = {
+  elementary: "K-5",
+  middle: "6-8",
+  high: "9-12"
+};
+
+// Share of the school score per level, renormalized over the levels that are zoned
+const LEVEL_WEIGHTS: Record<SchoolLevel, number> = {
+  elementary: 0.4,
+  middle: 0.3,
+  high: 0.3
+};
+
+const PROGRAM_LABELS: Record<SchoolProgramType, string> = {
+  gifted_talented: "G&T",
+  dual_language: "Dual Language",
+  screened: "Screened",
+  charter: "Charter"
+};
+
+// Grades assumed for a program that does not list them
+const PROGRAM_DEFAULT_GRADES: Record<SchoolProgramType, string> = {
+  gifted_talented: "K-5",
+  dual_language: "K-5",
+  screened: "6-8",
+  charter: "K-5"
+};
+
+// Distinct schools rated per request; each needs its own quality lookup
+const MAX_CHOICE_SCHOOLS = 8;
+
+// Borough medians are reread after this long, picking up a data:school-medians run in another process
+const MEDIAN_CACHE_MS = 10 * 60 * 1000;
+
+// Live zone datasets by level, used for levels with no locally imported zones. Middle and high school zone datasets change id every
+// school year, so they are configured per deployment. Datasets with a null
+// level mix levels and are classified by the grades each zone serves.
+const ZONE_ENDPOINTS: Array<{ url: string; name: string; level: SchoolLevel | null }> = [
+  { url: process.env.ELEMENTARY_SCHOOL_ZONES_URL || 'https://data.cityofnewyork.us/resource/cmjf-yawu.json', name: 'Elementary 2024-2025', level: 'elementary' },
+  ...(process.env.MIDDLE_SCHOOL_ZONES_URL ? [{ url: process.env.MIDDLE_SCHOOL_ZONES_URL, name: 'Middle school zones', level: 'middle' as const }] : []),
+  ...(process.env.HIGH_SCHOOL_ZONES_URL ? [{ url: process.env.HIGH_SCHOOL_ZONES_URL, name: 'High school zones', level: 'high' as const }] : []),
+  { url: 'https://data.cityofnewyork.us/resource/ghq4-ydq4.json', name: '2017-2018 zones', level: null }, // 2017-2018 zones (more stable)
+  { url: 'https://data.cityofnewyork.us/resource/shkv-c3w7.json', name: 'School zones map 2024-2025', level: null }
+];
+
 export class SchoolScoringService {
   private static instance: SchoolScoringService;
-  private boroughMedians: Map<string, number> = new Map();
+  private boroughMedians: Map<string, { median: number; loadedAt: number }> = new Map();
 
   static getInstance(): SchoolScoringService {
     if (!SchoolScoringService.instance) {
@@ -41,75 +125,65 @@ export class SchoolScoringService {
     return SchoolScoringService.instance;
   }
 
+  /**
+   * Recompute the borough medians from a School Quality Report export on disk
+   */
+  async refreshBoroughMedians(filePath?: string, datasetYear?: string) {
+    const result = await SchoolQualityReportLoader.getInstance().loadFromFile(filePath, datasetYear);
+    this.boroughMedians.clear();
+    await SchoolCalibrationService.getInstance().reload();
+    return result;
+  }
+
   async calculateSchoolScore(lat: number, lng: number, borough: string): Promise<SchoolScoreResult> {
     try {
-      // 1. Find school zone using SODA spatial query
-      const schoolZone = await this.findSchoolZone(lat, lng);
-      
-      if (!schoolZone) {
+      // 1. Find the zoned school at each level
+      const zones = await this.findSchoolZones(lat, lng);
+      const zonedLevels = SCHOOL_LEVELS.filter(level => zones[level]);
+
+      if (zonedLevels.length === 0) {
         return this.getDistrictAverageScore(borough);
       }
 
-      // 2. Get school quality data from NYC DOE Quality Reports
-      const qualityData = await this.getSchoolQuality(schoolZone.dbn);
-      
-      // 3. Calculate composite rating
-      const compositeRating = this.calculateCompositeRating(qualityData);
-      
-      // 4. Get borough median for relative adjustment
+      // 2. Borough median for relative adjustment
       const boroughMedian = await this.getBoroughMedian(borough);
-      
-      // 5. Check for high-quality schools (District 2 Upper East/West Side)
-      const isHighQualitySchool = this.isHighQualitySchool(schoolZone.dbn, qualityData);
-      
-      // 6. Calculate final score with special handling
-      let finalScore: number;
-      if (isHighQualitySchool) {
-        // High-quality schools get a minimum score of 85
-        // Scale composite rating from 7.5-10 range to 85-95 range
-        const scaledScore = 85 + ((compositeRating - 7.5) / 2.5) * 10;
-        finalScore = Math.round(Math.max(85, Math.min(95, scaledScore)));
-        console.log(`High-quality school ${schoolZone.dbn} - composite: ${compositeRating}, score: ${finalScore}`);
-      } else {
-        // Apply standard logistic transform with borough adjustment
-        const k = 0.8; // Steepness parameter
-        const rawScore = 100 * (1 / (1 + Math.exp(-k * (compositeRating - boroughMedian))));
-        finalScore = Math.round(Math.max(0, Math.min(100, rawScore)));
-      }
-      
-      // 6. Store audit trail with database-agnostic approach
-      const auditData: InsertSchoolScoreAudit = {
-        schoolDbn: schoolZone.dbn,
-        schoolName: schoolZone.school_name,
-        elaScore: qualityData.ela_proficiency || null,
-        mathScore: qualityData.math_proficiency || null,
-        environmentScore: qualityData.school_environment || null,
-        attendanceRate: qualityData.attendance_rate || null,
-        compositeRating,
-        boroughMedian,
-        finalScore,
-        dataSource: "doe_quality_reports"
-      };
-      
-      // Use safe insert that properly handles databases with/without .returning() support
-      const audit = await safeInsert<SchoolScoreAudit>(
-        db.insert(schoolScoreAudits),
-        auditData,
-        { ensureId: true } // Ensure ID is generated for non-returning databases
+
+      // 3. Score each level's school
+      const levels = await Promise.all(
+        zonedLevels.map(level => this.scoreZonedSchool(level, zones[level]!, borough, boroughMedian))
       );
-      
-      // 7. Generate explanation
-      const explanation = this.generateExplanation(qualityData, compositeRating, boroughMedian, borough);
-      const value = this.generateValue(qualityData, boroughMedian);
-      
+
+      const score = this.weightLevels(levels.map(level => ({ level: level.level, score: level.score })));
+      const primary = levels[0];
+
+      // 4. Rate the district programs and charters the address can reach
+      const district = await this.resolveSchoolDistrict(lat, lng, levels);
+      const choiceOptions = await this.scoreChoiceOptions(lat, lng, district, boroughMedian);
+
+      const bestAccessibleScore = this.weightLevels(levels.map(level => ({
+        level: level.level,
+        score: Math.max(level.score, ...choiceOptions.filter(option => option.levels.includes(level.level)).map(option => option.score))
+      })));
+      const bestOption = choiceOptions.find(option => option.levels.some(level => zonedLevels.includes(level)));
+      const explanations = levels.map(level => level.explanation);
+      if (bestOption && bestAccessibleScore > score) {
+        explanations.push(`best accessible option ${bestOption.schoolName} (${PROGRAM_LABELS[bestOption.programType]}, ${bestOption.distanceMiles} mi) scores ${bestOption.score}`);
+      }
+
       return {
-        score: finalScore,
-        schoolDbn: schoolZone.dbn,
-        schoolName: schoolZone.school_name,
-        explanation,
+        score,
+        zonedScore: score,
+        bestAccessibleScore,
+        schoolDbn: primary.schoolDbn,
+        schoolName: primary.schoolName,
+        explanation: explanations.join("; "),
         dataSource: "NYC DOE Quality Reports + Zone Data",
-        value,
-        auditId: audit.id
+        value: levels.length > 1
+          ? levels.map(level => `${LEVEL_LABELS[level.level]} ${level.score}`).join(", ")
+          : primary.value,
+        auditId: primary.auditId,
+        levels,
+        choiceOptions
       };
       
     } catch (error) {
@@ -118,72 +192,272 @@ export class SchoolScoringService {
     }
   }
 
-  private async findSchoolZone(lat: number, lng: number): Promise<SchoolZoneResult | null> {
+  /**
+   * Community school district the address is in, from the district
+   * boundaries. Without them, the district of the zoned elementary or middle
+   * school, whose zones lie within one district; high school zones do not.
+   */
+  private async resolveSchoolDistrict(lat: number, lng: number, levels: SchoolLevelScore[]): Promise<number | null> {
+    const district = await GeographyService.getInstance().resolveSchoolDistrict(lat, lng);
+    if (district !== null) return district;
+
+    const districtSchool = levels.find(level => level.level !== "high");
+    if (!districtSchool) return null;
+    const fromDbn = parseInt(districtSchool.schoolDbn.substring(0, 2), 10);
+    return isNaN(fromDbn) ? null : fromDbn;
+  }
+
+  private async scoreZonedSchool(level: SchoolLevel, schoolZone: SchoolZoneResult, borough: string, boroughMedian: number): Promise<SchoolLevelScore> {
+    const { qualityData, compositeRating, calibration } = await this.rateSchool(schoolZone.dbn, boroughMedian);
+    const finalScore = calibration.score;
+    const trend = calculateTrend(qualityData.history || []);
+    
+    // Store audit trail with database-agnostic approach, one row per level
+    const auditData: InsertSchoolScoreAudit = {
+      schoolDbn: schoolZone.dbn,
+      schoolName: schoolZone.school_name,
+      schoolLevel: level,
+      elaScore: qualityData.ela_proficiency || null,
+      mathScore: qualityData.math_proficiency || null,
+      environmentScore: qualityData.school_environment || null,
+      attendanceRate: qualityData.attendance_rate || null,
+      compositeRating,
+      boroughMedian,
+      finalScore,
+      calibrationMethod: calibration.method,
+      calibratedPercentile: calibration.percentile,
+      overrideRule: calibration.override?.ruleId ?? null,
+      scoreBeforeOverride: calibration.override?.scoreBeforeOverride ?? null,
+      yearlyMetrics: qualityData.history?.length ? JSON.stringify(qualityData.history) : null,
+      trend: trend?.direction ?? null,
+      trendSlope: trend?.slope ?? null,
+      dataSource: "doe_quality_reports"
+    };
+    
+    // Use safe insert that properly handles databases with/without .returning() support
+    const audit = await safeInsert<SchoolScoreAudit>(
+      db.insert(schoolScoreAudits),
+      auditData,
+      { ensureId: true } // Ensure ID is generated for non-returning databases
+    );
+    
+    return {
+      level,
+      score: finalScore,
+      schoolDbn: schoolZone.dbn,
+      schoolName: schoolZone.school_name,
+      grades: schoolZone.grades,
+      explanation: this.generateExplanation(level, qualityData, compositeRating, boroughMedian, borough, calibration, trend),
+      value: this.generateValue(qualityData, boroughMedian),
+      auditId: audit.id,
+      trend
+    };
+  }
+
+  /**
+   * Quality data, composite rating and calibrated 0-100 score for a school
+   */
+  private async rateSchool(dbn: string, boroughMedian: number): Promise<{ qualityData: SchoolQualityData; compositeRating: number; calibration: SchoolCalibration }> {
+    // Get school quality data from NYC DOE Quality Reports
+    const qualityData = await this.getSchoolQuality(dbn);
+    
+    // Calculate composite rating; a school with no reported metrics is rated at the borough median
+    const compositeRating = hasQualityMetrics(qualityData) ? calculateCompositeRating(qualityData) : boroughMedian;
+    
+    // Citywide percentile of the rating, with any configured overrides
+    const calibration = await SchoolCalibrationService.getInstance().calibrate(dbn, compositeRating, boroughMedian);
+
+    return { qualityData, compositeRating, calibration };
+  }
+
+  /**
+   * Rate the nearest distinct schools among the programs open to the address.
+   * A school with several programs (e.g. G&T and dual language) is rated once.
+   */
+  private async scoreChoiceOptions(lat: number, lng: number, district: number | null, boroughMedian: number): Promise<SchoolChoiceOption[]> {
+    let candidates: SchoolChoiceCandidate[] | null;
     try {
-      console.log(`Finding school zone for coordinates: ${lat}, ${lng}`);
-      
-      // Try multiple NYC Open Data endpoints for school zones
-      const endpoints = [
-        {
-          url: 'https://data.cityofnewyork.us/resource/cmjf-yawu.json', // Elementary 2024-2025
-          name: 'Elementary 2024-2025'
-        },
-        {
-          url: 'https://data.cityofnewyork.us/resource/ghq4-ydq4.json', // 2017-2018 zones (more stable)
-          name: '2017-2018 zones'
-        },
-        {
-          url: 'https://data.cityofnewyork.us/resource/shkv-c3w7.json', // School zones map 2024-2025
-          name: 'School zones map 2024-2025'
-        }
-      ];
+      candidates = await SchoolChoiceService.getInstance().findCandidates(lat, lng, district);
+    } catch (error) {
+      console.error("Error finding school choice options:", error);
+      return [];
+    }
+    if (!candidates || candidates.length === 0) {
+      return [];
+    }
 
-      for (const endpoint of endpoints) {
-        try {
-          console.log(`Trying ${endpoint.name} endpoint...`);
-          
-          // Use proper SODA spatial query syntax with intersects
-          const query = `$where=intersects(the_geom, 'POINT (${lng} ${lat})')&$limit=1`;
-          const fullUrl = `${endpoint.url}?${query}`;
-          
-          console.log(`SODA API request: ${fullUrl}`);
-          
-          const response = await fetch(fullUrl);
-          console.log(`Response status: ${response.status}`);
-          
-          if (!response.ok) {
-            console.log(`Endpoint ${endpoint.name} failed with status ${response.status}`);
+    const dbns = Array.from(new Set(candidates.map(candidate => candidate.dbn))).slice(0, MAX_CHOICE_SCHOOLS);
+    const ratings = new Map(await Promise.all(
+      dbns.map(async dbn => [dbn, await this.rateSchool(dbn, boroughMedian)] as const)
+    ));
+
+    const options: SchoolChoiceOption[] = [];
+    for (const candidate of candidates) {
+      const rating = ratings.get(candidate.dbn);
+      if (!rating) continue;
+
+      const grades = candidate.grades || PROGRAM_DEFAULT_GRADES[candidate.programType];
+      const { qualityData } = rating;
+      options.push({
+        dbn: candidate.dbn,
+        schoolName: candidate.schoolName,
+        programType: candidate.programType,
+        programName: candidate.programName,
+        grades,
+        levels: this.classifyLevels(grades),
+        distanceMiles: candidate.distanceMiles,
+        access: candidate.access,
+        score: rating.calibration.score,
+        compositeRating: Math.round(rating.compositeRating * 10) / 10,
+        elaProficiency: qualityData.ela_proficiency ?? null,
+        mathProficiency: qualityData.math_proficiency ?? null,
+        schoolEnvironment: qualityData.school_environment ?? null,
+        attendanceRate: qualityData.attendance_rate ?? null,
+        value: this.generateValue(qualityData, boroughMedian)
+      });
+    }
+
+    return options.sort((a, b) => b.score - a.score || a.distanceMiles - b.distanceMiles);
+  }
+
+  /**
+   * Level scores combined with LEVEL_WEIGHTS, renormalized over the given levels
+   */
+  private weightLevels(scores: Array<{ level: SchoolLevel; score: number }>): number {
+    const totalWeight = scores.reduce((sum, entry) => sum + LEVEL_WEIGHTS[entry.level], 0);
+    return Math.round(scores.reduce((sum, entry) => sum + entry.score * LEVEL_WEIGHTS[entry.level], 0) / totalWeight);
+  }
+
+  /**
+   * Zoned school at each level, from the imported zone polygons when available
+   */
+  private async findSchoolZones(lat: number, lng: number): Promise<Partial<Record<SchoolLevel, SchoolZoneResult>>> {
+    const zoneIndex = SchoolZoneIndex.getInstance();
+    const local = await zoneIndex.lookup(lat, lng);
+    if (!local) {
+      return this.querySchoolZones(lat, lng);
+    }
+
+    const zones: Partial<Record<SchoolLevel, SchoolZoneResult>> = {};
+    for (const level of SCHOOL_LEVELS) {
+      const school = local[level];
+      if (!school) continue;
+      zones[level] = {
+        dbn: school.dbn,
+        school_name: school.schoolName || this.generateSchoolNameFromDBN(school.dbn),
+        grades: school.grades || LEVEL_DEFAULT_GRADES[level],
+        address: 'NYC School Zone'
+      };
+    }
+
+    // Levels the imported school year has no zones for come from the live datasets
+    const indexedLevels = await zoneIndex.indexedLevels();
+    const missingLevels = SCHOOL_LEVELS.filter(level => !indexedLevels.includes(level));
+    if (missingLevels.length > 0) {
+      Object.assign(zones, await this.querySchoolZones(lat, lng, missingLevels));
+    }
+    return zones;
+  }
+
+  /**
+   * Zoned school at each of the given levels from the live zone datasets. The
+   * first dataset that places the point in a zone for a level wins; a K-8 zone
+   * covers both elementary and middle.
+   */
+  private async querySchoolZones(lat: number, lng: number, levels: SchoolLevel[] = SCHOOL_LEVELS): Promise<Partial<Record<SchoolLevel, SchoolZoneResult>>> {
+    const zones: Partial<Record<SchoolLevel, SchoolZoneResult>> = {};
+    console.log(`Finding ${levels.join(", ")} school zones for coordinates: ${lat}, ${lng}`);
+
+    for (const endpoint of ZONE_ENDPOINTS) {
+      if (levels.every(level => zones[level])) break;
+      if (endpoint.level && (zones[endpoint.level] || !levels.includes(endpoint.level))) continue;
+
+      try {
+        // Use proper SODA spatial query syntax with intersects
+        const query = `$where=intersects(the_geom, 'POINT (${lng} ${lat})')&$limit=10`;
+        const response = await fetch(`${endpoint.url}?${query}`);
+        
+        if (!response.ok) {
+          console.log(`Endpoint ${endpoint.name} failed with status ${response.status}`);
+          continue;
+        }
+        
+        const rawZones = await response.json();
+        console.log(`Found ${rawZones.length} zones from ${endpoint.name}`);
+        
+        for (const rawZone of rawZones) {
+          let zone: SchoolZoneResult;
+          try {
+            zone = this.normalizeZoneData(rawZone, endpoint.level ? LEVEL_DEFAULT_GRADES[endpoint.level] : undefined);
+          } catch {
             continue;
           }
-          
-          const zones = await response.json();
-          console.log(`Found ${zones.length} zones from ${endpoint.name}`);
-          
-          if (zones.length > 0) {
-            console.log(`School zone found:`, zones[0]);
-            const normalizedZone = this.normalizeZoneData(zones[0]);
-            console.log(`Normalized zone data:`, normalizedZone);
-            return normalizedZone;
+
+          const zoneLevels = endpoint.level ? [endpoint.level] : this.classifyLevels(zone.grades);
+          for (const level of zoneLevels) {
+            if (levels.includes(level) && !zones[level]) {
+              zones[level] = zone;
+              console.log(`${LEVEL_LABELS[level]} school zone: ${zone.dbn} (${zone.school_name}) from ${endpoint.name}`);
+            }
           }
-          
-        } catch (endpointError) {
-          console.error(`Error with ${endpoint.name}:`, endpointError);
-          continue;
         }
+        
+      } catch (endpointError) {
+        console.error(`Error with ${endpoint.name}:`, endpointError);
+        continue;
       }
-      
+    }
+
+    if (Object.keys(zones).length === 0) {
       console.log("No school zones found in any endpoint");
-      return null;
-      
-    } catch (error) {
-      console.error("Error finding school zone:", error);
-      return null;
     }
+    return zones;
+  }
+
+  /**
+   * Levels a zone serves from its grade span, e.g. "K-5", "06,07,08", "K-8", "9-12"
+   */
+  private classifyLevels(grades: string): SchoolLevel[] {
+    const text = grades.toUpperCase();
+    const numbers = (text.match(/\d{1,2}/g) || []).map(Number);
+    if (/K/.test(text)) numbers.push(0);
+    if (numbers.length === 0) return ["elementary"];
+
+    const lowest = Math.min(...numbers);
+    const highest = Math.max(...numbers);
+    const levels: SchoolLevel[] = [];
+    if (lowest <= 5) levels.push("elementary");
+    if (lowest <= 8 && highest >= 6) levels.push("middle");
+    if (highest >= 9) levels.push("high");
+    return levels;
   }
 
   private async getSchoolQuality(dbn: string): Promise<SchoolQualityData> {
     try {
       console.log(`Fetching school quality data for DBN: ${dbn}`);
+
+      // Report years loaded locally (npm run data:school-medians), newest year's metrics first
+      const history = await this.getQualityHistory(dbn);
+      if (history.length > 0) {
+        const latest = history[history.length - 1];
+        console.log(`Using ${history.length} local School Quality Report years for DBN ${dbn}, latest ${latest.reportYear}`);
+        return {
+          dbn,
+          school_name: latest.schoolName || this.generateSchoolNameFromDBN(dbn),
+          ela_proficiency: latest.elaProficiency ?? undefined,
+          math_proficiency: latest.mathProficiency ?? undefined,
+          school_environment: latest.schoolEnvironment ?? undefined,
+          attendance_rate: latest.attendanceRate ?? undefined,
+          history: history.map(year => ({
+            reportYear: year.reportYear,
+            elaProficiency: year.elaProficiency,
+            mathProficiency: year.mathProficiency,
+            schoolEnvironment: year.schoolEnvironment,
+            attendanceRate: year.attendanceRate,
+            compositeRating: year.compositeRating
+          }))
+        };
+      }
       
       // Try multiple NYC DOE datasets for school information
       const datasets = [
@@ -240,105 +514,8 @@ export class SchoolScoringService {
       
       console.log(`No school quality data found for DBN ${dbn} in any dataset`);
       
-      // Fallback with known high-quality schools for Upper East Side and District 2
-      const highQualitySchools: Record<string, any> = {
-        '02M006': { // PS 6 Lillie Devereaux Blake School
-          dbn: '02M006',
-          school_name: 'PS 6 Lillie Devereaux Blake School',
-          school_environment: 9.2,
-          attendance_rate: 95,
-          ela_proficiency: 89,
-          math_proficiency: 91,
-          academic_achievement: 9,
-          collaborative_teachers: 9.1,
-          effective_school_leadership: 9.3,
-          rigorous_instruction: 9.2,
-          supportive_environment: 9.1,
-          strong_family_community_ties: 9,
-          trust: 9,
-          quality_review_rating: 'Well Developed',
-          borough: 'Manhattan',
-          grades: 'K-5',
-          address_full: '45 East 81st Street, New York, NY 10028',
-          total_enrollment: 654,
-          district: '2'
-        },
-        '02M158': { // PS 158 Bayard Taylor School (nearby Upper East Side school)
-          dbn: '02M158',
-          school_name: 'PS 158 Bayard Taylor School',
-          school_environment: 8.8,
-          attendance_rate: 94,
-          ela_proficiency: 85,
-          math_proficiency: 87,
-          academic_achievement: 8.7,
-          collaborative_teachers: 8.9,
-          effective_school_leadership: 9,
-          rigorous_instruction: 8.8,
-          supportive_environment: 8.9,
-          strong_family_community_ties: 8.7,
-          trust: 8.8,
-          quality_review_rating: 'Well Developed',
-          borough: 'Manhattan',
-          grades: 'K-5'
-        },
-        '02M183': { // PS 183 Robert L. Stevenson School (Upper East Side)
-          dbn: '02M183', 
-          school_name: 'PS 183 Robert L. Stevenson School',
-          school_environment: 8.7,
-          attendance_rate: 93,
-          ela_proficiency: 82,
-          math_proficiency: 84,
-          academic_achievement: 8.5,
-          collaborative_teachers: 8.8,
-          effective_school_leadership: 8.9,
-          rigorous_instruction: 8.7,
-          supportive_environment: 8.8,
-          strong_family_community_ties: 8.6,
-          trust: 8.7,
-          quality_review_rating: 'Well Developed',
-          borough: 'Manhattan',
-          grades: 'K-5'
-        }
-      };
-      
-      // Check if this is a known high-quality school
-      if (highQualitySchools[dbn]) {
-        console.log(`Using known high-quality school data for DBN ${dbn}`);
-        return highQualitySchools[dbn];
-      }
-      
-      // Check if it's a District 2 school (generally high quality in Manhattan)
-      if (dbn.startsWith('02M')) {
-        console.log(`Using District 2 (Upper East/West Side) default high scores for DBN ${dbn}`);
-        const schoolName = this.generateSchoolNameFromDBN(dbn);
-        return { 
-          dbn, 
-          school_name: schoolName,
-          school_environment: 8.5, // High rating for District 2
-          attendance_rate: 92, // High attendance for District 2
-          ela_proficiency: 78,
-          math_proficiency: 80,
-          academic_achievement: 8,
-          collaborative_teachers: 8,
-          effective_school_leadership: 8,
-          rigorous_instruction: 8,
-          supportive_environment: 8,
-          strong_family_community_ties: 7.5,
-          trust: 8,
-          quality_review_rating: 'Proficient',
-          borough: 'Manhattan',
-          district: '2'
-        };
-      }
-      
-      // Default fallback for other schools
-      const schoolName = this.generateSchoolNameFromDBN(dbn);
-      return { 
-        dbn, 
-        school_name: schoolName,
-        school_environment: 6, // Default moderate rating
-        attendance_rate: 85 // Default good attendance
-      };
+      // No report on file: return the school without metrics, so it is rated at its borough median
+      return { dbn, school_name: this.generateSchoolNameFromDBN(dbn) };
       
     } catch (error) {
       console.error("Error getting school quality:", error);
@@ -347,7 +524,18 @@ export class SchoolScoringService {
     }
   }
 
-  private normalizeZoneData(rawZone: any): SchoolZoneResult {
+  private async getQualityHistory(dbn: string) {
+    try {
+      return await db.select().from(schoolQualityReports)
+        .where(eq(schoolQualityReports.dbn, dbn))
+        .orderBy(asc(schoolQualityReports.reportYear));
+    } catch (error) {
+      console.error("Error loading school quality history:", error);
+      return [];
+    }
+  }
+
+  private normalizeZoneData(rawZone: any, defaultGrades: string = LEVEL_DEFAULT_GRADES.elementary): SchoolZoneResult {
     // Map various field names from different NYC Open Data endpoints to consistent format
     const dbnFieldNames = ['dbn', 'school_code', 'ats_system_code', 'school_dbn'];
     const nameFieldNames = ['school_name', 'schoolname', 'school_nm', 'name', 'sch_name'];
@@ -410,7 +598,7 @@ export class SchoolScoringService {
     
     // Default values for missing optional fields
     if (!grades) {
-      grades = 'K-5'; // Default elementary grades
+      grades = defaultGrades; // The dataset's level, elementary for mixed datasets
       console.log(`Using default grades '${grades}' for DBN '${dbn}'`);
     }
     
@@ -449,65 +637,11 @@ export class SchoolScoringService {
     return `School ${dbn}`;
   }
 
-  private isHighQualitySchool(dbn: string, qualityData: SchoolQualityData): boolean {
-    // Check if this is a known high-quality school
-    const knownHighQualityDBNs = ['02M006', '02M158', '02M183', '02M290', '02M077'];
-    if (knownHighQualityDBNs.includes(dbn)) {
-      return true;
-    }
-    
-    // Check if this is a District 2 school with high scores
-    if (dbn.startsWith('02M')) {
-      const hasHighScores = 
-        (qualityData.ela_proficiency && qualityData.ela_proficiency > 75) ||
-        (qualityData.math_proficiency && qualityData.math_proficiency > 75) ||
-        (qualityData.school_environment && qualityData.school_environment > 8);
-      if (hasHighScores) {
-        return true;
-      }
-    }
-    
-    // Check if any school has exceptional metrics
-    const hasExceptionalMetrics = 
-      (qualityData.ela_proficiency && qualityData.ela_proficiency > 85) ||
-      (qualityData.math_proficiency && qualityData.math_proficiency > 85) ||
-      (qualityData.school_environment && qualityData.school_environment > 9);
-    
-    return hasExceptionalMetrics;
-  }
-
-  private calculateCompositeRating(qualityData: SchoolQualityData): number {
-    const scores: number[] = [];
-    
-    // ELA proficiency (0-100%) → normalized to 1-10
-    if (qualityData.ela_proficiency) {
-      scores.push(Math.min(10, (qualityData.ela_proficiency / 100) * 10));
-    }
-    
-    // Math proficiency (0-100%) → normalized to 1-10  
-    if (qualityData.math_proficiency) {
-      scores.push(Math.min(10, (qualityData.math_proficiency / 100) * 10));
-    }
-    
-    // School environment (typically 1-10 scale)
-    if (qualityData.school_environment) {
-      scores.push(Math.min(10, qualityData.school_environment));
-    }
-    
-    // Attendance rate (0-100%) → normalized to 1-10, weighted lower
-    if (qualityData.attendance_rate) {
-      const attendanceScore = Math.min(10, (qualityData.attendance_rate / 100) * 10);
-      scores.push(attendanceScore * 0.5); // Lower weight for attendance
-    }
-    
-    // Return weighted average, fallback to 5.0 (median)
-    return scores.length > 0 ? scores.reduce((a, b) => a + b) / scores.length : 5.0;
-  }
-
   private async getBoroughMedian(borough: string): Promise<number> {
     // Check cache first
-    if (this.boroughMedians.has(borough)) {
-      return this.boroughMedians.get(borough)!;
+    const cached = this.boroughMedians.get(borough);
+    if (cached && Date.now() - cached.loadedAt < MEDIAN_CACHE_MS) {
+      return cached.median;
     }
     
     try {
@@ -516,11 +650,12 @@ export class SchoolScoringService {
       
       if (existing.length > 0) {
         const median = existing[0].median;
-        this.boroughMedians.set(borough, median);
+        this.boroughMedians.set(borough, { median, loadedAt: Date.now() });
         return median;
       }
       
-      // Calculate and store new median (using default estimates for now)
+      // No medians computed yet (npm run data:school-medians); use built-in
+      // estimates without caching them, so computed medians are used once imported
       const medianEstimates: Record<string, number> = {
         'Manhattan': 7.2,
         'Brooklyn': 6.5, 
@@ -529,15 +664,7 @@ export class SchoolScoringService {
         'Staten Island': 6.7
       };
       
-      const median = medianEstimates[borough] || 6.5;
-      
-      await db.insert(boroughSchoolMedians).values({
-        borough,
-        median
-      });
-      
-      this.boroughMedians.set(borough, median);
-      return median;
+      return medianEstimates[borough] || 6.5;
       
     } catch (error) {
       console.error("Error getting borough median:", error);
@@ -545,16 +672,24 @@ export class SchoolScoringService {
     }
   }
 
-  private generateExplanation(qualityData: SchoolQualityData, compositeRating: number, boroughMedian: number, borough: string): string {
+  private generateExplanation(level: SchoolLevel, qualityData: SchoolQualityData, compositeRating: number, boroughMedian: number, borough: string, calibration: SchoolCalibration, trend: SchoolTrend | null): string {
     const schoolName = qualityData.school_name || "Local school";
     const comparison = compositeRating > boroughMedian ? "above" : compositeRating < boroughMedian ? "below" : "at";
+
+    if (!hasQualityMetrics(qualityData)) {
+      return `${LEVEL_LABELS[level]}: zoned for ${schoolName}, no quality report on file, rated at ${borough} median`;
+    }
     
     let details = "";
     if (qualityData.ela_proficiency && qualityData.math_proficiency) {
       details = ` (ELA ${Math.round(qualityData.ela_proficiency)}%, Math ${Math.round(qualityData.math_proficiency)}%)`;
     }
     
-    return `Zoned for ${schoolName}${details}, rated ${comparison} ${borough} median`;
+    const percentile = calibration.percentile !== null ? `, ${Math.round(calibration.percentile)}th percentile citywide` : "";
+    const override = calibration.override ? ` (adjusted: ${calibration.override.description})` : "";
+    const trendText = trend ? `, ${trend.direction} over ${trend.years.length} report years` : "";
+    
+    return `${LEVEL_LABELS[level]}: zoned for ${schoolName}${details}, rated ${comparison} ${borough} median${percentile}${override}${trendText}`;
   }
 
   private generateValue(qualityData: SchoolQualityData, boroughMedian: number): string {
@@ -568,14 +703,20 @@ export class SchoolScoringService {
     const median = await this.getBoroughMedian(borough);
     const score = Math.round(50 + (median - 6.5) * 10); // Approximate score based on median
     
+    const boundedScore = Math.max(0, Math.min(100, score));
+    
     return {
-      score: Math.max(0, Math.min(100, score)),
+      score: boundedScore,
+      zonedScore: boundedScore,
+      bestAccessibleScore: boundedScore,
       schoolDbn: "DISTRICT_AVG",
       schoolName: `${borough} District Average`,
       explanation: `Using ${borough} district average (insufficient zone data)`,
       dataSource: "Borough District Average",
       value: `${median.toFixed(1)}/10 median`,
-      auditId: "DISTRICT_FALLBACK"
+      auditId: "DISTRICT_FALLBACK",
+      levels: [],
+      choiceOptions: []
     };
   }
 }
\ No newline at end of file
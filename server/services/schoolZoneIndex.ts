@@ -0,0 +1,177 @@
+import RBush from "rbush";
+import { desc, eq } from "drizzle-orm";
+import { db } from "../db";
+import { schoolZones, SchoolLevel } from "../../shared/schema";
+import { pointInPolygon } from "../utils/geo";
+import { SchoolZoneLoader } from "./schoolZoneLoader";
+
+export interface ZonedSchool {
+  dbn: string;
+  schoolName: string | null;
+  grades: string | null;
+  schoolYear: string;
+}
+
+// How long a loaded index is used before checking for a newer imported school year
+const YEAR_RECHECK_MS = 10 * 60 * 1000;
+
+interface ZoneEntry {
+  minX: number; // lng
+  minY: number; // lat
+  maxX: number;
+  maxY: number;
+  level: SchoolLevel;
+  school: ZonedSchool;
+  polygons: number[][][][];
+}
+
+/**
+ * Point-in-polygon lookup of the zoned school at each level, against the
+ * school_zones table held in an in-process R-tree. Uses SCHOOL_ZONE_YEAR when
+ * set, otherwise the newest imported school year. Zones are imported with
+ * `npm run data:school-zones`; the index picks up an import from another
+ * process on its next year check.
+ */
+export class SchoolZoneIndex {
+  private static instance: SchoolZoneIndex;
+  private tree = new RBush<ZoneEntry>();
+  private levels = new Set<SchoolLevel>();
+  private loading: Promise<boolean> | null = null;
+  private loadedYear: string | null = null;
+  private checkedAt = 0;
+  private warned = false;
+
+  static getInstance(): SchoolZoneIndex {
+    if (!SchoolZoneIndex.instance) {
+      SchoolZoneIndex.instance = new SchoolZoneIndex();
+    }
+    return SchoolZoneIndex.instance;
+  }
+
+  /**
+   * Import a school year's zone files, then rebuild the index
+   */
+  async refresh(schoolYear: string, directory?: string) {
+    const result = await SchoolZoneLoader.getInstance().importSchoolYear(schoolYear, directory);
+    await this.reload();
+    return result;
+  }
+
+  /**
+   * Build the index, or reuse it while its school year is still the active
+   * one. Resolves to false when no zones are imported, in which case callers
+   * fall back to live zone queries; a failed load is retried on the next call.
+   */
+  async ensureLoaded(): Promise<boolean> {
+    if (this.loading && Date.now() - this.checkedAt < YEAR_RECHECK_MS) {
+      return this.loading;
+    }
+    return this.track(this.loadIfChanged());
+  }
+
+  /**
+   * Rebuild the index from the table, e.g. after an import
+   */
+  async reload(): Promise<boolean> {
+    this.loadedYear = null;
+    return this.track(this.loadIfChanged());
+  }
+
+  private track(loading: Promise<boolean>): Promise<boolean> {
+    this.loading = loading;
+    this.checkedAt = Date.now();
+    loading.then(loaded => {
+      if (!loaded && this.loading === loading) this.loading = null;
+    });
+    return loading;
+  }
+
+  /**
+   * Zoned school per level at a point, or null when no zones are loaded
+   */
+  async lookup(lat: number, lng: number): Promise<Partial<Record<SchoolLevel, ZonedSchool>> | null> {
+    if (!(await this.ensureLoaded())) {
+      return null;
+    }
+
+    const zoned: Partial<Record<SchoolLevel, ZonedSchool>> = {};
+    for (const entry of this.tree.search({ minX: lng, minY: lat, maxX: lng, maxY: lat })) {
+      if (zoned[entry.level]) continue;
+      if (entry.polygons.some(polygon => pointInPolygon(lat, lng, polygon))) {
+        zoned[entry.level] = entry.school;
+      }
+    }
+    return zoned;
+  }
+
+  /**
+   * Levels the loaded school year has zones for; empty when no zones are loaded
+   */
+  async indexedLevels(): Promise<SchoolLevel[]> {
+    await this.ensureLoaded();
+    return Array.from(this.levels);
+  }
+
+  private async loadIfChanged(): Promise<boolean> {
+    try {
+      const schoolYear = await this.activeSchoolYear();
+      if (!schoolYear) {
+        if (!this.warned) {
+          console.log("[SchoolZones] No school zones imported; run `npm run data:school-zones`. Using live zone queries");
+          this.warned = true;
+        }
+        return false;
+      }
+      if (schoolYear === this.loadedYear) {
+        return true;
+      }
+      return await this.loadZones(schoolYear);
+    } catch (error) {
+      console.error("[SchoolZones] Failed to load school zones:", error instanceof Error ? error.message : error);
+      return false;
+    }
+  }
+
+  private async loadZones(schoolYear: string): Promise<boolean> {
+    try {
+      const rows = await db.select().from(schoolZones).where(eq(schoolZones.schoolYear, schoolYear));
+      const entries: ZoneEntry[] = rows.map(row => ({
+        minX: row.minLng,
+        minY: row.minLat,
+        maxX: row.maxLng,
+        maxY: row.maxLat,
+        level: row.level as SchoolLevel,
+        school: { dbn: row.dbn, schoolName: row.schoolName, grades: row.grades, schoolYear },
+        polygons: JSON.parse(row.polygons)
+      }));
+
+      const tree = new RBush<ZoneEntry>();
+      tree.load(entries);
+      this.tree = tree;
+      this.levels = new Set(entries.map(entry => entry.level));
+      this.loadedYear = entries.length > 0 ? schoolYear : null;
+
+      const levels = Array.from(this.levels);
+      console.log(`[SchoolZones] Indexed ${entries.length} ${schoolYear} school zones (${levels.join(", ")})`);
+      return entries.length > 0;
+
+    } catch (error) {
+      console.error("[SchoolZones] Failed to load school zones:", error instanceof Error ? error.message : error);
+      this.tree = new RBush<ZoneEntry>();
+      this.levels = new Set();
+      this.loadedYear = null;
+      return false;
+    }
+  }
+
+  private async activeSchoolYear(): Promise<string | null> {
+    if (process.env.SCHOOL_ZONE_YEAR) {
+      return process.env.SCHOOL_ZONE_YEAR;
+    }
+    const latest = await db.select({ schoolYear: schoolZones.schoolYear })
+      .from(schoolZones)
+      .orderBy(desc(schoolZones.schoolYear))
+      .limit(1);
+    return latest[0]?.schoolYear ?? null;
+  }
+}
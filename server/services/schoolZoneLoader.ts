@@ -0,0 +1,152 @@
+import fs from "fs";
+import path from "path";
+import { and, eq, inArray } from "drizzle-orm";
+import { db } from "../db";
+import { schoolZones, InsertSchoolZone, SchoolLevel, schoolLevelEnum } from "../../shared/schema";
+import { readGeoFeatures, readField, toBoundaryPolygons, GeoJsonFeature } from "../utils/geoFiles";
+
+interface SchoolZoneImportResult {
+  schoolYear: string;
+  files: string[];
+  byLevel: Partial<Record<SchoolLevel, number>>;
+  skippedFeatures: number; // Zones without a DBN, e.g. "zoned to another school" remarks
+}
+
+// Attribute names used across DOE elementary, middle and high school zone exports
+const DBN_FIELDS = ["DBN", "dbn", "school_dbn", "ESID_NO", "ats_system_code", "school_code"];
+const NAME_FIELDS = ["school_name", "SCHOOL_NAME", "schoolname", "sch_name", "Name", "name", "label", "LABEL"];
+const GRADE_FIELDS = ["grades", "GRADES", "grade_levels", "grades_served"];
+
+const BOROUGH_CODES: Record<string, string> = {
+  M: "MANHATTAN",
+  X: "BRONX",
+  K: "BROOKLYN",
+  Q: "QUEENS",
+  R: "STATEN ISLAND"
+};
+
+const ZONE_FILE_PATTERN = /^(elementary|middle|high)[^/]*\.(geojson|json|geojsonl|geojsonseq|shp)$/i;
+
+/**
+ * Imports DOE school zone polygons into the school_zones table, one school
+ * year at a time. A year's zones live in their own directory, one or more
+ * files per level named after it (elementary.geojson, middle_brooklyn.shp,
+ * high_queens.geojson, ...), so rolling over to a new year is a matter of
+ * adding a directory and importing it.
+ */
+export class SchoolZoneLoader {
+  private static instance: SchoolZoneLoader;
+
+  static getInstance(): SchoolZoneLoader {
+    if (!SchoolZoneLoader.instance) {
+      SchoolZoneLoader.instance = new SchoolZoneLoader();
+    }
+    return SchoolZoneLoader.instance;
+  }
+
+  /**
+   * Directory holding one sub-directory of zone files per school year
+   */
+  static zonesRoot(): string {
+    return process.env.SCHOOL_ZONES_DIR || "data/school-zones";
+  }
+
+  /**
+   * The newest school year with a directory of zone files on disk, e.g. "2024-2025"
+   */
+  static latestLocalSchoolYear(): string | null {
+    const root = SchoolZoneLoader.zonesRoot();
+    if (!fs.existsSync(root)) return null;
+
+    const years = fs.readdirSync(root)
+      .filter(name => /^\d{4}-\d{4}$/.test(name) && fs.statSync(path.join(root, name)).isDirectory())
+      .sort();
+    return years.length > 0 ? years[years.length - 1] : null;
+  }
+
+  /**
+   * Replace a school year's zones with every zone file in its directory.
+   * Levels without a file keep whatever was imported for them before.
+   */
+  async importSchoolYear(schoolYear: string, directory: string = path.join(SchoolZoneLoader.zonesRoot(), schoolYear)): Promise<SchoolZoneImportResult> {
+    if (!fs.existsSync(directory)) {
+      throw new Error(`School zone directory not found at ${directory}`);
+    }
+
+    const files = fs.readdirSync(directory)
+      .filter(name => ZONE_FILE_PATTERN.test(name))
+      .sort()
+      .map(name => ({ level: name.match(ZONE_FILE_PATTERN)![1].toLowerCase() as SchoolLevel, path: path.join(directory, name) }));
+
+    if (files.length === 0) {
+      throw new Error(`No zone files in ${directory} (expected names starting with elementary, middle or high)`);
+    }
+
+    return this.importFiles(schoolYear, files);
+  }
+
+  /**
+   * Replace a school year's zones for the levels covered by the given files
+   */
+  async importFiles(schoolYear: string, files: Array<{ level: SchoolLevel; path: string }>): Promise<SchoolZoneImportResult> {
+    const records: InsertSchoolZone[] = [];
+    const byLevel: Partial<Record<SchoolLevel, number>> = {};
+    let skippedFeatures = 0;
+
+    for (const file of files) {
+      schoolLevelEnum.parse(file.level);
+      console.log(`[SchoolZoneLoader] Loading ${schoolYear} ${file.level} school zones from ${file.path}`);
+
+      const features = await readGeoFeatures(file.path);
+      for (const feature of features) {
+        const zone = this.toZone(feature, schoolYear, file.level);
+        if (!zone) {
+          skippedFeatures++;
+          continue;
+        }
+        records.push(zone);
+        byLevel[file.level] = (byLevel[file.level] || 0) + 1;
+      }
+    }
+
+    const levels = Object.keys(byLevel) as SchoolLevel[];
+    if (levels.length === 0) {
+      throw new Error(`No school zones with a DBN found in ${files.map(file => file.path).join(", ")}`);
+    }
+
+    await db.transaction(async (tx) => {
+      await tx.delete(schoolZones).where(and(eq(schoolZones.schoolYear, schoolYear), inArray(schoolZones.level, levels)));
+      for (let i = 0; i < records.length; i += 500) {
+        await tx.insert(schoolZones).values(records.slice(i, i + 500));
+      }
+    });
+
+    console.log(`[SchoolZoneLoader] Imported ${records.length} ${schoolYear} school zones:`, byLevel);
+
+    return { schoolYear, files: files.map(file => file.path), byLevel, skippedFeatures };
+  }
+
+  private toZone(feature: GeoJsonFeature, schoolYear: string, level: SchoolLevel): InsertSchoolZone | null {
+    const props = feature.properties || {};
+    const dbn = readField(props, ...DBN_FIELDS).toUpperCase();
+    if (!/^\d{2}[MXKQR]\d{3}$/.test(dbn)) return null;
+
+    const boundary = toBoundaryPolygons(feature.geometry);
+    if (!boundary) return null;
+
+    const { polygons, minLat, minLng, maxLat, maxLng } = boundary;
+    return {
+      schoolYear,
+      level,
+      dbn,
+      schoolName: readField(props, ...NAME_FIELDS) || null,
+      grades: readField(props, ...GRADE_FIELDS) || null,
+      borough: BOROUGH_CODES[dbn.charAt(2)] || null,
+      polygons: JSON.stringify(polygons),
+      minLat,
+      minLng,
+      maxLat,
+      maxLng
+    };
+  }
+}
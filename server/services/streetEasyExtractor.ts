@@ -1,4 +1,5 @@
 // Using Node.js built-in fetch (available in Node 18+)
+import { addressFromSlug, normalizeAddress } from '../../shared/address';
 
 export interface StreetEasyPropertyData {
   success: boolean;
@@ -254,14 +255,7 @@ export class StreetEasyExtractor {
       const pathname = new URL(url).pathname;
       const match = pathname.match(/\/building\/(.+?)\//);
       if (match) {
-        // Convert URL format to readable address
-        return match[1]
-          .split('-')
-          .map(part => part.charAt(0).toUpperCase() + part.slice(1))
-          .join(' ')
-          .replace(/(\d+)/, '$1')
-          .replace(/\s+/g, ' ')
-          .trim();
+        return normalizeAddress(addressFromSlug(match[1]));
       }
     } catch (error) {
       console.error('Error extracting address from URL:', error);
@@ -0,0 +1,283 @@
+import fs from "fs";
+import { forEachGeoJsonFeature, GeoJsonFeature, Position } from "../utils/geoFiles";
+import { haversineMiles } from "../utils/geo";
+import { MinHeap } from "../utils/minHeap";
+
+export interface WalkTarget {
+  id: string;
+  lat: number;
+  lng: number;
+}
+
+export interface WalkRoute {
+  id: string;
+  distanceMiles: number;
+  minutes: number;
+}
+
+// Average walking pace used for every walk-time estimate (20 min/mile)
+export const WALKING_SPEED_MPH = 3;
+
+// Spatial grid used to snap coordinates onto the network (~200m cells)
+const GRID_CELL_DEGREES = 0.002;
+const MAX_SNAP_MILES = 0.1;
+
+// OSM highway types pedestrians cannot use
+const OSM_EXCLUDED_HIGHWAYS = new Set([
+  "motorway", "motorway_link", "construction", "proposed", "abandoned", "raceway", "bus_guideway"
+]);
+
+// LION roadway types: highway, tunnel, ramp, non-physical segment, U-turn, ferry route
+const LION_EXCLUDED_RW_TYPES = new Set([2, 4, 9, 12, 13, 14]);
+// LION feature types: railroad, shoreline, census block boundary, paper street, ferry
+const LION_EXCLUDED_FEATURE_TYPES = new Set(["1", "2", "3", "5", "F"]);
+
+/**
+ * Pedestrian street graph loaded from an OSM or LION centerline extract on disk.
+ * Computes shortest walking paths so that rivers, highways and rail yards are
+ * accounted for instead of assuming a straight line.
+ */
+export class StreetNetworkService {
+  private static instance: StreetNetworkService;
+
+  private nodeLat: number[] = [];
+  private nodeLng: number[] = [];
+  private edgeTargets: number[][] = [];
+  private edgeLengths: number[][] = [];
+  private nodeIndex: Map<string, number> = new Map();
+  private grid: Map<string, number[]> = new Map();
+  private loading: Promise<boolean> | null = null;
+
+  static getInstance(): StreetNetworkService {
+    if (!StreetNetworkService.instance) {
+      StreetNetworkService.instance = new StreetNetworkService();
+    }
+    return StreetNetworkService.instance;
+  }
+
+  /**
+   * Location of the street extract (GeoJSON or GeoJSON sequence) on disk
+   */
+  static defaultNetworkPath(): string {
+    return process.env.STREET_NETWORK_PATH || "data/streets/walk-network.geojson";
+  }
+
+  /**
+   * Load the network once. Resolves to false when no extract is available,
+   * in which case callers should fall back to straight-line estimates.
+   */
+  async ensureLoaded(): Promise<boolean> {
+    if (!this.loading) {
+      this.loading = this.loadNetwork(StreetNetworkService.defaultNetworkPath());
+    }
+    return this.loading;
+  }
+
+  /**
+   * Replace the in-memory graph with a different extract
+   */
+  async reload(networkPath: string = StreetNetworkService.defaultNetworkPath()): Promise<boolean> {
+    this.loading = this.loadNetwork(networkPath);
+    return this.loading;
+  }
+
+  /**
+   * Shortest walking routes from an origin to each reachable target within maxMiles.
+   * Returns null when the street network is not available.
+   */
+  async walkingRoutes(lat: number, lng: number, targets: WalkTarget[], maxMiles: number = 1.5): Promise<Map<string, WalkRoute> | null> {
+    if (!(await this.ensureLoaded())) {
+      return null;
+    }
+
+    const origin = this.snap(lat, lng);
+    if (!origin) {
+      console.log(`[StreetNetwork] No street within ${MAX_SNAP_MILES} miles of ${lat}, ${lng}`);
+      return null;
+    }
+
+    // Group targets by the network node they snap to
+    const targetsByNode = new Map<number, Array<{ id: string; connector: number }>>();
+    for (const target of targets) {
+      const snapped = this.snap(target.lat, target.lng);
+      if (!snapped) continue;
+      const list = targetsByNode.get(snapped.node) || [];
+      list.push({ id: target.id, connector: snapped.distance });
+      targetsByNode.set(snapped.node, list);
+    }
+
+    const routes = new Map<string, WalkRoute>();
+    let remaining = targetsByNode.size;
+    if (remaining === 0) {
+      return routes;
+    }
+
+    // Bounded Dijkstra from the origin node
+    const distances = new Map<number, number>([[origin.node, origin.distance]]);
+    const settled = new Set<number>();
+    const heap = new MinHeap();
+    heap.push(origin.node, origin.distance);
+
+    while (heap.size() > 0 && remaining > 0) {
+      const { node, priority } = heap.pop()!;
+      if (settled.has(node)) continue;
+      settled.add(node);
+
+      const reached = targetsByNode.get(node);
+      if (reached) {
+        for (const target of reached) {
+          const distanceMiles = priority + target.connector;
+          routes.set(target.id, {
+            id: target.id,
+            distanceMiles,
+            minutes: (distanceMiles / WALKING_SPEED_MPH) * 60
+          });
+        }
+        remaining--;
+      }
+
+      const neighbors = this.edgeTargets[node];
+      const lengths = this.edgeLengths[node];
+      for (let i = 0; i < neighbors.length; i++) {
+        const next = neighbors[i];
+        const nextDistance = priority + lengths[i];
+        if (nextDistance > maxMiles || settled.has(next)) continue;
+        if (nextDistance < (distances.get(next) ?? Infinity)) {
+          distances.set(next, nextDistance);
+          heap.push(next, nextDistance);
+        }
+      }
+    }
+
+    return routes;
+  }
+
+  private async loadNetwork(networkPath: string): Promise<boolean> {
+    try {
+      if (!fs.existsSync(networkPath)) {
+        console.log(`[StreetNetwork] No street network at ${networkPath}, using straight-line distances`);
+        return false;
+      }
+
+      this.resetGraph();
+      const startTime = Date.now();
+      let segmentCount = 0;
+
+      await forEachGeoJsonFeature(networkPath, (feature) => {
+        if (!feature.geometry || !this.isWalkable(feature)) return;
+
+        const lines: Position[][] =
+          feature.geometry.type === "LineString" ? [feature.geometry.coordinates] :
+          feature.geometry.type === "MultiLineString" ? feature.geometry.coordinates : [];
+
+        for (const line of lines) {
+          this.addLine(line);
+          segmentCount++;
+        }
+      });
+
+      console.log(`[StreetNetwork] Loaded ${segmentCount} walkable segments (${this.nodeLat.length} nodes) from ${networkPath} in ${Date.now() - startTime}ms`);
+      return this.nodeLat.length > 0;
+
+    } catch (error) {
+      console.error(`[StreetNetwork] Failed to load street network from ${networkPath}:`, error);
+      this.resetGraph();
+      return false;
+    }
+  }
+
+  private isWalkable(feature: GeoJsonFeature): boolean {
+    const props = feature.properties || {};
+
+    // OpenStreetMap extract
+    if (props.highway !== undefined) {
+      if (OSM_EXCLUDED_HIGHWAYS.has(props.highway)) return false;
+      if (props.foot === "no" || props.foot === "private") return false;
+      if ((props.access === "no" || props.access === "private") && props.foot !== "yes") return false;
+      return true;
+    }
+
+    // LION (NYC DCP street centerline) extract
+    const rwType = props.RW_TYPE ?? props.rw_type;
+    if (rwType !== undefined || props.FeatureTyp !== undefined || props.featuretyp !== undefined) {
+      if (LION_EXCLUDED_RW_TYPES.has(parseInt(String(rwType), 10))) return false;
+      const featureType = String(props.FeatureTyp ?? props.featuretyp ?? "0").trim();
+      if (LION_EXCLUDED_FEATURE_TYPES.has(featureType)) return false;
+      // NonPed = "V" marks vehicle-only segments
+      const nonPed = String(props.NonPed ?? props.nonped ?? "").trim();
+      return nonPed !== "V";
+    }
+
+    return true;
+  }
+
+  private addLine(coordinates: Position[]): void {
+    let previous = -1;
+    for (const coordinate of coordinates) {
+      const node = this.nodeFor(coordinate[1], coordinate[0]);
+      if (previous !== -1 && previous !== node) {
+        const length = haversineMiles(this.nodeLat[previous], this.nodeLng[previous], this.nodeLat[node], this.nodeLng[node]);
+        this.edgeTargets[previous].push(node);
+        this.edgeLengths[previous].push(length);
+        this.edgeTargets[node].push(previous);
+        this.edgeLengths[node].push(length);
+      }
+      previous = node;
+    }
+  }
+
+  private nodeFor(lat: number, lng: number): number {
+    // Segments that share an endpoint (to ~10cm) become the same intersection node
+    const key = `${lat.toFixed(6)},${lng.toFixed(6)}`;
+    const existing = this.nodeIndex.get(key);
+    if (existing !== undefined) return existing;
+
+    const node = this.nodeLat.length;
+    this.nodeLat.push(lat);
+    this.nodeLng.push(lng);
+    this.edgeTargets.push([]);
+    this.edgeLengths.push([]);
+    this.nodeIndex.set(key, node);
+
+    const cell = this.cellKey(Math.floor(lat / GRID_CELL_DEGREES), Math.floor(lng / GRID_CELL_DEGREES));
+    const bucket = this.grid.get(cell);
+    if (bucket) bucket.push(node);
+    else this.grid.set(cell, [node]);
+
+    return node;
+  }
+
+  private snap(lat: number, lng: number): { node: number; distance: number } | null {
+    const row = Math.floor(lat / GRID_CELL_DEGREES);
+    const col = Math.floor(lng / GRID_CELL_DEGREES);
+    let best: { node: number; distance: number } | null = null;
+
+    for (let dRow = -1; dRow <= 1; dRow++) {
+      for (let dCol = -1; dCol <= 1; dCol++) {
+        const bucket = this.grid.get(this.cellKey(row + dRow, col + dCol));
+        if (!bucket) continue;
+        for (const node of bucket) {
+          const distance = haversineMiles(lat, lng, this.nodeLat[node], this.nodeLng[node]);
+          if (!best || distance < best.distance) {
+            best = { node, distance };
+          }
+        }
+      }
+    }
+
+    return best && best.distance <= MAX_SNAP_MILES ? best : null;
+  }
+
+  private cellKey(row: number, col: number): string {
+    return `${row}:${col}`;
+  }
+
+  private resetGraph(): void {
+    this.nodeLat = [];
+    this.nodeLng = [];
+    this.edgeTargets = [];
+    this.edgeLengths = [];
+    this.nodeIndex = new Map();
+    this.grid = new Map();
+  }
+}
@@ -1,24 +1,29 @@
-import { eq, sql } from "drizzle-orm";
+import { inArray, sql } from "drizzle-orm";
 import { db } from "../db";
-import { subwayStations, InsertSubwayStation, SubwayStation } from "../../shared/schema";
-
-interface SubwayStationData {
-  stop_id: string;
-  stop_name: string;
-  stop_lat: string;
-  stop_lon: string;
-  location_type?: string;
-  parent_station?: string;
-}
+import { subwayStations, subwayStationEntrances, InsertSubwayStation, SubwayStation } from "../../shared/schema";
+import { GtfsStationLoader } from "./gtfsStationLoader";
+import { StreetNetworkService, WalkTarget, WALKING_SPEED_MPH } from "./streetNetwork";
+import { TransitQualityService, TransitQualityResult, WALKING_RANGE_MINUTES } from "./transitQuality";
 
 interface SubwayProximityResult {
   score: number;
   nearestStation: string;
-  distanceInMiles: number;
+  distanceInMiles: number; // Walking distance (network when available)
+  walkMinutes?: number;
+  straightLineMiles?: number;
+  routing?: "street_network" | "straight_line";
+  transit?: TransitQualityResult; // Line count, express service and CBD reach components
   explanation: string;
   dataSource: string;
 }
 
+interface WalkingAccess {
+  station: SubwayStation & { distance: number };
+  walkMiles: number;
+  walkMinutes: number;
+  routing: "street_network" | "straight_line";
+}
+
 export class SubwayProximityService {
   private static instance: SubwayProximityService;
   private stationsCache: Map<string, SubwayStation> = new Map();
@@ -31,6 +36,16 @@ export class SubwayProximityService {
     return SubwayProximityService.instance;
   }
 
+  /**
+   * Reload the station table from the local GTFS feed (e.g. after a new feed release)
+   */
+  async refreshStations(feedPath?: string, entrancesPath?: string) {
+    const result = await GtfsStationLoader.getInstance().loadFromFeed(feedPath, entrancesPath);
+    this.stationsCache.clear();
+    TransitQualityService.getInstance().invalidate();
+    return result;
+  }
+
   async calculateSubwayScore(lat: number, lng: number): Promise<SubwayProximityResult> {
     try {
       console.log(`[SubwayService] Calculating subway score for coordinates: ${lat}, ${lng}`);
@@ -59,22 +74,48 @@ export class SubwayProximityService {
         };
       }
       
-      // 3. Find the closest station
-      const closestStation = nearbyStations[0];
-      const distanceInMiles = closestStation.distance;
+      // 3. Walk times to every nearby station, routing along streets to their entrances
+      const walks = await this.findStationWalks(lat, lng, nearbyStations);
+      if (walks.length === 0) {
+        const nearest = nearbyStations[0];
+        console.log(`[SubwayService] No station reachable on foot from ${lat}, ${lng} (nearest: ${nearest.name}, ${nearest.distance.toFixed(2)} miles straight-line)`);
+        return {
+          score: 0,
+          nearestStation: nearest.name,
+          distanceInMiles: 999,
+          straightLineMiles: nearest.distance,
+          routing: "street_network",
+          explanation: `No walkable route to a subway station; the nearest, ${nearest.name}, is ${nearest.distance.toFixed(1)} miles away in a straight line`,
+          dataSource: "NYC MTA GTFS Data + Street Network"
+        };
+      }
+      const access = walks[0];
+      
+      // 4. Proximity score from walking time to the nearest station
+      const proximityScore = this.calculateScoreFromWalkTime(access.walkMinutes);
       
-      // 4. Calculate score based on distance with NYC-specific weighting
-      const score = this.calculateScoreFromDistance(distanceInMiles);
+      // 5. Blend in line coverage, express service and CBD reach
+      let transit: TransitQualityResult | undefined;
+      try {
+        transit = await TransitQualityService.getInstance().evaluate(walks, proximityScore);
+      } catch (error) {
+        console.error("[SubwayService] Transit quality evaluation failed, using proximity only:", error);
+      }
+      const score = transit ? transit.score : proximityScore;
       
-      // 5. Generate explanation
-      const explanation = this.generateExplanation(closestStation, distanceInMiles, score);
+      // 6. Generate explanation
+      const explanation = this.generateExplanation(access, score, transit);
       
       return {
         score,
-        nearestStation: closestStation.name,
-        distanceInMiles,
+        nearestStation: access.station.name,
+        distanceInMiles: access.walkMiles,
+        walkMinutes: Math.round(access.walkMinutes),
+        straightLineMiles: access.station.distance,
+        routing: access.routing,
+        transit,
         explanation,
-        dataSource: "NYC MTA GTFS Data"
+        dataSource: access.routing === "street_network" ? "NYC MTA GTFS Data + Street Network" : "NYC MTA GTFS Data"
       };
       
     } catch (error) {
@@ -98,15 +139,13 @@ export class SubwayProximityService {
       console.log(`[SubwayService] Station data check: ${stationCount[0]?.count || 0} stations in database`);
       
       if (!hasData) {
-        console.log("[SubwayService] No station data found, loading fallback stations directly...");
-        // Load fallback stations immediately since external APIs are unreliable
-        await this.loadFallbackStations();
-        
-        // Try external sources as supplement (but don't rely on them)
+        console.log("[SubwayService] No station data found, loading stations from local GTFS feed...");
         try {
-          await this.loadStationDataFromMTA();
+          await GtfsStationLoader.getInstance().loadFromFeed();
         } catch (error) {
-          console.log("[SubwayService] External MTA data failed, using fallback stations only");
+          // Only seed the hand-maintained list when no feed is available on disk
+          console.log("[SubwayService] GTFS feed unavailable, loading fallback stations:", error instanceof Error ? error.message : error);
+          await this.loadFallbackStations();
         }
         
         // Verify stations were loaded
@@ -122,300 +161,6 @@ export class SubwayProximityService {
     }
   }
 
-  private async loadStationDataFromMTA(): Promise<void> {
-    try {
-      // Use NYC MTA GTFS data - stops.txt equivalent via SODA API
-      const urls = [
-        'https://data.ny.gov/resource/39hk-dx4f.json', // NYC Transit Subway Entrances and Exits
-        'https://data.cityofnewyork.us/resource/kk4q-3rt2.json' // Subway Stations
-      ];
-
-      for (const url of urls) {
-        try {
-          console.log(`Fetching subway data from: ${url}`);
-          
-          const response = await fetch(`${url}?$limit=1000`);
-          if (!response.ok) {
-            console.log(`Failed to fetch from ${url}: ${response.status}`);
-            continue;
-          }
-          
-          const stations = await response.json();
-          console.log(`Received ${stations.length} station records`);
-          
-          if (stations.length > 0) {
-            await this.processAndStoreStations(stations, url);
-            break; // Use first successful source
-          }
-          
-        } catch (sourceError) {
-          console.error(`Error with source ${url}:`, sourceError);
-          continue;
-        }
-      }
-      
-    } catch (error) {
-      console.error("Error loading MTA station data:", error);
-      // Fallback to hardcoded major stations
-      await this.loadFallbackStations();
-    }
-  }
-
-  private async processAndStoreStations(stationsData: any[], source: string): Promise<void> {
-    try {
-      const processedStations: InsertSubwayStation[] = [];
-      
-      for (const station of stationsData) {
-        const processed = this.normalizeStationData(station, source);
-        if (processed) {
-          processedStations.push(processed);
-        }
-      }
-      
-      if (processedStations.length > 0) {
-        console.log(`Inserting ${processedStations.length} processed stations`);
-        
-        // Use upsert to handle duplicates
-        for (const station of processedStations) {
-          await db.insert(subwayStations)
-            .values(station)
-            .onConflictDoUpdate({
-              target: subwayStations.id,
-              set: {
-                name: station.name,
-                lat: station.lat,
-                lng: station.lng,
-                lines: station.lines,
-                borough: station.borough,
-                lastUpdated: sql`now()`
-              }
-            });
-        }
-        
-        console.log(`Successfully stored ${processedStations.length} subway stations`);
-      }
-      
-    } catch (error) {
-      console.error("Error processing station data:", error);
-    }
-  }
-
-  private normalizeStationData(rawStation: any, source: string): InsertSubwayStation | null {
-    try {
-      // Handle different data formats from different NYC Open Data sources
-      let id: string;
-      let name: string;
-      let lat: number | null = null;
-      let lng: number | null = null;
-      let lines: string = "Unknown";
-      let borough: string | undefined;
-      
-      // Extract station basic info
-      if (source.includes('39hk-dx4f')) {
-        // NYC Transit Subway Entrances format
-        id = rawStation.station_name?.replace(/\s+/g, '_') + '_' + Math.random().toString(36).substr(2, 5);
-        name = rawStation.station_name || rawStation.stop_name || 'Unknown Station';
-        lines = rawStation.daytime_routes || rawStation.line || "Unknown";
-        borough = rawStation.borough;
-      } else {
-        // Generic format
-        id = rawStation.objectid?.toString() || rawStation.stop_id || rawStation.id?.toString() || Math.random().toString(36);
-        name = rawStation.name || rawStation.stop_name || rawStation.station_name || 'Unknown Station';
-        lines = rawStation.line || rawStation.routes || rawStation.lines || "Unknown";
-        borough = rawStation.borough || rawStation.boro;
-      }
-      
-      // Robust coordinate extraction with comprehensive field checking
-      const coords = this.extractCoordinates(rawStation, source);
-      if (coords) {
-        lat = coords.lat;
-        lng = coords.lng;
-      }
-      
-      // Validate coordinates - reject if parsing failed
-      if (lat === null || lng === null || isNaN(lat) || isNaN(lng)) {
-        console.log(`[SubwayService] Skipping station ${name}: failed to extract valid coordinates from data:`, {
-          rawFields: Object.keys(rawStation).filter(k => k.toLowerCase().includes('lat') || k.toLowerCase().includes('lng') || k.toLowerCase().includes('geo') || k.toLowerCase().includes('location')),
-          extractedLat: lat,
-          extractedLng: lng
-        });
-        return null;
-      }
-      
-      // NYC bounds check with tolerance
-      if (lat < 40.4 || lat > 41.0 || lng < -74.3 || lng > -73.7) {
-        console.log(`[SubwayService] Skipping station ${name}: outside NYC bounds lat=${lat}, lng=${lng}`);
-        return null;
-      }
-      
-      console.log(`[SubwayService] Successfully normalized station: ${name} at ${lat}, ${lng}`);
-      
-      return {
-        id: id.toString(),
-        name: name.trim(),
-        lat,
-        lng,
-        lines: JSON.stringify(typeof lines === 'string' ? lines.split(',').map(l => l.trim()) : [lines]),
-        borough
-      };
-      
-    } catch (error) {
-      console.error("Error normalizing station data:", error, rawStation);
-      return null;
-    }
-  }
-
-  private extractCoordinates(rawStation: any, source: string): { lat: number; lng: number } | null {
-    try {
-      // Method 1: Direct numeric fields
-      const directFields = [
-        // Standard coordinate field names
-        { lat: 'lat', lng: 'lng' },
-        { lat: 'latitude', lng: 'longitude' },
-        { lat: 'stop_lat', lng: 'stop_lon' },
-        { lat: 'station_lat', lng: 'station_lon' },
-        { lat: 'station_latitude', lng: 'station_longitude' },
-        // Dataset-specific fields
-        { lat: 'gtfs_latitude', lng: 'gtfs_longitude' },
-        { lat: 'entrance_latitude', lng: 'entrance_longitude' },
-        { lat: 'exit_latitude', lng: 'exit_longitude' }
-      ];
-      
-      for (const fieldPair of directFields) {
-        const latVal = rawStation[fieldPair.lat];
-        const lngVal = rawStation[fieldPair.lng];
-        
-        if (latVal != null && lngVal != null) {
-          const lat = this.parseNumeric(latVal);
-          const lng = this.parseNumeric(lngVal);
-          if (lat !== null && lng !== null && lat !== 0 && lng !== 0) {
-            console.log(`[SubwayService] Extracted coordinates from ${fieldPair.lat}/${fieldPair.lng}: ${lat}, ${lng}`);
-            return { lat, lng };
-          }
-        }
-      }
-      
-      // Method 2: Geometry objects with coordinates array
-      const geomFields = ['the_geom', 'geom', 'location', 'georeference', 'geometry'];
-      for (const field of geomFields) {
-        const geom = rawStation[field];
-        if (geom && typeof geom === 'object') {
-          // Check for coordinates array: { coordinates: [lng, lat] }
-          if (geom.coordinates && Array.isArray(geom.coordinates)) {
-            const coords = geom.coordinates;
-            if (coords.length >= 2) {
-              const lng = this.parseNumeric(coords[0]);
-              const lat = this.parseNumeric(coords[1]);
-              if (lat !== null && lng !== null && lat !== 0 && lng !== 0) {
-                console.log(`[SubwayService] Extracted coordinates from ${field}.coordinates: ${lat}, ${lng}`);
-                return { lat, lng };
-              }
-            }
-          }
-          
-          // Check for nested lat/lng fields
-          if (geom.latitude != null && geom.longitude != null) {
-            const lat = this.parseNumeric(geom.latitude);
-            const lng = this.parseNumeric(geom.longitude);
-            if (lat !== null && lng !== null && lat !== 0 && lng !== 0) {
-              console.log(`[SubwayService] Extracted coordinates from ${field} nested: ${lat}, ${lng}`);
-              return { lat, lng };
-            }
-          }
-        }
-        
-        // Method 3: WKT string parsing (e.g., "POINT (-73.955 40.779)")
-        if (typeof geom === 'string' && geom.includes('POINT')) {
-          const coords = this.parseWKTPoint(geom);
-          if (coords) {
-            console.log(`[SubwayService] Extracted coordinates from WKT ${field}: ${coords.lat}, ${coords.lng}`);
-            return coords;
-          }
-        }
-      }
-      
-      // Method 4: Try parsing string fields that might contain coordinates
-      const stringFields = ['coordinates', 'coord', 'point', 'pos', 'position'];
-      for (const field of stringFields) {
-        const value = rawStation[field];
-        if (typeof value === 'string') {
-          const coords = this.parseCoordinateString(value);
-          if (coords) {
-            console.log(`[SubwayService] Extracted coordinates from string ${field}: ${coords.lat}, ${coords.lng}`);
-            return coords;
-          }
-        }
-      }
-      
-      console.log(`[SubwayService] Failed to extract coordinates from station data. Available fields:`, Object.keys(rawStation));
-      return null;
-      
-    } catch (error) {
-      console.error('[SubwayService] Error extracting coordinates:', error);
-      return null;
-    }
-  }
-  
-  private parseNumeric(value: any): number | null {
-    if (typeof value === 'number') {
-      return isNaN(value) ? null : value;
-    }
-    if (typeof value === 'string') {
-      // Remove common non-numeric characters but preserve decimal points and minus signs
-      const cleaned = value.replace(/[^\d.-]/g, '');
-      const parsed = parseFloat(cleaned);
-      return isNaN(parsed) ? null : parsed;
-    }
-    return null;
-  }
-  
-  private parseWKTPoint(wktString: string): { lat: number; lng: number } | null {
-    try {
-      // Parse WKT POINT format: "POINT (-73.955 40.779)" or "POINT(-73.955 40.779)"
-      const match = wktString.match(/POINT\s*\(\s*([\d.-]+)\s+([\d.-]+)\s*\)/i);
-      if (match) {
-        const lng = parseFloat(match[1]);
-        const lat = parseFloat(match[2]);
-        if (!isNaN(lat) && !isNaN(lng) && lat !== 0 && lng !== 0) {
-          return { lat, lng };
-        }
-      }
-    } catch (error) {
-      console.error('[SubwayService] Error parsing WKT:', error);
-    }
-    return null;
-  }
-  
-  private parseCoordinateString(coordString: string): { lat: number; lng: number } | null {
-    try {
-      // Try to parse various coordinate string formats:
-      // "40.779,-73.955" or "40.779, -73.955" or "lat:40.779,lng:-73.955"
-      
-      // Remove common prefixes and clean
-      let cleaned = coordString.replace(/[^\d.,-]/g, '');
-      
-      // Split by comma and try to get two numbers
-      const parts = cleaned.split(',').map(p => p.trim());
-      if (parts.length === 2) {
-        const num1 = parseFloat(parts[0]);
-        const num2 = parseFloat(parts[1]);
-        
-        if (!isNaN(num1) && !isNaN(num2) && num1 !== 0 && num2 !== 0) {
-          // Determine which is lat and which is lng based on typical NYC ranges
-          // NYC latitude: ~40.4 to 41.0, longitude: ~-74.3 to -73.7
-          if (num1 > 40 && num1 < 41 && num2 < -73 && num2 > -75) {
-            return { lat: num1, lng: num2 };
-          } else if (num2 > 40 && num2 < 41 && num1 < -73 && num1 > -75) {
-            return { lat: num2, lng: num1 };
-          }
-        }
-      }
-    } catch (error) {
-      console.error('[SubwayService] Error parsing coordinate string:', error);
-    }
-    return null;
-  }
-
   private async loadFallbackStations(): Promise<void> {
     // Comprehensive NYC subway stations including Upper East Side
     const majorStations: InsertSubwayStation[] = [
@@ -513,6 +258,7 @@ export class SubwayProximityService {
         lat: row.lat as number,
         lng: row.lng as number,
         lines: row.lines as string,
+        expressLines: (row.express_lines as string) || "[]",
         borough: row.borough as string,
         lastUpdated: row.last_updated as Date,
         distance: parseFloat(row.distance as string)
@@ -536,29 +282,101 @@ export class SubwayProximityService {
     }
   }
 
-  private calculateScoreFromDistance(distanceInMiles: number): number {
-    // NYC-specific scoring based on walking distance to subway
-    // 0.25 miles (4-5 blocks) or less = excellent (90-100)
-    // 0.5 miles (8-10 blocks) = good (70-89) 
-    // 1 mile = fair (40-69)
-    // 1.5+ miles = poor (0-39)
+  /**
+   * Walk to each candidate station, taking the shortest street-network route to any
+   * of its entrances. Stations the network cannot reach are dropped, so the result
+   * is empty when none is walkable; only when no network is loaded does every
+   * station fall back to its straight-line distance.
+   * Results are sorted by walking time, nearest first.
+   */
+  private async findStationWalks(lat: number, lng: number, stations: Array<SubwayStation & { distance: number }>): Promise<WalkingAccess[]> {
+    const straightLine: WalkingAccess[] = stations.map(station => ({
+      station,
+      walkMiles: station.distance,
+      walkMinutes: (station.distance / WALKING_SPEED_MPH) * 60,
+      routing: "straight_line" as const
+    }));
+
+    try {
+      const entrances = await db.select()
+        .from(subwayStationEntrances)
+        .where(inArray(subwayStationEntrances.stationId, stations.map(station => station.id)));
+
+      const stationByTarget = new Map<string, SubwayStation & { distance: number }>();
+      const targets: WalkTarget[] = [];
+
+      for (const station of stations) {
+        const stationEntrances = entrances.filter(entrance => entrance.stationId === station.id);
+        // Stations without entrance records are routed to the station centroid
+        const points = stationEntrances.length > 0
+          ? stationEntrances.map(entrance => ({ id: entrance.id, lat: entrance.lat, lng: entrance.lng }))
+          : [{ id: `station:${station.id}`, lat: station.lat, lng: station.lng }];
+
+        for (const point of points) {
+          stationByTarget.set(point.id, station);
+          targets.push(point);
+        }
+      }
+
+      // Allow generous detours around rivers and rail yards before giving up on routing
+      const maxMiles = Math.max(2.0, stations[0].distance * 3);
+      const routes = await StreetNetworkService.getInstance().walkingRoutes(lat, lng, targets, maxMiles);
+
+      if (!routes) {
+        return straightLine;
+      }
+
+      const walkByStation = new Map<string, WalkingAccess>();
+      for (const route of Array.from(routes.values())) {
+        const station = stationByTarget.get(route.id)!;
+        const current = walkByStation.get(station.id);
+        if (!current || route.minutes < current.walkMinutes) {
+          walkByStation.set(station.id, {
+            station,
+            walkMiles: route.distanceMiles,
+            walkMinutes: route.minutes,
+            routing: "street_network"
+          });
+        }
+      }
+
+      const walks = Array.from(walkByStation.values()).sort((a, b) => a.walkMinutes - b.walkMinutes);
+      if (walks.length === 0) {
+        return [];
+      }
+      console.log(`[SubwayService] Shortest walk: ${walks[0].station.name} at ${walks[0].walkMiles.toFixed(2)} miles (${walks[0].station.distance.toFixed(2)} miles straight-line)`);
+      return walks;
+
+    } catch (error) {
+      console.error("[SubwayService] Street network routing failed, using straight-line distance:", error);
+      return straightLine;
+    }
+  }
+
+  private calculateScoreFromWalkTime(walkMinutes: number): number {
+    // NYC-specific scoring based on walking time to the subway
+    // 5 minutes or less = excellent (90-100)
+    // 10 minutes = good (70-89)
+    // 20 minutes = fair (40-69)
+    // 30+ minutes = poor (0-39)
     
-    if (distanceInMiles <= 0.25) {
-      return Math.round(90 + (0.25 - distanceInMiles) * 40); // 90-100
-    } else if (distanceInMiles <= 0.5) {
-      return Math.round(70 + (0.5 - distanceInMiles) * 80); // 70-89
-    } else if (distanceInMiles <= 1.0) {
-      return Math.round(40 + (1.0 - distanceInMiles) * 60); // 40-69
-    } else if (distanceInMiles <= 1.5) {
-      return Math.round(10 + (1.5 - distanceInMiles) * 60); // 10-39
+    if (walkMinutes <= 5) {
+      return Math.round(90 + (5 - walkMinutes) * 2); // 90-100
+    } else if (walkMinutes <= 10) {
+      return Math.round(70 + (10 - walkMinutes) * 4); // 70-89
+    } else if (walkMinutes <= 20) {
+      return Math.round(40 + (20 - walkMinutes) * 3); // 40-69
+    } else if (walkMinutes <= 30) {
+      return Math.round(10 + (30 - walkMinutes) * 3); // 10-39
     } else {
-      return Math.max(0, Math.round(10 - (distanceInMiles - 1.5) * 5)); // 0-10
+      return Math.max(0, Math.round(10 - (walkMinutes - 30) * 0.25)); // 0-10
     }
   }
 
-  private generateExplanation(station: SubwayStation & { distance: number }, distance: number, score: number): string {
-    const walkingTime = Math.round(distance * 20); // ~20 minutes per mile walking
-    const blocks = Math.round(distance * 20); // ~20 blocks per mile in Manhattan
+  private generateExplanation(access: WalkingAccess, score: number, transit?: TransitQualityResult): string {
+    const { station, walkMiles } = access;
+    const walkingTime = Math.round(access.walkMinutes);
+    const blocks = Math.round(walkMiles * 20); // ~20 blocks per mile in Manhattan
     
     let quality = "poor";
     if (score >= 90) quality = "excellent";
@@ -568,6 +386,26 @@ export class SubwayProximityService {
     const lines = JSON.parse(station.lines || '[]');
     const linesText = Array.isArray(lines) ? lines.join(', ') : 'unknown lines';
     
-    return `${quality} subway access: ${station.name} (${linesText}) is ${distance.toFixed(2)} miles away (~${walkingTime} min walk, ~${blocks} blocks)`;
+    let explanation: string;
+    if (access.routing === "straight_line") {
+      explanation = `${quality} subway access: ${station.name} (${linesText}) is ${walkMiles.toFixed(2)} miles away (~${walkingTime} min walk, ~${blocks} blocks)`;
+    } else {
+      explanation = `${quality} subway access: ${station.name} (${linesText}) is a ~${walkingTime} min walk via the street network (${walkMiles.toFixed(2)} miles, ~${blocks} blocks)`;
+      
+      // Call out detours caused by rivers, highways or rail yards
+      if (station.distance > 0 && walkMiles / station.distance >= 1.5) {
+        explanation += `; the route is ${(walkMiles / station.distance).toFixed(1)}x the ${station.distance.toFixed(2)} mile straight-line distance`;
+      }
+    }
+    
+    if (transit) {
+      explanation += `. ${transit.linesInRange.length} lines within a ${WALKING_RANGE_MINUTES} min walk`;
+      explanation += transit.nearestExpressStation
+        ? `, express ${transit.expressLinesInRange.join(', ')} service at ${transit.nearestExpressStation}`
+        : ', no express stops nearby';
+      explanation += `; ${transit.cbdStationsReachable} of ${transit.cbdStationsTotal} Manhattan CBD stations within ${transit.maxTransfers} transfer${transit.maxTransfers === 1 ? '' : 's'}`;
+    }
+    
+    return explanation;
   }
-}
\ No newline at end of file
+}
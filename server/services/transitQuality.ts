@@ -0,0 +1,312 @@
+import { db } from "../db";
+import { subwayStations, SubwayStation } from "../../shared/schema";
+import { haversineMiles, pointInRing } from "../utils/geo";
+
+export interface StationWalk {
+  station: SubwayStation;
+  walkMinutes: number;
+}
+
+export interface TransitQualityComponents {
+  proximity: number; // Walk time to the nearest station
+  lineCoverage: number; // Distinct lines within walking range
+  expressService: number; // Walk time to the nearest express stop
+  cbdReach: number; // Share of Manhattan CBD stations reachable within maxTransfers
+}
+
+export interface TransitQualityResult {
+  score: number;
+  components: TransitQualityComponents;
+  weights: TransitQualityComponents;
+  stationsInRange: number;
+  linesInRange: string[];
+  expressLinesInRange: string[];
+  nearestExpressStation: string | null;
+  cbdStationsReachable: number;
+  cbdStationsTotal: number;
+  maxTransfers: number;
+}
+
+interface TransitNetwork {
+  stationsByLine: Map<string, string[]>;
+  linesByStation: Map<string, string[]>;
+  transferNeighbors: Map<string, string[]>;
+  cbdStations: Set<string>;
+  loadedAt: number;
+}
+
+const COMPONENT_WEIGHTS: TransitQualityComponents = {
+  proximity: 0.40,
+  lineCoverage: 0.20,
+  expressService: 0.15,
+  cbdReach: 0.25
+};
+
+// Stations considered "within walking range" of an address
+export const WALKING_RANGE_MINUTES = 15;
+
+// Separate station complexes close enough to count as a transfer (e.g. Times Sq / Port Authority)
+const TRANSFER_WALK_MILES = 0.15;
+
+// Manhattan Central Business District: Manhattan south of 60th Street ([lng, lat] ring)
+const MANHATTAN_CBD: number[][] = [
+  [-74.0170, 40.6990], [-74.0200, 40.7080], [-74.0150, 40.7200], [-74.0130, 40.7300],
+  [-74.0110, 40.7400], [-74.0090, 40.7500], [-74.0050, 40.7580], [-73.9990, 40.7660],
+  [-73.9935, 40.7735], [-73.9580, 40.7595], [-73.9680, 40.7460], [-73.9710, 40.7430],
+  [-73.9740, 40.7350], [-73.9730, 40.7290], [-73.9740, 40.7190], [-73.9780, 40.7110],
+  [-73.9990, 40.7075], [-74.0030, 40.7060], [-74.0170, 40.6990]
+];
+
+/**
+ * Transit quality beyond raw proximity: how many lines are within walking range,
+ * whether express service stops nearby, and how much of the Manhattan CBD can
+ * be reached without too many transfers.
+ */
+export class TransitQualityService {
+  private static instance: TransitQualityService;
+  private network: TransitNetwork | null = null;
+  private cacheExpiry: number = 24 * 60 * 60 * 1000; // 24 hours
+
+  static getInstance(): TransitQualityService {
+    if (!TransitQualityService.instance) {
+      TransitQualityService.instance = new TransitQualityService();
+    }
+    return TransitQualityService.instance;
+  }
+
+  /**
+   * Number of transfers allowed when counting reachable CBD stations
+   */
+  static maxTransfers(): number {
+    const configured = parseInt(process.env.TRANSIT_MAX_TRANSFERS || "", 10);
+    return isNaN(configured) || configured < 0 ? 1 : configured;
+  }
+
+  /**
+   * Drop the cached line network so it is rebuilt from the station table
+   */
+  invalidate(): void {
+    this.network = null;
+  }
+
+  /**
+   * Score transit quality from the walk times to nearby stations (sorted nearest first)
+   * and the proximity score already computed for the nearest station.
+   */
+  async evaluate(walks: StationWalk[], proximityScore: number): Promise<TransitQualityResult> {
+    const network = await this.ensureNetwork();
+    const maxTransfers = TransitQualityService.maxTransfers();
+
+    // The nearest station always counts, even when it is beyond walking range
+    const inRange = walks.filter((walk, index) => index === 0 || walk.walkMinutes <= WALKING_RANGE_MINUTES);
+
+    const lines = new Set<string>();
+    const expressLines = new Set<string>();
+    let nearestExpress: StationWalk | null = null;
+
+    for (const walk of inRange) {
+      this.parseLines(walk.station.lines).forEach(line => lines.add(line));
+
+      const stationExpress = this.parseLines(walk.station.expressLines);
+      stationExpress.forEach(line => expressLines.add(line));
+      if (stationExpress.length > 0 && (!nearestExpress || walk.walkMinutes < nearestExpress.walkMinutes)) {
+        nearestExpress = walk;
+      }
+    }
+
+    const reachable = this.reachableCbdStations(network, inRange.map(walk => walk.station.id), maxTransfers);
+    const cbdTotal = network.cbdStations.size;
+
+    const components: TransitQualityComponents = {
+      proximity: proximityScore,
+      lineCoverage: this.calculateLineCoverageScore(lines.size),
+      expressService: nearestExpress ? this.calculateExpressScore(nearestExpress.walkMinutes) : 0,
+      cbdReach: cbdTotal > 0 ? Math.round((reachable / cbdTotal) * 100) : 0
+    };
+
+    const score = Math.round(
+      components.proximity * COMPONENT_WEIGHTS.proximity +
+      components.lineCoverage * COMPONENT_WEIGHTS.lineCoverage +
+      components.expressService * COMPONENT_WEIGHTS.expressService +
+      components.cbdReach * COMPONENT_WEIGHTS.cbdReach
+    );
+
+    console.log(`[TransitQuality] ${inRange.length} stations in range, ${lines.size} lines, ${expressLines.size} express, ${reachable}/${cbdTotal} CBD stations within ${maxTransfers} transfers`);
+
+    return {
+      score,
+      components,
+      weights: COMPONENT_WEIGHTS,
+      stationsInRange: inRange.length,
+      linesInRange: this.sortLines(Array.from(lines)),
+      expressLinesInRange: this.sortLines(Array.from(expressLines)),
+      nearestExpressStation: nearestExpress ? nearestExpress.station.name : null,
+      cbdStationsReachable: reachable,
+      cbdStationsTotal: cbdTotal,
+      maxTransfers
+    };
+  }
+
+  private calculateLineCoverageScore(lineCount: number): number {
+    // 1 line = 51, 2 = 63, 4 = 79, 9+ = 100
+    if (lineCount === 0) return 0;
+    return Math.min(100, Math.round(30 + 70 * Math.log10(1 + lineCount)));
+  }
+
+  private calculateExpressScore(walkMinutes: number): number {
+    // Full credit within 5 minutes, tapering to 40 at the edge of walking range
+    if (walkMinutes <= 5) return 100;
+    return Math.max(40, Math.round(100 - (walkMinutes - 5) * 6));
+  }
+
+  /**
+   * Breadth-first search over lines: lines serving the origin stations need no
+   * transfer, lines serving any station reached on those need one, and so on.
+   */
+  private reachableCbdStations(network: TransitNetwork, originStations: string[], maxTransfers: number): number {
+    const seenLines = new Set<string>();
+    let frontier: string[] = [];
+    for (const stationId of originStations) {
+      for (const line of network.linesByStation.get(stationId) || []) {
+        if (!seenLines.has(line)) {
+          seenLines.add(line);
+          frontier.push(line);
+        }
+      }
+    }
+
+    const reached = new Set<string>();
+    for (let transfers = 0; transfers <= maxTransfers && frontier.length > 0; transfers++) {
+      const nextFrontier: string[] = [];
+
+      for (const line of frontier) {
+        for (const stationId of network.stationsByLine.get(line) || []) {
+          if (reached.has(stationId)) continue;
+          reached.add(stationId);
+
+          if (transfers === maxTransfers) continue;
+          const transferStations = [stationId, ...(network.transferNeighbors.get(stationId) || [])];
+          for (const transferStation of transferStations) {
+            for (const transferLine of network.linesByStation.get(transferStation) || []) {
+              if (!seenLines.has(transferLine)) {
+                seenLines.add(transferLine);
+                nextFrontier.push(transferLine);
+              }
+            }
+          }
+        }
+      }
+
+      frontier = nextFrontier;
+    }
+
+    let count = 0;
+    reached.forEach(stationId => {
+      if (network.cbdStations.has(stationId)) count++;
+    });
+    return count;
+  }
+
+  private async ensureNetwork(): Promise<TransitNetwork> {
+    if (this.network && Date.now() - this.network.loadedAt < this.cacheExpiry) {
+      return this.network;
+    }
+
+    const stations = await db.select().from(subwayStations);
+    this.network = this.buildNetwork(stations);
+    console.log(`[TransitQuality] Built line network from ${stations.length} stations (${this.network.stationsByLine.size} lines, ${this.network.cbdStations.size} CBD stations)`);
+    return this.network;
+  }
+
+  private buildNetwork(stations: SubwayStation[]): TransitNetwork {
+    const stationsByLine = new Map<string, string[]>();
+    const linesByStation = new Map<string, string[]>();
+    const cbdStations = new Set<string>();
+    const shuttleStations: SubwayStation[] = [];
+
+    for (const station of stations) {
+      if (pointInRing(station.lat, station.lng, MANHATTAN_CBD)) {
+        cbdStations.add(station.id);
+      }
+
+      for (const line of this.parseLines(station.lines)) {
+        if (line === "S") {
+          shuttleStations.push(station);
+          continue;
+        }
+        this.addServedStation(stationsByLine, linesByStation, line, station.id);
+      }
+    }
+
+    // The 42 St, Franklin Av and Rockaway Park shuttles share the "S" bullet;
+    // split them so riding one shuttle does not teleport to another
+    this.clusterStations(shuttleStations, 2.0).forEach((cluster, index) => {
+      for (const station of cluster) {
+        this.addServedStation(stationsByLine, linesByStation, `S#${index + 1}`, station.id);
+      }
+    });
+
+    const transferNeighbors = new Map<string, string[]>();
+    for (let i = 0; i < stations.length; i++) {
+      for (let j = i + 1; j < stations.length; j++) {
+        const a = stations[i];
+        const b = stations[j];
+        if (haversineMiles(a.lat, a.lng, b.lat, b.lng) > TRANSFER_WALK_MILES) continue;
+        transferNeighbors.set(a.id, [...(transferNeighbors.get(a.id) || []), b.id]);
+        transferNeighbors.set(b.id, [...(transferNeighbors.get(b.id) || []), a.id]);
+      }
+    }
+
+    return { stationsByLine, linesByStation, transferNeighbors, cbdStations, loadedAt: Date.now() };
+  }
+
+  private addServedStation(
+    stationsByLine: Map<string, string[]>,
+    linesByStation: Map<string, string[]>,
+    line: string,
+    stationId: string
+  ): void {
+    stationsByLine.set(line, [...(stationsByLine.get(line) || []), stationId]);
+    linesByStation.set(stationId, [...(linesByStation.get(stationId) || []), line]);
+  }
+
+  /**
+   * Single-link clustering: stations chained together by hops of at most maxMiles
+   */
+  private clusterStations(stations: SubwayStation[], maxMiles: number): SubwayStation[][] {
+    const clusters: SubwayStation[][] = [];
+    const assigned = new Set<string>();
+
+    for (const seed of stations) {
+      if (assigned.has(seed.id)) continue;
+      const cluster = [seed];
+      assigned.add(seed.id);
+
+      for (let i = 0; i < cluster.length; i++) {
+        for (const candidate of stations) {
+          if (assigned.has(candidate.id)) continue;
+          if (haversineMiles(cluster[i].lat, cluster[i].lng, candidate.lat, candidate.lng) <= maxMiles) {
+            cluster.push(candidate);
+            assigned.add(candidate.id);
+          }
+        }
+      }
+      clusters.push(cluster);
+    }
+
+    return clusters;
+  }
+
+  private parseLines(linesJson: string | null): string[] {
+    try {
+      const lines = JSON.parse(linesJson || "[]");
+      return Array.isArray(lines) ? lines : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private sortLines(lines: string[]): string[] {
+    return lines.sort((a, b) => a.localeCompare(b, "en", { numeric: true }));
+  }
+}
@@ -0,0 +1,467 @@
+import { openGtfsFeed, GtfsFeed } from "../utils/gtfs";
+import { haversineMiles } from "../utils/geo";
+import { MinHeap } from "../utils/minHeap";
+import { GtfsStationLoader } from "./gtfsStationLoader";
+import { StreetNetworkService, WalkTarget, WALKING_SPEED_MPH } from "./streetNetwork";
+
+export interface CommuteLeg {
+  mode: "walk" | "subway";
+  line?: string;
+  from: string;
+  to: string;
+  minutes: number;
+  stops?: number;
+}
+
+export interface TransitItinerary {
+  totalMinutes: number;
+  walkMinutes: number; // Access, egress and transfer walks
+  waitMinutes: number; // Expected platform waits (half the headway per boarding)
+  rideMinutes: number;
+  transfers: number;
+  legs: CommuteLeg[];
+}
+
+interface TransitEdge {
+  to: number;
+  minutes: number;
+  kind: "board" | "ride" | "alight" | "transfer";
+}
+
+interface TransitGraph {
+  stationIds: string[];
+  stationNames: string[];
+  stationLat: number[];
+  stationLng: number[];
+  nodeStation: number[]; // Station index for every node (station and ride nodes)
+  nodeLine: Array<string | null>; // Line for ride nodes, null for station nodes
+  edges: TransitEdge[][];
+}
+
+// Schedules are sampled over the weekday morning peak
+const PEAK_START_SECONDS = 7 * 3600;
+const PEAK_END_SECONDS = 10 * 3600;
+const PEAK_WINDOW_MINUTES = (PEAK_END_SECONDS - PEAK_START_SECONDS) / 60;
+
+// Expected wait is half the headway, capped for lines with sparse peak service
+const MAX_WAIT_MINUTES = 15;
+
+// Walking between stations and to/from the street
+const ACCESS_RADIUS_MILES = 1.0;
+const TRANSFER_WALK_MILES = 0.15;
+const MAX_DIRECT_WALK_MILES = 2.0;
+
+// Streets are not straight lines; used when no street network is loaded
+const WALK_DETOUR_FACTOR = 1.25;
+
+/**
+ * Frequency-based transit router built from the locally stored GTFS schedule.
+ * Each line/direction is modelled by its peak headway and median hop times,
+ * which is enough to estimate door-to-door commute time (walk + wait + ride +
+ * transfers) without a full timetable search.
+ */
+export class TransitRouterService {
+  private static instance: TransitRouterService;
+  private loading: Promise<TransitGraph | null> | null = null;
+
+  static getInstance(): TransitRouterService {
+    if (!TransitRouterService.instance) {
+      TransitRouterService.instance = new TransitRouterService();
+    }
+    return TransitRouterService.instance;
+  }
+
+  /**
+   * Rebuild the transit graph from a feed (e.g. after a new GTFS release)
+   */
+  async reload(feedPath: string = GtfsStationLoader.defaultFeedPath()): Promise<boolean> {
+    this.loading = Promise.resolve(this.buildGraph(feedPath));
+    return (await this.loading) !== null;
+  }
+
+  /**
+   * Fastest door-to-door itinerary between two points during the weekday AM peak.
+   * Returns null when no GTFS feed is available.
+   */
+  async planTrip(fromLat: number, fromLng: number, toLat: number, toLng: number): Promise<TransitItinerary | null> {
+    const graph = await this.ensureGraph();
+    if (!graph) {
+      return null;
+    }
+
+    const [access, egress] = await Promise.all([
+      this.walksToStations(graph, fromLat, fromLng),
+      this.walksToStations(graph, toLat, toLng)
+    ]);
+
+    // Multi-source Dijkstra seeded with the walk to every nearby station
+    const nodeCount = graph.edges.length;
+    const minutes: number[] = new Array(nodeCount).fill(Infinity);
+    const previous: number[] = new Array(nodeCount).fill(-1);
+    const previousEdge: Array<TransitEdge | null> = new Array(nodeCount).fill(null);
+    const heap = new MinHeap();
+
+    access.forEach((walkMinutes, station) => {
+      minutes[station] = walkMinutes;
+      heap.push(station, walkMinutes);
+    });
+
+    while (heap.size() > 0) {
+      const { node, priority } = heap.pop()!;
+      if (priority > minutes[node]) continue;
+
+      for (const edge of graph.edges[node]) {
+        const next = priority + edge.minutes;
+        if (next < minutes[edge.to]) {
+          minutes[edge.to] = next;
+          previous[edge.to] = node;
+          previousEdge[edge.to] = edge;
+          heap.push(edge.to, next);
+        }
+      }
+    }
+
+    let bestStation = -1;
+    let bestMinutes = Infinity;
+    egress.forEach((walkMinutes, station) => {
+      if (minutes[station] + walkMinutes < bestMinutes) {
+        bestStation = station;
+        bestMinutes = minutes[station] + walkMinutes;
+      }
+    });
+
+    const directWalk = await this.directWalkMinutes(fromLat, fromLng, toLat, toLng);
+    if (directWalk !== null && directWalk <= bestMinutes) {
+      return {
+        totalMinutes: Math.round(directWalk),
+        walkMinutes: Math.round(directWalk),
+        waitMinutes: 0,
+        rideMinutes: 0,
+        transfers: 0,
+        legs: [{ mode: "walk", from: "Origin", to: "Destination", minutes: Math.round(directWalk) }]
+      };
+    }
+
+    if (bestStation === -1) {
+      console.log(`[TransitRouter] No transit route between ${fromLat}, ${fromLng} and ${toLat}, ${toLng}`);
+      return null;
+    }
+
+    return this.buildItinerary(graph, bestStation, previous, previousEdge, access, egress.get(bestStation)!);
+  }
+
+  private buildItinerary(
+    graph: TransitGraph,
+    lastStation: number,
+    previous: number[],
+    previousEdge: Array<TransitEdge | null>,
+    access: Map<number, number>,
+    egressMinutes: number
+  ): TransitItinerary {
+    // Walk the predecessor chain back to the first station
+    const path: Array<{ node: number; edge: TransitEdge }> = [];
+    let node = lastStation;
+    while (previous[node] !== -1) {
+      path.unshift({ node, edge: previousEdge[node]! });
+      node = previous[node];
+    }
+    const firstStation = node;
+
+    const accessMinutes = access.get(firstStation) || 0;
+    const legs: CommuteLeg[] = [{
+      mode: "walk",
+      from: "Origin",
+      to: graph.stationNames[firstStation],
+      minutes: Math.round(accessMinutes)
+    }];
+
+    let walkMinutes = accessMinutes + egressMinutes;
+    let waitMinutes = 0;
+    let rideMinutes = 0;
+    let boardings = 0;
+    let rideLeg: CommuteLeg | null = null;
+
+    for (let i = 0; i < path.length; i++) {
+      const { node: current, edge } = path[i];
+      const from = i === 0 ? firstStation : path[i - 1].node;
+
+      if (edge.kind === "board") {
+        waitMinutes += edge.minutes;
+        boardings++;
+        rideLeg = {
+          mode: "subway",
+          line: graph.nodeLine[current]!,
+          from: graph.stationNames[graph.nodeStation[current]],
+          to: graph.stationNames[graph.nodeStation[current]],
+          minutes: 0,
+          stops: 0
+        };
+      } else if (edge.kind === "ride" && rideLeg) {
+        rideMinutes += edge.minutes;
+        rideLeg.minutes += edge.minutes;
+        rideLeg.stops = (rideLeg.stops || 0) + 1;
+        rideLeg.to = graph.stationNames[graph.nodeStation[current]];
+      } else if (edge.kind === "alight" && rideLeg) {
+        rideLeg.minutes = Math.round(rideLeg.minutes);
+        legs.push(rideLeg);
+        rideLeg = null;
+      } else if (edge.kind === "transfer") {
+        walkMinutes += edge.minutes;
+        legs.push({
+          mode: "walk",
+          from: graph.stationNames[graph.nodeStation[from]],
+          to: graph.stationNames[graph.nodeStation[current]],
+          minutes: Math.round(edge.minutes)
+        });
+      }
+    }
+
+    legs.push({
+      mode: "walk",
+      from: graph.stationNames[lastStation],
+      to: "Destination",
+      minutes: Math.round(egressMinutes)
+    });
+
+    return {
+      totalMinutes: Math.round(walkMinutes + waitMinutes + rideMinutes),
+      walkMinutes: Math.round(walkMinutes),
+      waitMinutes: Math.round(waitMinutes),
+      rideMinutes: Math.round(rideMinutes),
+      transfers: Math.max(0, boardings - 1),
+      legs
+    };
+  }
+
+  /**
+   * Walking minutes from a point to every station within the access radius,
+   * keyed by station node. Uses the street network when it is loaded.
+   */
+  private async walksToStations(graph: TransitGraph, lat: number, lng: number): Promise<Map<number, number>> {
+    const walks = new Map<number, number>();
+    const targets: WalkTarget[] = [];
+
+    for (let station = 0; station < graph.stationIds.length; station++) {
+      const miles = haversineMiles(lat, lng, graph.stationLat[station], graph.stationLng[station]);
+      if (miles > ACCESS_RADIUS_MILES) continue;
+      walks.set(station, (miles * WALK_DETOUR_FACTOR / WALKING_SPEED_MPH) * 60);
+      targets.push({ id: String(station), lat: graph.stationLat[station], lng: graph.stationLng[station] });
+    }
+
+    const routes = await StreetNetworkService.getInstance().walkingRoutes(lat, lng, targets, ACCESS_RADIUS_MILES * 2);
+    if (routes) {
+      walks.clear();
+      routes.forEach(route => walks.set(parseInt(route.id, 10), route.minutes));
+    }
+
+    return walks;
+  }
+
+  private async directWalkMinutes(fromLat: number, fromLng: number, toLat: number, toLng: number): Promise<number | null> {
+    const miles = haversineMiles(fromLat, fromLng, toLat, toLng);
+    if (miles > MAX_DIRECT_WALK_MILES) return null;
+
+    const routes = await StreetNetworkService.getInstance().walkingRoutes(
+      fromLat, fromLng, [{ id: "destination", lat: toLat, lng: toLng }], MAX_DIRECT_WALK_MILES * WALK_DETOUR_FACTOR
+    );
+    if (routes) {
+      const route = routes.get("destination");
+      return route ? route.minutes : null;
+    }
+    return (miles * WALK_DETOUR_FACTOR / WALKING_SPEED_MPH) * 60;
+  }
+
+  private ensureGraph(): Promise<TransitGraph | null> {
+    if (!this.loading) {
+      this.loading = Promise.resolve(this.buildGraph(GtfsStationLoader.defaultFeedPath()));
+    }
+    return this.loading;
+  }
+
+  private buildGraph(feedPath: string): TransitGraph | null {
+    try {
+      const startTime = Date.now();
+      const feed = openGtfsFeed(feedPath);
+
+      const weekdayServices = this.readWeekdayServices(feed);
+      const lineByRoute = new Map<string, string>();
+      feed.eachRow("routes", (route) => {
+        lineByRoute.set(route.route_id, (route.route_short_name || route.route_id).trim().toUpperCase());
+      });
+
+      // Parent stations and the platform -> station mapping
+      const graph: TransitGraph = {
+        stationIds: [], stationNames: [], stationLat: [], stationLng: [],
+        nodeStation: [], nodeLine: [], edges: []
+      };
+      const stationIndex = new Map<string, number>();
+      const parentOf = new Map<string, string>();
+
+      feed.eachRow("stops", (stop) => {
+        const locationType = stop.location_type || "0";
+        if (locationType === "1" || (locationType === "0" && !stop.parent_station)) {
+          const lat = parseFloat(stop.stop_lat);
+          const lng = parseFloat(stop.stop_lon);
+          if (isNaN(lat) || isNaN(lng)) return;
+
+          const index = this.addNode(graph, graph.stationIds.length, null);
+          stationIndex.set(stop.stop_id, index);
+          graph.stationIds.push(stop.stop_id);
+          graph.stationNames.push(stop.stop_name.trim());
+          graph.stationLat.push(lat);
+          graph.stationLng.push(lng);
+          parentOf.set(stop.stop_id, stop.stop_id);
+        } else if (locationType === "0") {
+          parentOf.set(stop.stop_id, stop.parent_station);
+        }
+      });
+
+      const tripInfo = new Map<string, { line: string; direction: string }>();
+      feed.eachRow("trips", (trip) => {
+        const line = lineByRoute.get(trip.route_id);
+        if (!line || (weekdayServices && !weekdayServices.has(trip.service_id))) return;
+        tripInfo.set(trip.trip_id, { line, direction: trip.direction_id || "0" });
+      });
+
+      const stopsByTrip = new Map<string, Array<{ sequence: number; station: number; arrival: number; departure: number }>>();
+      feed.eachRow("stop_times", (stopTime) => {
+        if (!tripInfo.has(stopTime.trip_id)) return;
+        const station = stationIndex.get(parentOf.get(stopTime.stop_id) || "");
+        if (station === undefined) return;
+
+        let stops = stopsByTrip.get(stopTime.trip_id);
+        if (!stops) {
+          stops = [];
+          stopsByTrip.set(stopTime.trip_id, stops);
+        }
+        const arrival = this.parseGtfsTime(stopTime.arrival_time || stopTime.departure_time);
+        const departure = this.parseGtfsTime(stopTime.departure_time || stopTime.arrival_time);
+        stops.push({ sequence: parseInt(stopTime.stop_sequence, 10), station, arrival, departure });
+      });
+
+      // Peak departures per line/direction/station and ride times per hop
+      const departures = new Map<string, number>();
+      const hopMinutes = new Map<string, number[]>();
+      stopsByTrip.forEach((stops, tripId) => {
+        const { line, direction } = tripInfo.get(tripId)!;
+        stops.sort((a, b) => a.sequence - b.sequence);
+
+        for (let i = 1; i < stops.length; i++) {
+          const from = stops[i - 1];
+          const to = stops[i];
+          if (from.station === to.station || from.departure < PEAK_START_SECONDS || from.departure >= PEAK_END_SECONDS) continue;
+
+          const departureKey = `${line}|${direction}|${from.station}`;
+          departures.set(departureKey, (departures.get(departureKey) || 0) + 1);
+
+          const hopKey = `${departureKey}|${to.station}`;
+          const samples = hopMinutes.get(hopKey) || [];
+          samples.push(Math.max(0.5, (to.arrival - from.departure) / 60));
+          hopMinutes.set(hopKey, samples);
+        }
+      });
+
+      // One ride node per line/direction/station, entered by boarding and left by alighting
+      const rideNodes = new Map<string, number>();
+      const rideNode = (line: string, direction: string, station: number): number => {
+        const key = `${line}|${direction}|${station}`;
+        let node = rideNodes.get(key);
+        if (node === undefined) {
+          node = this.addNode(graph, station, line);
+          rideNodes.set(key, node);
+          graph.edges[node].push({ to: station, minutes: 0, kind: "alight" });
+        }
+        return node;
+      };
+
+      hopMinutes.forEach((samples, hopKey) => {
+        const [line, direction, from, to] = hopKey.split("|");
+        const fromNode = rideNode(line, direction, parseInt(from, 10));
+        const toNode = rideNode(line, direction, parseInt(to, 10));
+        graph.edges[fromNode].push({ to: toNode, minutes: this.median(samples), kind: "ride" });
+      });
+
+      departures.forEach((count, departureKey) => {
+        const [line, direction, station] = departureKey.split("|");
+        const stationNode = parseInt(station, 10);
+        const wait = Math.min(MAX_WAIT_MINUTES, (PEAK_WINDOW_MINUTES / count) / 2);
+        graph.edges[stationNode].push({ to: rideNode(line, direction, stationNode), minutes: wait, kind: "board" });
+      });
+
+      this.addTransfers(graph, feed, stationIndex, parentOf);
+
+      console.log(`[TransitRouter] Built transit graph from ${feed.source}: ${graph.stationIds.length} stations, ${rideNodes.size} line stops, ${stopsByTrip.size} weekday trips in ${Date.now() - startTime}ms`);
+      return graph;
+
+    } catch (error) {
+      console.log(`[TransitRouter] Transit schedule unavailable (${feedPath}):`, error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  /**
+   * Transfers listed in the feed plus short walks between separate station complexes
+   */
+  private addTransfers(graph: TransitGraph, feed: GtfsFeed, stationIndex: Map<string, number>, parentOf: Map<string, string>): void {
+    const linked = new Set<string>();
+    const link = (from: number, to: number, minutes: number) => {
+      const key = `${from}|${to}`;
+      if (from === to || linked.has(key)) return;
+      linked.add(key);
+      graph.edges[from].push({ to, minutes, kind: "transfer" });
+    };
+
+    if (feed.hasTable("transfers")) {
+      feed.eachRow("transfers", (transfer) => {
+        const from = stationIndex.get(parentOf.get(transfer.from_stop_id) || "");
+        const to = stationIndex.get(parentOf.get(transfer.to_stop_id) || "");
+        if (from === undefined || to === undefined) return;
+        const seconds = parseInt(transfer.min_transfer_time, 10);
+        link(from, to, isNaN(seconds) ? 3 : seconds / 60);
+      });
+    }
+
+    for (let a = 0; a < graph.stationIds.length; a++) {
+      for (let b = a + 1; b < graph.stationIds.length; b++) {
+        const miles = haversineMiles(graph.stationLat[a], graph.stationLng[a], graph.stationLat[b], graph.stationLng[b]);
+        if (miles > TRANSFER_WALK_MILES) continue;
+        const minutes = (miles * WALK_DETOUR_FACTOR / WALKING_SPEED_MPH) * 60;
+        link(a, b, minutes);
+        link(b, a, minutes);
+      }
+    }
+  }
+
+  private readWeekdayServices(feed: GtfsFeed): Set<string> | null {
+    if (!feed.hasTable("calendar")) {
+      return null;
+    }
+
+    // A midweek day is representative of regular weekday service
+    const services = new Set<string>();
+    feed.eachRow("calendar", (service) => {
+      if (service.wednesday === "1") services.add(service.service_id);
+    });
+    return services.size > 0 ? services : null;
+  }
+
+  private addNode(graph: TransitGraph, station: number, line: string | null): number {
+    graph.nodeStation.push(station);
+    graph.nodeLine.push(line);
+    graph.edges.push([]);
+    return graph.edges.length - 1;
+  }
+
+  private parseGtfsTime(value: string): number {
+    // GTFS times may exceed 24:00:00 for trips running past midnight
+    const [hours, minutes, seconds] = (value || "").split(":").map(part => parseInt(part, 10));
+    if (isNaN(hours) || isNaN(minutes)) return -1;
+    return hours * 3600 + minutes * 60 + (seconds || 0);
+  }
+
+  private median(values: number[]): number {
+    const sorted = values.slice().sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+  }
+}
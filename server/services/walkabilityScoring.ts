@@ -1,3 +1,48 @@
+import { and, between } from "drizzle-orm";
+import { db } from "../db";
+import { busStops, citiBikeStations } from "../../shared/schema";
+import { AmenityIndexService } from "./amenityIndex";
+import { AmenityCategory } from "./amenityIndexLoader";
+import { GeographyService } from "./geography";
+import { ImportedTable } from "../utils/database";
+
+interface BusAccess {
+  score: number; // Bus sub-score (0-30) of the transit component
+  radiusMiles: number;
+  stopsWithinRadius: number;
+  routes: string[]; // Distinct routes serving the stops within the radius
+  nearestStops: Array<{ name: string; distanceMiles: number; routes: string[] }>;
+  dataSource: string;
+}
+
+interface BikeShareAccess {
+  score: number; // Bike share sub-score (0-15) of the transit component
+  radiusMiles: number;
+  docksWithinRadius: number; // Citi Bike stations within the radius
+  totalCapacity: number; // Bike docks across those stations
+  nearestDocks: Array<{ name: string; distanceMiles: number; capacity: number | null }>;
+  dataSource: string;
+}
+
+interface AmenityCategoryBreakdown {
+  category: AmenityCategory;
+  weight: number; // Maximum points the category can contribute
+  points: number; // Points earned after distance decay and the per-category cap
+  countWithinHalfMile: number;
+  nearest: { name: string | null; distanceMiles: number } | null;
+}
+
+interface AmenityScore {
+  score: number;
+  breakdown: AmenityCategoryBreakdown[];
+}
+
+interface TransitAccess {
+  score: number;
+  bus: BusAccess;
+  bikeShare: BikeShareAccess;
+}
+
 interface WalkabilityResult {
   score: number;
   explanation: string;
@@ -5,8 +50,37 @@ interface WalkabilityResult {
   amenitiesNearby: number;
   transitAccess: number;
   pedestrianFriendly: number;
+  amenityBreakdown?: AmenityCategoryBreakdown[];
+  busAccess?: BusAccess;
+  bikeShareAccess?: BikeShareAccess;
 }
 
+// Points for the 1st, 2nd, ... nearest amenity in each category. Later items are
+// worth less (twenty bars do not replace a grocery store) and the list length caps
+// how many count at all. The category weight is the sum of its item weights.
+const AMENITY_ITEM_WEIGHTS: Array<{ category: AmenityCategory; items: number[] }> = [
+  { category: "grocery", items: [3] },
+  { category: "convenience", items: [0.5, 0.25] },
+  { category: "dining", items: [0.75, 0.45, 0.25, 0.25, 0.225, 0.225, 0.225, 0.225, 0.2, 0.2] },
+  { category: "coffee", items: [1.25, 0.75] },
+  { category: "parks", items: [1] },
+  { category: "pharmacy", items: [1] },
+  { category: "schools", items: [1] },
+  { category: "fitness", items: [1] },
+  { category: "banks", items: [1] }
+];
+
+// Distance decay: full credit within a 5 minute walk, 12% at a mile, nothing past 1.5 miles
+const AMENITY_FULL_CREDIT_MILES = 0.25;
+const AMENITY_DECAY_MILES = 1.0;
+const AMENITY_DECAY_FLOOR = 0.12;
+const AMENITY_MAX_MILES = 1.5;
+
+// Walking radii for counting nearby bus stops and bike docks
+const BUS_STOP_RADIUS_MILES = 0.25;
+const BIKE_DOCK_RADIUS_MILES = 0.3;
+const NEAREST_LISTED = 3;
+
 interface PlaceSearchResult {
   name: string;
   types: string[];
@@ -17,6 +91,8 @@ interface PlaceSearchResult {
 
 export class WalkabilityService {
   private static instance: WalkabilityService;
+  private stops = new ImportedTable(busStops, "[WalkabilityService]", "data:bus");
+  private docks = new ImportedTable(citiBikeStations, "[WalkabilityService]", "data:citibike");
 
   static getInstance(): WalkabilityService {
     if (!WalkabilityService.instance) {
@@ -37,8 +113,10 @@ export class WalkabilityService {
       ]);
 
       // Extract scores or use defaults for failed calculations
-      const amenitiesScore = scores[0].status === 'fulfilled' ? scores[0].value : 50;
-      const transitScore = scores[1].status === 'fulfilled' ? scores[1].value : 50;
+      const amenities = scores[0].status === 'fulfilled' ? scores[0].value : null;
+      const amenitiesScore = amenities ? amenities.score : 50;
+      const transit = scores[1].status === 'fulfilled' ? scores[1].value : null;
+      const transitScore = transit ? transit.score : 50;
       const pedestrianScore = scores[2].status === 'fulfilled' ? scores[2].value : 50;
 
       // Weighted average: amenities 40%, transit 35%, pedestrian 25%
@@ -50,188 +128,83 @@ export class WalkabilityService {
 
       return {
         score: Math.max(0, Math.min(100, finalScore)),
-        explanation: this.generateExplanation(amenitiesScore, transitScore, pedestrianScore, finalScore),
-        dataSource: "NYC Open Data + OpenStreetMap",
+        explanation: this.generateExplanation(amenitiesScore, transitScore, pedestrianScore, finalScore, amenities?.breakdown),
+        dataSource: "OpenStreetMap amenity index + MTA GTFS + Citi Bike GBFS",
         amenitiesNearby: amenitiesScore,
         transitAccess: transitScore,
-        pedestrianFriendly: pedestrianScore
+        pedestrianFriendly: pedestrianScore,
+        amenityBreakdown: amenities?.breakdown,
+        busAccess: transit?.bus,
+        bikeShareAccess: transit?.bikeShare
       };
 
     } catch (error) {
       console.error("Walkability calculation error:", error);
-      return this.getFallbackScore(lat, lng, address);
+      return await this.getFallbackScore(lat, lng, address);
     }
   }
 
-  private async calculateAmenitiesScore(lat: number, lng: number): Promise<number> {
+  private async calculateAmenitiesScore(lat: number, lng: number): Promise<AmenityScore | null> {
     try {
-      // Search for key amenities using Overpass API (OpenStreetMap)
-      const amenityTypes = [
-        'grocery', 'supermarket', 'convenience',  // Food
-        'restaurant', 'cafe', 'fast_food',       // Dining
-        'pharmacy', 'hospital', 'clinic',        // Healthcare
-        'bank', 'atm', 'post_office',           // Services
-        'school', 'library',                     // Education
-        'park', 'playground'                     // Recreation
-      ];
+      console.log(`[WalkabilityService] Searching for amenities within ${AMENITY_MAX_MILES} miles of ${lat}, ${lng}`);
 
-      let totalAmenities = 0;
-      const searchRadius = 0.75; // Increased to 0.75 miles for better coverage
-      
-      console.log(`[WalkabilityService] Searching for amenities within ${searchRadius} miles of ${lat}, ${lng}`);
+      // Read from the local OpenStreetMap amenity index
+      const nearby = await AmenityIndexService.getInstance().findNearby(
+        lat, lng, AMENITY_MAX_MILES, AMENITY_ITEM_WEIGHTS.map(model => model.category)
+      );
+      if (!nearby) {
+        console.log("[WalkabilityService] Amenity index unavailable, using neutral amenities score");
+        return null;
+      }
 
-      // Use NYC Open Data for businesses and amenities
-      const nyBusinesses = await this.searchNYCBusinesses(lat, lng, searchRadius);
-      console.log(`[WalkabilityService] Found ${nyBusinesses} businesses from NYC Open Data`);
-      totalAmenities += nyBusinesses;
+      let earned = 0;
+      let possible = 0;
+      const breakdown: AmenityCategoryBreakdown[] = [];
+
+      for (const model of AMENITY_ITEM_WEIGHTS) {
+        // Results are sorted nearest first, so the heaviest item weights go to the closest places
+        const inCategory = nearby.filter(amenity => amenity.category === model.category);
+        const weight = model.items.reduce((sum, item) => sum + item, 0);
+        const points = model.items.reduce((sum, item, index) =>
+          index < inCategory.length ? sum + item * this.amenityDistanceDecay(inCategory[index].distanceMiles) : sum, 0);
+
+        earned += points;
+        possible += weight;
+        breakdown.push({
+          category: model.category,
+          weight: Math.round(weight * 100) / 100,
+          points: Math.round(points * 100) / 100,
+          countWithinHalfMile: inCategory.filter(amenity => amenity.distanceMiles <= 0.5).length,
+          nearest: inCategory.length > 0
+            ? { name: inCategory[0].name, distanceMiles: Math.round(inCategory[0].distanceMiles * 100) / 100 }
+            : null
+        });
+      }
 
-      // Use Overpass API for OpenStreetMap data as backup
-      const osmAmenities = await this.searchOSMAmenities(lat, lng, searchRadius, amenityTypes);
-      console.log(`[WalkabilityService] Found ${osmAmenities} amenities from OpenStreetMap`);
-      totalAmenities += osmAmenities;
-      
-      console.log(`[WalkabilityService] Total amenities found: ${totalAmenities}`);
+      const score = Math.round((earned / possible) * 100);
+      console.log(`[WalkabilityService] Amenity score ${score}/100 from ${nearby.length} indexed amenities`);
 
-      // Score based on number of amenities within walking distance
-      // 0-5 amenities: poor (0-30)
-      // 6-15 amenities: fair (31-60)
-      // 16-30 amenities: good (61-85)
-      // 31+ amenities: excellent (86-100)
-      
-      if (totalAmenities <= 5) {
-        return Math.min(30, totalAmenities * 6);
-      } else if (totalAmenities <= 15) {
-        return 31 + ((totalAmenities - 5) * 3);
-      } else if (totalAmenities <= 30) {
-        return 61 + ((totalAmenities - 15) * 1.6);
-      } else {
-        return Math.min(100, 86 + ((totalAmenities - 30) * 0.5));
-      }
+      return { score, breakdown };
 
     } catch (error) {
       console.error("Amenities score calculation error:", error);
-      return 50; // Default neutral score
+      return null;
     }
   }
 
-  private async searchNYCBusinesses(lat: number, lng: number, radiusMiles: number): Promise<number> {
-    try {
-      // Use NYC Open Data for businesses
-      const datasets = [
-        'https://data.cityofnewyork.us/resource/w7w3-xahh.json', // Business Licenses
-        'https://data.cityofnewyork.us/resource/9w7m-hzhe.json'  // Retail Food Stores
-      ];
-
-      let businessCount = 0;
-
-      for (const dataset of datasets) {
-        try {
-          // Fix spatial query syntax for NYC Open Data - try multiple field names
-          const radiusMeters = Math.round(radiusMiles * 1609);
-          
-          // Try different possible location field names
-          const locationFields = ['location', 'the_geom', 'georeference', 'coordinates'];
-          let foundBusinesses = 0;
-          
-          for (const field of locationFields) {
-            try {
-              const query = `$where=within_circle(${field}, ${lat}, ${lng}, ${radiusMeters})`;
-              const url = `${dataset}?${query}&$limit=100`;
-              console.log(`[WalkabilityService] Trying field '${field}' with query: ${url}`);
-              
-              const response = await fetch(url);
-              if (response.ok) {
-                const businesses = await response.json();
-                if (businesses.length > 0) {
-                  foundBusinesses = businesses.length;
-                  businessCount += Math.min(businesses.length, 20); // Cap per dataset
-                  console.log(`[WalkabilityService] Found ${businesses.length} businesses using field '${field}'`);
-                  break; // Use first successful field
-                }
-              } else {
-                console.log(`[WalkabilityService] Field '${field}' failed: ${response.status}`);
-              }
-            } catch (fieldError) {
-              console.log(`[WalkabilityService] Field '${field}' error:`, fieldError.message);
-              continue;
-            }
-          }
-          
-          if (foundBusinesses === 0) {
-            console.log(`[WalkabilityService] No businesses found for any location field in dataset`);
-          }
-        } catch (datasetError) {
-          console.log(`Error with dataset ${dataset}:`, datasetError);
-          continue;
-        }
-      }
-
-      return businessCount;
-
-    } catch (error) {
-      console.error("NYC businesses search error:", error);
-      return 0;
+  private amenityDistanceDecay(distanceMiles: number): number {
+    if (distanceMiles <= AMENITY_FULL_CREDIT_MILES) return 1;
+    if (distanceMiles <= AMENITY_DECAY_MILES) {
+      const progress = (distanceMiles - AMENITY_FULL_CREDIT_MILES) / (AMENITY_DECAY_MILES - AMENITY_FULL_CREDIT_MILES);
+      return 1 - progress * (1 - AMENITY_DECAY_FLOOR);
     }
-  }
-
-  private async searchOSMAmenities(lat: number, lng: number, radiusMiles: number, amenityTypes: string[]): Promise<number> {
-    try {
-      // Convert miles to meters for Overpass API
-      const radiusMeters = Math.round(radiusMiles * 1609.34);
-      console.log(`[WalkabilityService] Searching OSM amenities within ${radiusMeters}m (${radiusMiles} miles) of ${lat}, ${lng}`);
-      
-      // Build proper Overpass QL query for amenities - get actual data, not just count
-      const query = `
-        [out:json][timeout:25];
-        (
-          node[amenity~"^(${amenityTypes.join('|')})$"](around:${radiusMeters},${lat},${lng});
-          way[amenity~"^(${amenityTypes.join('|')})$"](around:${radiusMeters},${lat},${lng});
-        );
-        out geom;
-      `;
-
-      const overpassUrl = 'https://overpass-api.de/api/interpreter';
-      console.log(`[WalkabilityService] Sending Overpass query for amenity types: ${amenityTypes.join(', ')}`);
-      
-      const response = await fetch(overpassUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'text/plain',
-          'User-Agent': 'NeighborhoodEnrichment/1.0'
-        },
-        body: query
-      });
-
-      if (response.ok) {
-        const data = await response.json();
-        const amenityCount = data.elements?.length || 0;
-        console.log(`[WalkabilityService] OpenStreetMap returned ${amenityCount} amenities`);
-        
-        // Log some sample amenities for debugging
-        if (data.elements && data.elements.length > 0) {
-          const samples = data.elements.slice(0, 3).map(el => ({
-            type: el.type,
-            amenity: el.tags?.amenity,
-            name: el.tags?.name || 'unnamed'
-          }));
-          console.log(`[WalkabilityService] Sample OSM amenities:`, samples);
-        }
-        
-        return amenityCount;
-      } else {
-        console.log(`[WalkabilityService] Overpass API error: ${response.status} ${response.statusText}`);
-        const errorText = await response.text();
-        console.log(`[WalkabilityService] Error response:`, errorText.substring(0, 200));
-        return 0;
-      }
-
-    } catch (error) {
-      console.error("[WalkabilityService] OSM amenities search error:", error);
-      return 0;
+    if (distanceMiles <= AMENITY_MAX_MILES) {
+      return AMENITY_DECAY_FLOOR * (AMENITY_MAX_MILES - distanceMiles) / (AMENITY_MAX_MILES - AMENITY_DECAY_MILES);
     }
+    return 0;
   }
 
-  private async calculateTransitScore(lat: number, lng: number): Promise<number> {
+  private async calculateTransitScore(lat: number, lng: number): Promise<TransitAccess | null> {
     try {
       // Calculate based on proximity to various transit options
       let transitScore = 0;
@@ -243,19 +216,19 @@ export class WalkabilityService {
       else if (subwayDistance <= 1.0) transitScore += 20; // Fair subway access
       else if (subwayDistance <= 1.5) transitScore += 10; // Poor subway access
 
-      // Check bus stops using NYC Open Data
-      const busScore = await this.calculateBusProximity(lat, lng);
-      transitScore += busScore;
+      // Check bus stops from the local MTA bus GTFS data
+      const bus = await this.calculateBusProximity(lat, lng);
+      transitScore += bus.score;
 
-      // Check bike share stations
-      const bikeScore = await this.calculateBikeShareProximity(lat, lng);
-      transitScore += bikeScore;
+      // Check Citi Bike docks
+      const bikeShare = await this.calculateBikeShareProximity(lat, lng);
+      transitScore += bikeShare.score;
 
-      return Math.min(100, transitScore);
+      return { score: Math.min(100, transitScore), bus, bikeShare };
 
     } catch (error) {
       console.error("Transit score calculation error:", error);
-      return 50;
+      return null;
     }
   }
 
@@ -296,58 +269,137 @@ export class WalkabilityService {
     }
   }
 
-  private async calculateBusProximity(lat: number, lng: number): Promise<number> {
+  private async calculateBusProximity(lat: number, lng: number): Promise<BusAccess> {
+    const fallback: BusAccess = {
+      score: 15, // Default moderate bus access
+      radiusMiles: BUS_STOP_RADIUS_MILES,
+      stopsWithinRadius: 0,
+      routes: [],
+      nearestStops: [],
+      dataSource: "Fallback"
+    };
+
     try {
-      // Use NYC Open Data for bus stops
-      const radiusMeters = 800; // ~0.5 miles
-      const query = `$where=within_circle(the_geom, ${lat}, ${lng}, ${radiusMeters})`;
-      const url = `https://data.cityofnewyork.us/resource/2uk8-8ypb.json?${query}&$limit=20`;
-
-      const response = await fetch(url);
-      if (!response.ok) {
-        return 15; // Default moderate bus access
+      if (!(await this.stops.hasRows())) {
+        return fallback;
       }
 
-      const busStops = await response.json();
-      const stopCount = busStops.length;
+      const box = this.boundingBox(lat, lng, BUS_STOP_RADIUS_MILES);
+      const candidates = await db.select().from(busStops).where(and(
+        between(busStops.lat, box.minLat, box.maxLat),
+        between(busStops.lng, box.minLng, box.maxLng)
+      ));
+
+      const nearby = candidates
+        .map(stop => ({
+          name: stop.name,
+          distanceMiles: this.calculateDistance(lat, lng, stop.lat, stop.lng),
+          routes: this.parseRoutes(stop.routes)
+        }))
+        .filter(stop => stop.distanceMiles <= BUS_STOP_RADIUS_MILES)
+        .sort((a, b) => a.distanceMiles - b.distanceMiles);
+
+      const routes = new Set<string>();
+      nearby.forEach(stop => stop.routes.forEach(route => routes.add(route)));
+      const stopCount = nearby.length;
+      console.log(`[WalkabilityService] ${stopCount} bus stops (${routes.size} routes) within ${BUS_STOP_RADIUS_MILES} miles`);
+
+      // Score based on number of nearby bus stops; thresholds are sized for the
+      // quarter-mile radius, where a stop pair on one corridor is already good coverage
+      let score = 10; // Very poor
+      if (stopCount >= 3) score = 30; // Excellent
+      else if (stopCount >= 2) score = 25; // Good
+      else if (stopCount >= 1) score = 20; // Fair
 
-      // Score based on number of nearby bus stops
-      if (stopCount >= 10) return 30; // Excellent
-      if (stopCount >= 5) return 25;  // Good
-      if (stopCount >= 2) return 20;  // Fair
-      if (stopCount >= 1) return 15;  // Poor
-      return 10; // Very poor
+      return {
+        score,
+        radiusMiles: BUS_STOP_RADIUS_MILES,
+        stopsWithinRadius: stopCount,
+        routes: Array.from(routes).sort((a, b) => a.localeCompare(b, "en", { numeric: true })),
+        nearestStops: nearby.slice(0, NEAREST_LISTED).map(stop => ({
+          ...stop,
+          distanceMiles: Math.round(stop.distanceMiles * 100) / 100
+        })),
+        dataSource: "MTA Bus GTFS"
+      };
 
     } catch (error) {
       console.error("Bus proximity calculation error:", error);
-      return 15;
+      return fallback;
     }
   }
 
-  private async calculateBikeShareProximity(lat: number, lng: number): Promise<number> {
+  private async calculateBikeShareProximity(lat: number, lng: number): Promise<BikeShareAccess> {
+    const fallback: BikeShareAccess = {
+      score: 5, // Default
+      radiusMiles: BIKE_DOCK_RADIUS_MILES,
+      docksWithinRadius: 0,
+      totalCapacity: 0,
+      nearestDocks: [],
+      dataSource: "Fallback"
+    };
+
     try {
-      // Use NYC Citi Bike station data
-      const radiusMeters = 500; // ~0.3 miles
-      const query = `$where=within_circle(the_geom, ${lat}, ${lng}, ${radiusMeters})`;
-      const url = `https://data.cityofnewyork.us/resource/755u-8jsi.json?${query}&$limit=10`;
-
-      const response = await fetch(url);
-      if (!response.ok) {
-        return 5; // Default
+      if (!(await this.docks.hasRows())) {
+        return fallback;
       }
 
-      const bikeStations = await response.json();
-      const stationCount = bikeStations.length;
+      const box = this.boundingBox(lat, lng, BIKE_DOCK_RADIUS_MILES);
+      const candidates = await db.select().from(citiBikeStations).where(and(
+        between(citiBikeStations.lat, box.minLat, box.maxLat),
+        between(citiBikeStations.lng, box.minLng, box.maxLng)
+      ));
+
+      const nearby = candidates
+        .map(station => ({
+          name: station.name,
+          distanceMiles: this.calculateDistance(lat, lng, station.lat, station.lng),
+          capacity: station.capacity
+        }))
+        .filter(station => station.distanceMiles <= BIKE_DOCK_RADIUS_MILES)
+        .sort((a, b) => a.distanceMiles - b.distanceMiles);
+
+      const stationCount = nearby.length;
+      const totalCapacity = nearby.reduce((sum, station) => sum + (station.capacity || 0), 0);
+      console.log(`[WalkabilityService] ${stationCount} Citi Bike stations (${totalCapacity} docks) within ${BIKE_DOCK_RADIUS_MILES} miles`);
 
       // Score based on bike share availability
-      if (stationCount >= 5) return 15; // Excellent
-      if (stationCount >= 3) return 12; // Good
-      if (stationCount >= 1) return 8;  // Fair
-      return 5; // Poor
+      let score = 5; // Poor
+      if (stationCount >= 5) score = 15; // Excellent
+      else if (stationCount >= 3) score = 12; // Good
+      else if (stationCount >= 1) score = 8; // Fair
+
+      return {
+        score,
+        radiusMiles: BIKE_DOCK_RADIUS_MILES,
+        docksWithinRadius: stationCount,
+        totalCapacity,
+        nearestDocks: nearby.slice(0, NEAREST_LISTED).map(station => ({
+          ...station,
+          distanceMiles: Math.round(station.distanceMiles * 100) / 100
+        })),
+        dataSource: "Citi Bike GBFS"
+      };
 
     } catch (error) {
       console.error("Bike share proximity calculation error:", error);
-      return 5;
+      return fallback;
+    }
+  }
+
+  private boundingBox(lat: number, lng: number, radiusMiles: number): { minLat: number; maxLat: number; minLng: number; maxLng: number } {
+    // One degree of latitude is ~69 miles; longitude degrees shrink with cos(lat)
+    const latDelta = radiusMiles / 69;
+    const lngDelta = radiusMiles / (69 * Math.cos(this.toRadians(lat)));
+    return { minLat: lat - latDelta, maxLat: lat + latDelta, minLng: lng - lngDelta, maxLng: lng + lngDelta };
+  }
+
+  private parseRoutes(routesJson: string): string[] {
+    try {
+      const routes = JSON.parse(routesJson || "[]");
+      return Array.isArray(routes) ? routes : [];
+    } catch {
+      return [];
     }
   }
 
@@ -375,8 +427,10 @@ export class WalkabilityService {
 
   private async analyzeNeighborhoodWalkability(lat: number, lng: number): Promise<number> {
     try {
+      const borough = await GeographyService.getInstance().resolveBorough(lat, lng);
+
       // Manhattan generally has higher walkability
-      if (lat >= 40.70 && lat <= 40.88 && lng >= -74.02 && lng <= -73.93) {
+      if (borough === "Manhattan") {
         if (lat >= 40.75 && lat <= 40.78) return 25; // Midtown - excellent
         if (lat >= 40.72 && lat <= 40.75) return 20; // Lower Manhattan - very good
         if (lat >= 40.78 && lat <= 40.82) return 15; // Upper Manhattan - good
@@ -384,7 +438,7 @@ export class WalkabilityService {
       }
 
       // Brooklyn - varies by area
-      if (lat >= 40.57 && lat <= 40.74 && lng >= -74.04 && lng <= -73.83) {
+      if (borough === "Brooklyn") {
         return 5; // Generally moderate walkability
       }
 
@@ -428,7 +482,7 @@ export class WalkabilityService {
     return degrees * (Math.PI / 180);
   }
 
-  private generateExplanation(amenities: number, transit: number, pedestrian: number, final: number): string {
+  private generateExplanation(amenities: number, transit: number, pedestrian: number, final: number, breakdown?: AmenityCategoryBreakdown[]): string {
     let quality = "poor";
     if (final >= 80) quality = "excellent";
     else if (final >= 65) quality = "good";
@@ -440,6 +494,11 @@ export class WalkabilityService {
     else if (amenities >= 50) details.push("some nearby amenities");
     else details.push("few nearby amenities");
 
+    const grocery = breakdown?.find(entry => entry.category === "grocery");
+    if (grocery && (!grocery.nearest || grocery.nearest.distanceMiles > 0.5)) {
+      details.push("no grocery store within a 10 minute walk");
+    }
+
     if (transit >= 70) details.push("excellent transit access");
     else if (transit >= 50) details.push("good transit access");
     else details.push("limited transit access");
@@ -451,12 +510,12 @@ export class WalkabilityService {
     return `${quality} walkability (${final}/100): ${details.join(", ")}`;
   }
 
-  private getFallbackScore(lat: number, lng: number, address?: string): WalkabilityResult {
+  private async getFallbackScore(lat: number, lng: number, address?: string): Promise<WalkabilityResult> {
     // Provide basic fallback scoring based on NYC geography
     let score = 40; // Base score
     
     // Manhattan gets higher base score
-    if (lat >= 40.70 && lat <= 40.88 && lng >= -74.02 && lng <= -73.93) {
+    if ((await GeographyService.getInstance().resolveBorough(lat, lng)) === "Manhattan") {
       score = 75;
     }
     // Brooklyn downtown areas
@@ -0,0 +1,135 @@
+import fs from "fs";
+import readline from "readline";
+
+/**
+ * Minimal RFC 4180 CSV parsing for locally loaded open data files
+ * (GTFS feeds, NYC Open Data exports). Handles quoted fields, escaped
+ * quotes, embedded newlines and a leading byte-order mark.
+ */
+
+/**
+ * Visit the rows of a CSV document as arrays of raw field values
+ */
+export function forEachCsvRecord(text: string, visit: (record: string[]) => void): void {
+  let field = "";
+  let record: string[] = [];
+  let inQuotes = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      record.push(field);
+      if (record.length > 1 || record[0] !== "") {
+        visit(record);
+      }
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  // Flush the final record when the file has no trailing newline
+  if (field !== "" || record.length > 0) {
+    record.push(field);
+    visit(record);
+  }
+}
+
+/**
+ * Visit the rows of a CSV document as objects keyed by the header row
+ */
+export function forEachCsvRow(text: string, visit: (row: Record<string, string>) => void): void {
+  let headers: string[] | null = null;
+
+  forEachCsvRecord(text, (record) => {
+    if (!headers) {
+      headers = record.map(header => header.trim());
+      return;
+    }
+
+    const row: Record<string, string> = {};
+    for (let i = 0; i < headers.length; i++) {
+      row[headers[i]] = record[i] !== undefined ? record[i].trim() : "";
+    }
+    visit(row);
+  });
+}
+
+/**
+ * Visit the rows of a CSV file too large to read into one string (DOB job
+ * filings, PAD, building footprints), streaming it line by line. Lines are
+ * joined while a quoted field is still open, so embedded newlines survive.
+ */
+export async function forEachCsvRowInFile(filePath: string, visit: (row: Record<string, string>) => void): Promise<void> {
+  const lines = readline.createInterface({ input: fs.createReadStream(filePath, "utf8"), crlfDelay: Infinity });
+  let headers: string[] | null = null;
+  let pending = "";
+  let openQuote = false;
+
+  for await (const line of lines) {
+    pending = pending ? `${pending}\n${line}` : line;
+    // An odd number of quotes leaves a field open (escaped "" pairs cancel out)
+    if ((line.split('"').length - 1) % 2 === 1) openQuote = !openQuote;
+    if (openQuote) continue;
+
+    const text = pending;
+    pending = "";
+    if (text.trim() === "") continue;
+
+    forEachCsvRecord(text, (record) => {
+      if (!headers) {
+        headers = record.map(header => header.trim());
+        return;
+      }
+
+      const row: Record<string, string> = {};
+      for (let i = 0; i < headers.length; i++) {
+        row[headers[i]] = record[i] !== undefined ? record[i].trim() : "";
+      }
+      visit(row);
+    });
+  }
+}
+
+/**
+ * First non-empty value among the given column names, for exports that name
+ * the same column differently across releases
+ */
+export function field(row: Record<string, string>, ...names: string[]): string {
+  for (const name of names) {
+    if (row[name]) return row[name].trim();
+  }
+  return "";
+}
+
+/**
+ * Parse a whole CSV document into objects keyed by the header row
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+  const rows: Record<string, string>[] = [];
+  forEachCsvRow(text, row => rows.push(row));
+  return rows;
+}
@@ -1,4 +1,7 @@
 import { randomUUID } from 'crypto';
+import { sql } from 'drizzle-orm';
+import type { PgTable } from 'drizzle-orm/pg-core';
+import { db } from '../db';
 
 /**
  * Database utility functions for portability across different database systems
@@ -42,4 +45,43 @@ export async function safeInsert<T>(
     // Return the record we just inserted
     return recordToInsert as T;
   }
-}
\ No newline at end of file
+}
+/**
+ * Readiness check for a table filled by one of the `npm run data:*` import
+ * scripts. Requests only read: an empty table logs the script to run and
+ * resolves to false, and is checked again on the next call, so an import run
+ * from another process is picked up without a restart.
+ */
+export class ImportedTable {
+  private ready = false;
+  private warned = false;
+
+  constructor(private table: PgTable, private logPrefix: string, private importScript: string) {}
+
+  /**
+   * Record the outcome of an import run in this process
+   */
+  markLoaded(loaded: boolean): void {
+    this.ready = loaded;
+  }
+
+  async hasRows(): Promise<boolean> {
+    if (this.ready) return true;
+
+    try {
+      const rows = await db.select({ count: sql<number>`count(*)` }).from(this.table);
+      if (Number(rows[0]?.count) > 0) {
+        this.ready = true;
+        return true;
+      }
+      if (!this.warned) {
+        console.log(`${this.logPrefix} No data imported; run \`npm run ${this.importScript}\``);
+        this.warned = true;
+      }
+      return false;
+    } catch (error) {
+      console.log(`${this.logPrefix} Data unavailable:`, error instanceof Error ? error.message : error);
+      return false;
+    }
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Geometry helpers shared by the location-based scoring services
+ */
+
+export const EARTH_RADIUS_MILES = 3959;
+export const FEET_PER_MILE = 5280;
+
+/**
+ * Haversine distance between two points in miles
+ */
+export function haversineMiles(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+  const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+            Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) *
+            Math.sin(dLng / 2) * Math.sin(dLng / 2);
+  return EARTH_RADIUS_MILES * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+export function toRadians(degrees: number): number {
+  return degrees * (Math.PI / 180);
+}
+
+/**
+ * Ray-casting point-in-polygon test for a single ring of [lng, lat] positions
+ */
+export function pointInRing(lat: number, lng: number, ring: number[][]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > lat) !== (yj > lat) && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Point-in-polygon for GeoJSON polygon coordinates: inside the outer ring and outside every hole
+ */
+export function pointInPolygon(lat: number, lng: number, polygon: number[][][]): boolean {
+  if (polygon.length === 0 || !pointInRing(lat, lng, polygon[0])) return false;
+  for (let i = 1; i < polygon.length; i++) {
+    if (pointInRing(lat, lng, polygon[i])) return false;
+  }
+  return true;
+}
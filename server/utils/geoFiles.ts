@@ -0,0 +1,159 @@
+import fs from "fs";
+import path from "path";
+import readline from "readline";
+import * as shapefile from "shapefile";
+import { nyStatePlaneToWgs84, isProjectedCoordinate } from "./projection";
+
+/**
+ * Minimal GeoJSON shapes for the extracts we load from disk
+ * (street centerlines, boundary polygons, points of interest)
+ */
+export type Position = [number, number, ...number[]];
+
+export type GeoJsonGeometry =
+  | { type: "Point"; coordinates: Position }
+  | { type: "MultiPoint"; coordinates: Position[] }
+  | { type: "LineString"; coordinates: Position[] }
+  | { type: "MultiLineString"; coordinates: Position[][] }
+  | { type: "Polygon"; coordinates: Position[][] }
+  | { type: "MultiPolygon"; coordinates: Position[][][] };
+
+export interface GeoJsonFeature {
+  type: "Feature";
+  id?: string | number;
+  geometry: GeoJsonGeometry | null;
+  properties: Record<string, any> | null;
+}
+
+const GEOJSON_SEQUENCE_EXTENSIONS = new Set([".geojsonl", ".geojsonseq", ".ndjson"]);
+
+/**
+ * Visit each feature of a GeoJSON file, returning the number visited.
+ *
+ * Newline-delimited GeoJSON sequences (.geojsonl / .geojsonseq as written by
+ * `osmium export`) are streamed a line at a time, so they can be any size.
+ * A FeatureCollection is parsed as a single string and must stay under
+ * Node's maximum string length (about 512MB); export larger extracts as a
+ * GeoJSON sequence instead.
+ */
+export async function forEachGeoJsonFeature(filePath: string, visit: (feature: GeoJsonFeature) => void): Promise<number> {
+  const resolved = path.resolve(filePath);
+  if (!fs.existsSync(resolved)) {
+    throw new Error(`GeoJSON file not found at ${resolved}`);
+  }
+
+  if (GEOJSON_SEQUENCE_EXTENSIONS.has(path.extname(resolved).toLowerCase())) {
+    const lines = readline.createInterface({ input: fs.createReadStream(resolved, "utf8"), crlfDelay: Infinity });
+    let count = 0;
+    for await (const line of lines) {
+      // GeoJSON text sequences prefix each record with an RS character
+      const trimmed = line.replace(/^\u001e/, "").trim();
+      if (!trimmed) continue;
+      visit(JSON.parse(trimmed));
+      count++;
+    }
+    return count;
+  }
+
+  const parsed = JSON.parse(await fs.promises.readFile(resolved, "utf8"));
+  if (parsed.type === "FeatureCollection" && Array.isArray(parsed.features)) {
+    parsed.features.forEach(visit);
+    return parsed.features.length;
+  }
+  if (parsed.type === "Feature") {
+    visit(parsed);
+    return 1;
+  }
+
+  throw new Error(`${resolved} is not a GeoJSON FeatureCollection`);
+}
+
+/**
+ * Read the features of a GeoJSON FeatureCollection or GeoJSON sequence.
+ * Holds every feature in memory; prefer forEachGeoJsonFeature for large extracts.
+ */
+export async function readGeoJsonFeatures(filePath: string): Promise<GeoJsonFeature[]> {
+  const features: GeoJsonFeature[] = [];
+  await forEachGeoJsonFeature(filePath, feature => features.push(feature));
+  return features;
+}
+
+/**
+ * Read the features of an ESRI shapefile (the .dbf alongside it supplies the properties).
+ * Coordinates are returned as stored, so the shapefile must already be in WGS84.
+ */
+export async function readShapefileFeatures(filePath: string): Promise<GeoJsonFeature[]> {
+  const resolved = path.resolve(filePath);
+  if (!fs.existsSync(resolved)) {
+    throw new Error(`Shapefile not found at ${resolved}`);
+  }
+
+  const collection = await shapefile.read(resolved);
+  return collection.features as unknown as GeoJsonFeature[];
+}
+
+/**
+ * Read features from either a shapefile or a GeoJSON file, by extension
+ */
+export async function readGeoFeatures(filePath: string): Promise<GeoJsonFeature[]> {
+  if (path.extname(filePath).toLowerCase() === ".shp") {
+    return readShapefileFeatures(filePath);
+  }
+  return readGeoJsonFeatures(filePath);
+}
+
+export interface BoundaryPolygons {
+  polygons: number[][][][]; // [lng, lat] rings per polygon, outer ring first
+  minLat: number;
+  minLng: number;
+  maxLat: number;
+  maxLng: number;
+}
+
+/**
+ * Polygons of a boundary geometry in lat/lng with their bounding box, or null
+ * for non-polygon geometry. DCP and DOE shapefiles are published in State
+ * Plane feet, so projected coordinates are converted.
+ */
+export function toBoundaryPolygons(geometry: GeoJsonGeometry | null): BoundaryPolygons | null {
+  if (!geometry) return null;
+
+  const raw: number[][][][] =
+    geometry.type === "Polygon" ? [geometry.coordinates] :
+    geometry.type === "MultiPolygon" ? geometry.coordinates :
+    [];
+  if (raw.length === 0) return null;
+
+  const polygons = raw.map(polygon => polygon.map(ring => ring.map(([x, y]) => {
+    if (!isProjectedCoordinate(x, y)) return [x, y];
+    const point = nyStatePlaneToWgs84(x, y);
+    return [point.lng, point.lat];
+  })));
+
+  let minLat = Infinity, minLng = Infinity, maxLat = -Infinity, maxLng = -Infinity;
+  for (const polygon of polygons) {
+    for (const [lng, lat] of polygon[0] || []) {
+      minLat = Math.min(minLat, lat);
+      minLng = Math.min(minLng, lng);
+      maxLat = Math.max(maxLat, lat);
+      maxLng = Math.max(maxLng, lng);
+    }
+  }
+  if (!isFinite(minLat)) return null;
+
+  return { polygons, minLat, minLng, maxLat, maxLng };
+}
+
+/**
+ * First non-empty feature property among the given names, as a trimmed string
+ */
+export function readField(props: Record<string, any> | null, ...names: string[]): string {
+  if (!props) return "";
+  for (const name of names) {
+    const value = props[name];
+    if (value !== undefined && value !== null && String(value).trim() !== "") {
+      return String(value).trim();
+    }
+  }
+  return "";
+}
@@ -0,0 +1,55 @@
+import fs from "fs";
+import path from "path";
+import AdmZip from "adm-zip";
+import { forEachCsvRow } from "./csv";
+
+/**
+ * Read-only access to a GTFS static feed stored on disk, either as the
+ * zip published by the agency or as a directory of extracted .txt files
+ */
+export interface GtfsFeed {
+  source: string;
+  hasTable(name: string): boolean;
+  eachRow(name: string, visit: (row: Record<string, string>) => void): void;
+}
+
+export function openGtfsFeed(feedPath: string): GtfsFeed {
+  const resolved = path.resolve(feedPath);
+
+  if (!fs.existsSync(resolved)) {
+    throw new Error(`GTFS feed not found at ${resolved}`);
+  }
+
+  if (fs.statSync(resolved).isDirectory()) {
+    const tablePath = (name: string) => path.join(resolved, `${name}.txt`);
+    return {
+      source: resolved,
+      hasTable: (name) => fs.existsSync(tablePath(name)),
+      eachRow: (name, visit) => forEachCsvRow(readRequired(tablePath(name), name, resolved), visit),
+    };
+  }
+
+  const zip = new AdmZip(resolved);
+  // Some agencies nest the tables in a folder inside the archive
+  const entryFor = (name: string) =>
+    zip.getEntries().find(entry => !entry.isDirectory && path.basename(entry.entryName) === `${name}.txt`);
+
+  return {
+    source: resolved,
+    hasTable: (name) => entryFor(name) !== undefined,
+    eachRow: (name, visit) => {
+      const entry = entryFor(name);
+      if (!entry) {
+        throw new Error(`GTFS feed ${resolved} is missing ${name}.txt`);
+      }
+      forEachCsvRow(entry.getData().toString("utf8"), visit);
+    },
+  };
+}
+
+function readRequired(filePath: string, name: string, feedPath: string): string {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`GTFS feed ${feedPath} is missing ${name}.txt`);
+  }
+  return fs.readFileSync(filePath, "utf8");
+}
@@ -0,0 +1,54 @@
+/**
+ * Binary min-heap of graph nodes (integer ids) keyed by tentative distance,
+ * used by the shortest-path searches over the street and transit graphs
+ */
+export class MinHeap {
+  private nodes: number[] = [];
+  private priorities: number[] = [];
+
+  size(): number {
+    return this.nodes.length;
+  }
+
+  push(node: number, priority: number): void {
+    this.nodes.push(node);
+    this.priorities.push(priority);
+    let i = this.nodes.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.priorities[parent] <= this.priorities[i]) break;
+      this.swap(i, parent);
+      i = parent;
+    }
+  }
+
+  pop(): { node: number; priority: number } | undefined {
+    if (this.nodes.length === 0) return undefined;
+    const top = { node: this.nodes[0], priority: this.priorities[0] };
+    const lastNode = this.nodes.pop()!;
+    const lastPriority = this.priorities.pop()!;
+
+    if (this.nodes.length > 0) {
+      this.nodes[0] = lastNode;
+      this.priorities[0] = lastPriority;
+      let i = 0;
+      while (true) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < this.nodes.length && this.priorities[left] < this.priorities[smallest]) smallest = left;
+        if (right < this.nodes.length && this.priorities[right] < this.priorities[smallest]) smallest = right;
+        if (smallest === i) break;
+        this.swap(i, smallest);
+        i = smallest;
+      }
+    }
+
+    return top;
+  }
+
+  private swap(a: number, b: number): void {
+    [this.nodes[a], this.nodes[b]] = [this.nodes[b], this.nodes[a]];
+    [this.priorities[a], this.priorities[b]] = [this.priorities[b], this.priorities[a]];
+  }
+}
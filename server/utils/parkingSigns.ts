@@ -0,0 +1,243 @@
+/**
+ * Structured parking rules parsed from the free-text descriptions in the DOT
+ * parking regulation sign dataset, e.g.
+ *   "NO PARKING (SANITATION BROOM SYMBOL) 8-9:30AM MON & THURS <->"
+ *   "2 HMP 9AM-7PM EXCEPT SUNDAY"
+ *   "NO STANDING 7-10AM 4-7PM MON THRU FRI"
+ */
+
+export type ParkingRuleKind =
+  | "no_stopping"
+  | "no_standing"
+  | "no_parking"
+  | "street_cleaning"
+  | "commercial_only"
+  | "authorized_only"
+  | "metered"
+  | "time_limit";
+
+export interface ParkingRule {
+  kind: ParkingRuleKind;
+  days: number[]; // 0 = Sunday ... 6 = Saturday
+  windows: Array<{ start: number; end: number }>; // Minutes from midnight; end < start wraps past midnight
+  hourLimit: number | null;
+  text: string;
+}
+
+export interface SignedRule {
+  rule: ParkingRule;
+  signCount: number; // Signs on the block face carrying this regulation
+}
+
+export interface CleaningWindow {
+  day: number; // 0 = Sunday ... 6 = Saturday
+  start: number; // Minutes from midnight
+  end: number;
+}
+
+const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+const WEEKDAYS = [1, 2, 3, 4, 5];
+const DAY_PATTERN = /\b(SUN|MON|TUE|WED|THU|FRI|SAT)[A-Z]*\.?/g;
+const DAY_INDEX: Record<string, number> = { SUN: 0, MON: 1, TUE: 2, WED: 3, THU: 4, FRI: 5, SAT: 6 };
+const TIME_RANGE_PATTERN = /(\d{1,2})(?::(\d{2}))?\s*(AM|PM)?\s*(?:-|TO)\s*(\d{1,2})(?::(\d{2}))?\s*(AM|PM)/g;
+
+// Rules that keep a resident's car off the curb entirely while in effect
+const BLOCKING_KINDS = new Set<ParkingRuleKind>([
+  "no_stopping", "no_standing", "no_parking", "street_cleaning", "commercial_only", "authorized_only"
+]);
+
+// Metered / time-limited curb is usable, but not for leaving a car overnight or all weekend
+const LIMITED_AVAILABILITY = 0.5;
+
+const SLOT_MINUTES = 15;
+
+// Time to walk to the car and re-park it, on top of sitting out the cleaning window
+const MOVE_OVERHEAD_HOURS = 0.25;
+
+/**
+ * Parse one sign description. Returns null for signs that do not regulate
+ * parking (arrows, informational plates, unknown text).
+ */
+export function parseParkingSign(description: string): ParkingRule | null {
+  const text = description.toUpperCase().replace(/<->|-->|<--/g, " ").replace(/\s+/g, " ").trim();
+  if (!text) return null;
+
+  const kind = parseKind(text);
+  if (!kind) return null;
+
+  const hourMatch = text.match(/(\d+)\s*(?:HOUR|HR|HMP)\b/);
+
+  return {
+    kind,
+    days: parseDays(text),
+    windows: parseWindows(text),
+    hourLimit: hourMatch ? parseInt(hourMatch[1], 10) : null,
+    text
+  };
+}
+
+/**
+ * Share (0-1) of the overnight (7pm-7am, every night) and weekend daytime
+ * (Sat/Sun 7am-7pm) curb-hours on a block face where a resident may park.
+ *
+ * Street cleaning signs cover the whole curb. Every other regulation is assumed
+ * to cover a share of the curb proportional to its sign count, so a bus stop
+ * with two signs on a block of ten meter signs blocks a fifth of the curb.
+ */
+export function evaluateCurbHours(rules: SignedRule[]): { overnight: number; weekend: number } {
+  const cleaning = rules.filter(entry => entry.rule.kind === "street_cleaning");
+  const zoned = rules.filter(entry => entry.rule.kind !== "street_cleaning");
+  const zonedSigns = zoned.reduce((sum, entry) => sum + entry.signCount, 0);
+
+  let overnightTotal = 0;
+  let overnightSlots = 0;
+  let weekendTotal = 0;
+  let weekendSlots = 0;
+
+  for (const day of ALL_DAYS) {
+    for (let minute = 0; minute < 1440; minute += SLOT_MINUTES) {
+      const overnight = minute >= 19 * 60 || minute < 7 * 60;
+      const weekend = (day === 0 || day === 6) && !overnight;
+      if (!overnight && !weekend) continue;
+
+      const sample = minute + SLOT_MINUTES / 2;
+      let available = cleaning.some(entry => ruleApplies(entry.rule, day, sample)) ? 0 : 1;
+
+      if (available > 0 && zonedSigns > 0) {
+        let blockedShare = 0;
+        for (const entry of zoned) {
+          if (!ruleApplies(entry.rule, day, sample)) continue;
+          const loss = BLOCKING_KINDS.has(entry.rule.kind) ? 1 : 1 - LIMITED_AVAILABILITY;
+          blockedShare += (entry.signCount / zonedSigns) * loss;
+        }
+        available *= Math.max(0, 1 - blockedShare);
+      }
+
+      if (overnight) {
+        overnightTotal += available;
+        overnightSlots++;
+      } else {
+        weekendTotal += available;
+        weekendSlots++;
+      }
+    }
+  }
+
+  return {
+    overnight: overnightSlots > 0 ? overnightTotal / overnightSlots : 1,
+    weekend: weekendSlots > 0 ? weekendTotal / weekendSlots : 1
+  };
+}
+
+/**
+ * Weekly street cleaning windows on a block face, earliest in the week first
+ */
+export function streetCleaningWindows(rules: SignedRule[]): CleaningWindow[] {
+  const windows = new Map<string, CleaningWindow>();
+  for (const { rule } of rules) {
+    if (rule.kind !== "street_cleaning") continue;
+    for (const day of rule.days) {
+      for (const window of rule.windows) {
+        windows.set(`${day}-${window.start}-${window.end}`, { day, start: window.start, end: window.end });
+      }
+    }
+  }
+  return Array.from(windows.values()).sort((a, b) => a.day - b.day || a.start - b.start);
+}
+
+/**
+ * Hours a week spent moving a car for street cleaning: each window means
+ * moving the car and waiting out the window before parking again
+ */
+export function weeklyMoveBurdenHours(windows: CleaningWindow[]): number {
+  return windows.reduce((hours, window) => {
+    const minutes = window.end >= window.start ? window.end - window.start : window.end + 1440 - window.start;
+    return hours + minutes / 60 + MOVE_OVERHEAD_HOURS;
+  }, 0);
+}
+
+/**
+ * Whether a rule is in effect on a day (0 = Sunday) at a minute from midnight.
+ * Windows that run past midnight are attributed to the listed day.
+ */
+export function ruleApplies(rule: ParkingRule, day: number, minute: number): boolean {
+  if (!rule.days.includes(day)) return false;
+  return rule.windows.some(window =>
+    window.start <= window.end
+      ? minute >= window.start && minute < window.end
+      : minute >= window.start || minute < window.end
+  );
+}
+
+function parseKind(text: string): ParkingRuleKind | null {
+  if (/BROOM|SANITATION|STREET CLEANING/.test(text)) return "street_cleaning";
+  if (/NO STOPPING/.test(text)) return "no_stopping";
+  if (/NO STANDING|BUS STOP/.test(text)) return "no_standing";
+  if (/NO PARKING/.test(text)) return "no_parking";
+  if (/COMMERCIAL VEHICLES ONLY|TRUCK LOADING ONLY/.test(text)) return "commercial_only";
+  if (/AUTHORIZED VEHICLES|PERMIT PARKING|DIPLOMAT/.test(text)) return "authorized_only";
+  if (/\bHMP\b|METER/.test(text)) return "metered";
+  if (/\d+\s*(?:HOUR|HR)\s*PARKING/.test(text)) return "time_limit";
+  return null;
+}
+
+function parseDays(text: string): number[] {
+  if (/INCLUDING SUNDAY/.test(text)) return ALL_DAYS;
+  if (/SCHOOL DAYS/.test(text)) return WEEKDAYS;
+
+  const tokens: Array<{ day: number; index: number; end: number }> = [];
+  let match: RegExpExecArray | null;
+  DAY_PATTERN.lastIndex = 0;
+  while ((match = DAY_PATTERN.exec(text)) !== null) {
+    tokens.push({ day: DAY_INDEX[match[1]], index: match.index, end: match.index + match[0].length });
+  }
+  if (tokens.length === 0) return ALL_DAYS;
+
+  const listed = new Set<number>();
+  for (let i = 0; i < tokens.length; i++) {
+    listed.add(tokens[i].day);
+    const next = tokens[i + 1];
+    if (!next) continue;
+
+    // "MON THRU FRI", "MON-FRI", "MON TO FRI" are ranges; "MON & THURS" is a list
+    const between = text.substring(tokens[i].end, next.index).trim();
+    if (between === "-" || between === "THRU" || between === "THROUGH" || between === "TO") {
+      for (let day = tokens[i].day; day !== next.day; day = (day + 1) % 7) listed.add(day);
+    }
+  }
+
+  const exceptIndex = text.lastIndexOf("EXCEPT", tokens[0].index);
+  if (exceptIndex !== -1 && text.substring(exceptIndex + 6, tokens[0].index).trim() === "") {
+    return ALL_DAYS.filter(day => !listed.has(day));
+  }
+  return Array.from(listed).sort((a, b) => a - b);
+}
+
+function parseWindows(text: string): Array<{ start: number; end: number }> {
+  if (/ANYTIME/.test(text)) return [{ start: 0, end: 1440 }];
+
+  const normalized = text.replace(/\bNOON\b/g, "12PM").replace(/\bMIDNIGHT\b/g, "12AM");
+  const windows: Array<{ start: number; end: number }> = [];
+  let match: RegExpExecArray | null;
+  TIME_RANGE_PATTERN.lastIndex = 0;
+
+  while ((match = TIME_RANGE_PATTERN.exec(normalized)) !== null) {
+    const endMeridiem = match[6];
+    let end = toMinutes(parseInt(match[4], 10), parseInt(match[5] || "0", 10), endMeridiem);
+    if (end === 0) end = 1440; // "...-12AM" ends at midnight
+
+    let start = toMinutes(parseInt(match[1], 10), parseInt(match[2] || "0", 10), match[3] || endMeridiem);
+    // "11-1PM" means 11AM: a start without its own meridiem should not land after the end
+    if (!match[3] && start > end) {
+      start = toMinutes(parseInt(match[1], 10), parseInt(match[2] || "0", 10), endMeridiem === "PM" ? "AM" : "PM");
+    }
+    windows.push({ start, end });
+  }
+
+  // A regulation without hours is in effect at all times
+  return windows.length > 0 ? windows : [{ start: 0, end: 1440 }];
+}
+
+function toMinutes(hour: number, minute: number, meridiem: string): number {
+  return ((hour % 12) + (meridiem === "PM" ? 12 : 0)) * 60 + minute;
+}
@@ -0,0 +1,79 @@
+/**
+ * Inverse projection for NYC datasets published in New York State Plane,
+ * Long Island zone (EPSG:2263, NAD83, US survey feet) such as LION and the
+ * DCP / DOB shapefiles. NAD83 is treated as WGS84 (sub-meter difference).
+ */
+
+const US_SURVEY_FOOT_METERS = 1200 / 3937;
+
+// GRS80 ellipsoid
+const SEMI_MAJOR_AXIS = 6378137;
+const FLATTENING = 1 / 298.257222101;
+const ECCENTRICITY = Math.sqrt(2 * FLATTENING - FLATTENING * FLATTENING);
+
+// Lambert Conformal Conic (2SP) parameters for EPSG:2263
+const STANDARD_PARALLEL_1 = degrees(41, 2);
+const STANDARD_PARALLEL_2 = degrees(40, 40);
+const LATITUDE_OF_ORIGIN = degrees(40, 10);
+const CENTRAL_MERIDIAN = degrees(-74, 0);
+const FALSE_EASTING_METERS = 300000;
+const FALSE_NORTHING_METERS = 0;
+
+const m1 = lccM(STANDARD_PARALLEL_1);
+const m2 = lccM(STANDARD_PARALLEL_2);
+const t1 = lccT(STANDARD_PARALLEL_1);
+const t2 = lccT(STANDARD_PARALLEL_2);
+const CONE_CONSTANT = (Math.log(m1) - Math.log(m2)) / (Math.log(t1) - Math.log(t2));
+const SCALE_F = m1 / (CONE_CONSTANT * Math.pow(t1, CONE_CONSTANT));
+const RHO_0 = SEMI_MAJOR_AXIS * SCALE_F * Math.pow(lccT(LATITUDE_OF_ORIGIN), CONE_CONSTANT);
+
+/**
+ * Convert EPSG:2263 easting/northing (US feet) to latitude/longitude in degrees
+ */
+export function nyStatePlaneToWgs84(x: number, y: number): { lat: number; lng: number } {
+  const dx = x * US_SURVEY_FOOT_METERS - FALSE_EASTING_METERS;
+  const dy = RHO_0 - (y * US_SURVEY_FOOT_METERS - FALSE_NORTHING_METERS);
+
+  const rho = Math.sign(CONE_CONSTANT) * Math.sqrt(dx * dx + dy * dy);
+  const t = Math.pow(rho / (SEMI_MAJOR_AXIS * SCALE_F), 1 / CONE_CONSTANT);
+  const theta = Math.atan2(dx, dy);
+
+  // Latitude by fixed-point iteration; converges to well under a millimetre in a few steps
+  let phi = Math.PI / 2 - 2 * Math.atan(t);
+  for (let i = 0; i < 10; i++) {
+    const esin = ECCENTRICITY * Math.sin(phi);
+    const next = Math.PI / 2 - 2 * Math.atan(t * Math.pow((1 - esin) / (1 + esin), ECCENTRICITY / 2));
+    if (Math.abs(next - phi) < 1e-12) {
+      phi = next;
+      break;
+    }
+    phi = next;
+  }
+
+  return {
+    lat: phi * 180 / Math.PI,
+    lng: (theta / CONE_CONSTANT + CENTRAL_MERIDIAN) * 180 / Math.PI
+  };
+}
+
+/**
+ * Coordinates far outside the lat/lng range are assumed to be State Plane feet
+ */
+export function isProjectedCoordinate(x: number, y: number): boolean {
+  return Math.abs(x) > 180 || Math.abs(y) > 90;
+}
+
+function lccM(phi: number): number {
+  const esin = ECCENTRICITY * Math.sin(phi);
+  return Math.cos(phi) / Math.sqrt(1 - esin * esin);
+}
+
+function lccT(phi: number): number {
+  const esin = ECCENTRICITY * Math.sin(phi);
+  return Math.tan(Math.PI / 4 - phi / 2) / Math.pow((1 - esin) / (1 + esin), ECCENTRICITY / 2);
+}
+
+function degrees(whole: number, minutes: number): number {
+  const value = Math.abs(whole) + minutes / 60;
+  return (whole < 0 ? -value : value) * Math.PI / 180;
+}
@@ -0,0 +1,105 @@
+import { z } from "zod";
+
+/**
+ * Percentile calibration of composite school ratings and the analyst override
+ * rules applied on top. Kept free of database access so the calibration check
+ * can run against a fixture distribution.
+ */
+
+export interface SchoolCalibration {
+  score: number;
+  method: "citywide_percentile" | "borough_logistic";
+  percentile: number | null; // Citywide percentile of the composite rating
+  datasetYear: string | null;
+  override: {
+    ruleId: string;
+    description: string;
+    scoreBeforeOverride: number;
+  } | null;
+}
+
+/**
+ * Override rules, e.g. to cap a school whose report predates a known change:
+ *
+ *   [{ "id": "02M999-new-leadership", "description": "Rated under previous leadership",
+ *      "dbns": ["02M999"], "ceiling": 70 }]
+ *
+ * A rule matches by DBN list and/or DBN pattern, optionally only above a
+ * composite rating, and bounds the calibrated score with a floor or ceiling.
+ */
+export const overrideRuleSchema = z.object({
+  id: z.string().min(1),
+  description: z.string().min(1),
+  dbns: z.array(z.string()).optional(),
+  dbnPattern: z.string().optional(),
+  minCompositeRating: z.number().optional(),
+  floor: z.number().min(0).max(100).optional(),
+  ceiling: z.number().min(0).max(100).optional(),
+}).refine(rule => rule.dbns || rule.dbnPattern, { message: "Rule needs dbns or dbnPattern" })
+  .refine(rule => rule.floor !== undefined || rule.ceiling !== undefined, { message: "Rule needs a floor or ceiling" });
+
+export type SchoolScoreOverrideRule = z.infer<typeof overrideRuleSchema>;
+
+/**
+ * Score a composite rating by its percentile in the citywide distribution
+ */
+export function calibrateByPercentile(compositeRating: number, percentiles: number[], datasetYear: string | null): SchoolCalibration {
+  const percentile = percentileOf(compositeRating, percentiles);
+  return {
+    score: Math.round(percentile),
+    method: "citywide_percentile",
+    percentile: Math.round(percentile * 10) / 10,
+    datasetYear,
+    override: null
+  };
+}
+
+/**
+ * Percentile (0-100) of a rating within a distribution given as ratings at
+ * evenly spaced percentiles (P0, P5, ..., P100), interpolated between them
+ */
+export function percentileOf(rating: number, percentiles: number[]): number {
+  const step = 100 / (percentiles.length - 1);
+  if (rating <= percentiles[0]) return 0;
+  if (rating >= percentiles[percentiles.length - 1]) return 100;
+
+  // Several steps can share a rating where many schools tie; use the middle of the run
+  let low = 0;
+  while (low < percentiles.length - 1 && percentiles[low + 1] < rating) low++;
+  const high = low + 1;
+  if (percentiles[high] === rating) {
+    let end = high;
+    while (end < percentiles.length - 1 && percentiles[end + 1] === rating) end++;
+    return (high + end) / 2 * step;
+  }
+
+  const span = percentiles[high] - percentiles[low];
+  return (low + (rating - percentiles[low]) / span) * step;
+}
+
+/**
+ * Bound a calibrated score by the first matching rule that changes it
+ */
+export function applyOverrides(rules: SchoolScoreOverrideRule[], dbn: string, compositeRating: number, calibration: SchoolCalibration): SchoolCalibration {
+  for (const rule of rules) {
+    if (!matchesRule(rule, dbn, compositeRating)) continue;
+
+    const bounded = Math.min(rule.ceiling ?? 100, Math.max(rule.floor ?? 0, calibration.score));
+    if (bounded === calibration.score) continue;
+
+    console.log(`[SchoolCalibration] Override ${rule.id} applied to ${dbn}: ${calibration.score} -> ${bounded}`);
+    return {
+      ...calibration,
+      score: bounded,
+      override: { ruleId: rule.id, description: rule.description, scoreBeforeOverride: calibration.score }
+    };
+  }
+  return calibration;
+}
+
+function matchesRule(rule: SchoolScoreOverrideRule, dbn: string, compositeRating: number): boolean {
+  const listed = rule.dbns?.some(ruleDbn => ruleDbn.toUpperCase() === dbn.toUpperCase()) ?? false;
+  const patterned = rule.dbnPattern ? new RegExp(rule.dbnPattern, "i").test(dbn) : false;
+  if (!listed && !patterned) return false;
+  return rule.minCompositeRating === undefined || compositeRating >= rule.minCompositeRating;
+}
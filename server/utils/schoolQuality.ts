@@ -0,0 +1,101 @@
+/**
+ * School quality metrics as published in the DOE School Quality Reports, and
+ * the composite rating the school score is built on. Shared by the scoring
+ * service and the borough median job so both rate schools the same way.
+ */
+
+export interface SchoolQualityData {
+  dbn: string;
+  school_name: string;
+  ela_proficiency?: number;
+  math_proficiency?: number;
+  school_environment?: number;
+  attendance_rate?: number;
+  grade_span_all?: string;
+  history?: SchoolQualityYear[]; // Every report year on file for the school, oldest first
+}
+
+export interface SchoolQualityYear {
+  reportYear: string; // e.g. "2022-23"
+  elaProficiency: number | null;
+  mathProficiency: number | null;
+  schoolEnvironment: number | null;
+  attendanceRate: number | null;
+  compositeRating: number;
+}
+
+export interface SchoolTrend {
+  direction: "improving" | "stable" | "declining";
+  slope: number; // Composite rating change per year, least squares
+  years: SchoolQualityYear[];
+}
+
+// Composite rating change per year below which a school counts as stable
+const STABLE_SLOPE = 0.1;
+
+/**
+ * Composite rating on a 1-10 scale: the average of ELA and math proficiency,
+ * school environment and (at half weight) attendance, over whichever are known
+ */
+export function calculateCompositeRating(qualityData: SchoolQualityData): number {
+  const scores: number[] = [];
+  
+  // ELA proficiency (0-100%) → normalized to 1-10
+  if (qualityData.ela_proficiency) {
+    scores.push(Math.min(10, (qualityData.ela_proficiency / 100) * 10));
+  }
+  
+  // Math proficiency (0-100%) → normalized to 1-10  
+  if (qualityData.math_proficiency) {
+    scores.push(Math.min(10, (qualityData.math_proficiency / 100) * 10));
+  }
+  
+  // School environment (typically 1-10 scale)
+  if (qualityData.school_environment) {
+    scores.push(Math.min(10, qualityData.school_environment));
+  }
+  
+  // Attendance rate (0-100%) → normalized to 1-10, weighted lower
+  if (qualityData.attendance_rate) {
+    const attendanceScore = Math.min(10, (qualityData.attendance_rate / 100) * 10);
+    scores.push(attendanceScore * 0.5); // Lower weight for attendance
+  }
+  
+  // Return weighted average, fallback to 5.0 (median)
+  return scores.length > 0 ? scores.reduce((a, b) => a + b) / scores.length : 5.0;
+}
+
+/**
+ * Whether a school has any of the metrics the composite rating uses
+ */
+export function hasQualityMetrics(qualityData: SchoolQualityData): boolean {
+  return Boolean(qualityData.ela_proficiency || qualityData.math_proficiency || qualityData.school_environment || qualityData.attendance_rate);
+}
+
+/**
+ * Least-squares trend of the composite rating across report years, or null
+ * with fewer than two years on file
+ */
+export function calculateTrend(history: SchoolQualityYear[]): SchoolTrend | null {
+  const points = history
+    .map(year => ({ x: parseInt(year.reportYear, 10), y: year.compositeRating }))
+    .filter(point => !isNaN(point.x));
+  if (points.length < 2) {
+    return null;
+  }
+
+  const meanX = points.reduce((sum, point) => sum + point.x, 0) / points.length;
+  const meanY = points.reduce((sum, point) => sum + point.y, 0) / points.length;
+  const covariance = points.reduce((sum, point) => sum + (point.x - meanX) * (point.y - meanY), 0);
+  const variance = points.reduce((sum, point) => sum + (point.x - meanX) ** 2, 0);
+  if (variance === 0) {
+    return null;
+  }
+
+  const slope = Math.round(covariance / variance * 100) / 100;
+  return {
+    direction: slope >= STABLE_SLOPE ? "improving" : slope <= -STABLE_SLOPE ? "declining" : "stable",
+    slope,
+    years: history
+  };
+}
@@ -0,0 +1,264 @@
+/**
+ * One parser for NYC street addresses, shared by the listing extractors,
+ * market analysis, geocoding and the client. Splits an address into house
+ * number, street, unit, borough and ZIP code, and gives two street forms:
+ * a display form ("East 45th Street") and a comparison key in the form DCP's
+ * Property Address Directory uses ("EAST 45 STREET"), with aliases such as
+ * Avenue of the Americas / 6th Avenue folded together.
+ */
+
+export type AddressBorough = "Manhattan" | "Bronx" | "Brooklyn" | "Queens" | "Staten Island";
+
+export interface ParsedAddress {
+  houseNumber: string | null; // As written, e.g. "123", "37-12", "12A"
+  street: string; // Display form, e.g. "East 45th Street"
+  unit: string | null; // e.g. "4B"
+  borough: AddressBorough | null; // From a borough or city name in the address, else the ZIP code
+  zipCode: string | null;
+}
+
+export interface HouseNumber {
+  key: number; // Sort key comparable within one numbering style
+  hyphenated: boolean; // Queens-style "37-12": block 37, house 12
+}
+
+const DIRECTIONS: Record<string, string> = { E: "EAST", W: "WEST", N: "NORTH", S: "SOUTH" };
+
+const STREET_SUFFIXES: Record<string, string> = {
+  ST: "STREET", STR: "STREET",
+  AVE: "AVENUE", AV: "AVENUE", AVEN: "AVENUE",
+  PL: "PLACE",
+  RD: "ROAD",
+  DR: "DRIVE",
+  LN: "LANE",
+  BLVD: "BOULEVARD",
+  PKWY: "PARKWAY", PKY: "PARKWAY",
+  TER: "TERRACE", TERR: "TERRACE",
+  CT: "COURT",
+  SQ: "SQUARE",
+  PLZ: "PLAZA",
+  HWY: "HIGHWAY",
+  EXPY: "EXPRESSWAY",
+  TPKE: "TURNPIKE",
+  CRES: "CRESCENT",
+  CIR: "CIRCLE"
+};
+
+const SUFFIX_NAMES = new Set(Object.values(STREET_SUFFIXES).concat(["LOOP", "WAY", "WALK", "ROW", "SLIP"]));
+
+const ORDINAL_WORDS: Record<string, string> = {
+  FIRST: "1", SECOND: "2", THIRD: "3", FOURTH: "4", FIFTH: "5", SIXTH: "6",
+  SEVENTH: "7", EIGHTH: "8", NINTH: "9", TENTH: "10", ELEVENTH: "11", TWELFTH: "12"
+};
+
+// Street names that share house numbering with another name, keyed by the
+// normalized form, mapped to the name comparisons use
+const STREET_ALIASES: Record<string, string> = {
+  "AVENUE OF THE AMERICAS": "6 AVENUE",
+  "ADAM CLAYTON POWELL JR BOULEVARD": "7 AVENUE",
+  "ADAM CLAYTON POWELL BOULEVARD": "7 AVENUE",
+  "ADAM C POWELL BOULEVARD": "7 AVENUE",
+  "FREDERICK DOUGLASS BOULEVARD": "8 AVENUE",
+  "MALCOLM X BOULEVARD": "LENOX AVENUE"
+};
+
+// Borough and common postal city names, as they appear after the street
+const BOROUGH_PLACES: Array<[RegExp, AddressBorough]> = [
+  [/^(MANHATTAN|NEW YORK|NEW YORK CITY|NYC)$/, "Manhattan"],
+  [/^(BRONX|THE BRONX)$/, "Bronx"],
+  [/^BROOKLYN$/, "Brooklyn"],
+  [/^(QUEENS|ASTORIA|LONG ISLAND CITY|FLUSHING|JAMAICA|FOREST HILLS|SUNNYSIDE|WOODSIDE|JACKSON HEIGHTS|ELMHURST|BAYSIDE|RIDGEWOOD|REGO PARK|KEW GARDENS|FAR ROCKAWAY)$/, "Queens"],
+  [/^STATEN ISLAND$/, "Staten Island"]
+];
+
+const UNIT_PATTERN = /(?:\s|^)(?:APT|APARTMENT|UNIT|STE|SUITE|FL|FLOOR|RM|ROOM|#)\.?\s*#?\s*([A-Z0-9][A-Z0-9-]*)\s*$/;
+
+const BARE_UNIT_PATTERN = /^(\d{1,4}[A-Z]{0,2}|[A-Z]|PH\s?\d*[A-Z]?)$/;
+
+const LOWERCASE_WORDS = new Set(["OF", "THE", "AND"]);
+
+/**
+ * Split a one-line address ("123 E 45th St, Apt 4B, New York, NY 10017")
+ * into its parts. Returns null when there is no street.
+ */
+export function parseAddress(address: string): ParsedAddress | null {
+  const segments = address.toUpperCase().split(",").map(segment => segment.trim()).filter(Boolean);
+  if (segments.length === 0) return null;
+
+  let first = segments[0];
+  let unit: string | null = null;
+  const unitMatch = first.match(UNIT_PATTERN);
+  if (unitMatch && unitMatch.index! > 0) {
+    unit = unitMatch[1];
+    first = first.slice(0, unitMatch.index).trim();
+  }
+
+  const numbered = first.match(/^(\d+(?:\s*-\s*\d+)?[A-Z]?)\s+(.+)$/);
+  const street = formatStreet(numbered ? numbered[2] : first);
+  if (!street) return null;
+
+  let borough: AddressBorough | null = null;
+  let zipCode: string | null = null;
+  segments.slice(1).forEach((segment, index) => {
+    const segmentUnit = segment.match(UNIT_PATTERN);
+    if (segmentUnit && segmentUnit.index === 0) {
+      unit = unit || segmentUnit[1];
+      return;
+    }
+    // A bare unit right after the street, as in DOF sales records: "245 EAST 93RD STREET, 12B"
+    if (index === 0 && BARE_UNIT_PATTERN.test(segment)) {
+      unit = unit || segment;
+      return;
+    }
+    const zip = segment.match(/\b(1[01]\d{3})(?:-\d{4})?\b/);
+    if (zip) zipCode = zip[1];
+    const place = segment.replace(/\b(NY|NEW YORK)\s+\d{5}(-\d{4})?$/, "").replace(/\s+(NY|USA?)$/, "").trim();
+    const match = BOROUGH_PLACES.find(([pattern]) => pattern.test(place));
+    if (match && !borough) borough = match[1];
+  });
+
+  return {
+    houseNumber: numbered ? numbered[1].replace(/\s+/g, "") : null,
+    street,
+    unit,
+    borough: borough || (zipCode ? boroughForZip(zipCode) : null),
+    zipCode
+  };
+}
+
+/**
+ * Address from a listing URL slug, e.g. StreetEasy's "41-5-avenue-new_york"
+ * or "37-12-31-avenue-astoria" (a Queens block-house number)
+ */
+export function addressFromSlug(slug: string): string {
+  const words = slug
+    .replace(/[-_](new_york|manhattan|brooklyn|queens|bronx|staten_island|astoria|long_island_city)$/i, "")
+    .split(/[-_]+/)
+    .filter(Boolean);
+
+  // Two numbers before a numbered street: the first two were hyphenated
+  if (words.length > 3 && /^\d+$/.test(words[0]) && /^\d+$/.test(words[1]) && /^\d+(st|nd|rd|th)?$/i.test(words[2])) {
+    words.splice(0, 2, `${words[0]}-${words[1]}`);
+  }
+  return words.join(" ");
+}
+
+/**
+ * Street for display: directions and suffixes spelled out, numbered streets
+ * as ordinals ("E 45 ST" -> "East 45th Street")
+ */
+export function formatStreet(street: string): string {
+  const tokens = streetTokens(street);
+  return tokens.map((token, index) => {
+    if (/^\d+$/.test(token) && isNumberedStreet(tokens, index)) return ordinal(parseInt(token, 10));
+    if (index > 0 && LOWERCASE_WORDS.has(token)) return token.toLowerCase();
+    return token.charAt(0) + token.slice(1).toLowerCase();
+  }).join(" ");
+}
+
+/**
+ * Street comparison key in PAD form, with aliases folded together
+ * ("Avenue of the Americas", "6th Ave" -> "6 AVENUE")
+ */
+export function normalizeStreetName(street: string): string {
+  const key = streetTokens(street).join(" ");
+  return STREET_ALIASES[key] || key;
+}
+
+/**
+ * Display form of a free-text address ("123 e 45th st apt 4b" -> "123 East
+ * 45th Street, Apt 4B"), or the text trimmed when it has no street
+ */
+export function normalizeAddress(address: string): string {
+  const parsed = parseAddress(address);
+  return parsed ? formatAddress(parsed) : address.trim();
+}
+
+/**
+ * "123 East 45th Street, Apt 4B"; the unit is left off when includeUnit is false
+ */
+export function formatAddress(address: ParsedAddress, includeUnit: boolean = true): string {
+  const line = address.houseNumber ? `${address.houseNumber} ${address.street}` : address.street;
+  return includeUnit && address.unit ? `${line}, Apt ${address.unit}` : line;
+}
+
+/**
+ * Key under which two spellings of the same address (and unit) compare equal,
+ * e.g. "123 E 45th St #4B" and "123 East 45 Street, Apt 4B". A unit passed
+ * separately is used when the address itself has none.
+ */
+export function addressKey(address: string, unit?: string | null): string {
+  const parsed = parseAddress(address);
+  if (!parsed) return address.trim().toUpperCase();
+
+  const unitKey = (parsed.unit || unit || "").toUpperCase().replace(/^(APT|UNIT|#)\.?\s*/, "").trim();
+  const line = [parsed.houseNumber, normalizeStreetName(parsed.street)].filter(Boolean).join(" ");
+  return unitKey ? `${line} #${unitKey}` : line;
+}
+
+/**
+ * Numeric key for a house number, ignoring letter suffixes. Hyphenated
+ * numbers key on block then house ("37-12" -> 370012) and only compare
+ * with other hyphenated numbers.
+ */
+export function parseHouseNumber(houseNumber: string): HouseNumber | null {
+  const hyphenated = houseNumber.match(/^(\d+)\s*-\s*(\d+)/);
+  if (hyphenated) {
+    return { key: parseInt(hyphenated[1], 10) * 10000 + parseInt(hyphenated[2], 10), hyphenated: true };
+  }
+  const plain = houseNumber.match(/^(\d+)/);
+  return plain ? { key: parseInt(plain[1], 10), hyphenated: false } : null;
+}
+
+/**
+ * Borough for a NYC ZIP code, or null outside the city
+ */
+export function boroughForZip(zipCode: string): AddressBorough | null {
+  const prefix = zipCode.substring(0, 3);
+  if (["100", "101", "102"].includes(prefix)) return "Manhattan";
+  if (prefix === "104") return "Bronx";
+  if (prefix === "112") return "Brooklyn";
+  if (["110", "111", "113", "114", "116"].includes(prefix)) return "Queens";
+  if (prefix === "103") return "Staten Island";
+  return null;
+}
+
+/**
+ * Upper-case street tokens with abbreviations expanded and ordinals bare
+ */
+function streetTokens(street: string): string[] {
+  const tokens = street.toUpperCase().replace(/[.,']/g, "").split(/\s+/).filter(Boolean);
+  const last = tokens.length - 1;
+
+  return tokens.map((token, index) => {
+    // A trailing direction follows the suffix: "Park Ave S"
+    const beforeDirection = index === last - 1 && (DIRECTIONS[tokens[last]] || Object.values(DIRECTIONS).includes(tokens[last]));
+    if (index === 0 && tokens.length > 1 && DIRECTIONS[token]) return DIRECTIONS[token];
+    if ((index === last || beforeDirection) && index > 0 && STREET_SUFFIXES[token]) return STREET_SUFFIXES[token];
+    if (index === last && index > 1 && DIRECTIONS[token] && SUFFIX_NAMES.has(STREET_SUFFIXES[tokens[index - 1]] || tokens[index - 1])) {
+      return DIRECTIONS[token];
+    }
+    const numbered = token.match(/^(\d+)(ST|ND|RD|TH)$/);
+    if (numbered) return numbered[1];
+    if (ORDINAL_WORDS[token] && index < last) return ORDINAL_WORDS[token];
+    return token;
+  });
+}
+
+function isNumberedStreet(tokens: string[], index: number): boolean {
+  const next = tokens[index + 1];
+  const previous = tokens[index - 1];
+  return (next !== undefined && SUFFIX_NAMES.has(next)) ||
+    (previous !== undefined && (Object.values(DIRECTIONS).includes(previous) || previous === "BEACH"));
+}
+
+function ordinal(value: number): string {
+  const lastTwo = value % 100;
+  if (lastTwo >= 11 && lastTwo <= 13) return `${value}th`;
+  switch (value % 10) {
+    case 1: return `${value}st`;
+    case 2: return `${value}nd`;
+    case 3: return `${value}rd`;
+    default: return `${value}th`;
+  }
+}
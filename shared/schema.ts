@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, real, integer, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, real, integer, boolean, timestamp, point, index } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -15,6 +15,7 @@ export const schoolScoreAudits = pgTable("school_score_audits", {
   listingId: varchar("listing_id"),
   schoolDbn: text("school_dbn"), // DOE District-Borough-Number
   schoolName: text("school_name"),
+  schoolLevel: text("school_level"), // 'elementary', 'middle', 'high'; one audit row per zoned level
   elaScore: real("ela_score"), // ELA proficiency percentage
   mathScore: real("math_score"), // Math proficiency percentage
   environmentScore: real("environment_score"), // School environment rating
@@ -22,17 +23,84 @@ export const schoolScoreAudits = pgTable("school_score_audits", {
   compositeRating: real("composite_rating"), // Calculated 1-10 rating
   boroughMedian: real("borough_median"), // Borough median for adjustment
   finalScore: integer("final_score"), // Final 0-100 score
+  calibrationMethod: text("calibration_method"), // 'citywide_percentile', or 'borough_logistic' before medians are loaded
+  calibratedPercentile: real("calibrated_percentile"), // Citywide percentile of the composite rating
+  overrideRule: text("override_rule"), // Id of the override rule applied, if any
+  scoreBeforeOverride: integer("score_before_override"), // Calibrated score the override replaced
+  yearlyMetrics: text("yearly_metrics"), // JSON metrics and composite rating per report year, oldest first
+  trend: text("trend"), // 'improving', 'stable', 'declining'; null with fewer than two report years
+  trendSlope: real("trend_slope"), // Composite rating change per year
   dataSource: text("data_source").notNull(), // 'doe_quality_reports', 'district_avg'
   createdAt: timestamp("created_at").defaultNow(),
 });
 
-// Borough median school ratings for relative adjustments
+// Borough median school ratings for relative adjustments, plus a "Citywide"
+// row whose percentiles calibrate the school score
 export const boroughSchoolMedians = pgTable("borough_school_medians", {
   borough: text("borough").primaryKey(), // 'Manhattan', 'Brooklyn', etc.
   median: real("median").notNull(), // Median composite rating
+  percentiles: text("percentiles"), // JSON composite ratings at P0, P5, ..., P100
+  schoolCount: integer("school_count"), // Schools with quality metrics behind the figures
+  datasetYear: text("dataset_year"), // School Quality Report year, e.g. "2022-23"; null for built-in estimates
   lastUpdated: timestamp("last_updated").defaultNow(),
 });
 
+// Per-school metrics for each School Quality Report year loaded
+export const schoolQualityReports = pgTable("school_quality_reports", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  dbn: text("dbn").notNull(),
+  reportYear: text("report_year").notNull(), // e.g. "2022-23"
+  schoolName: text("school_name"),
+  elaProficiency: real("ela_proficiency"),
+  mathProficiency: real("math_proficiency"),
+  schoolEnvironment: real("school_environment"),
+  attendanceRate: real("attendance_rate"),
+  compositeRating: real("composite_rating").notNull(),
+  lastUpdated: timestamp("last_updated").defaultNow(),
+}, (table) => [
+  index("school_quality_reports_dbn_idx").on(table.dbn, table.reportYear),
+]);
+
+// School zone polygons by school year and level, imported from DOE zone files
+export const schoolZones = pgTable("school_zones", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  schoolYear: text("school_year").notNull(), // e.g. "2024-2025"
+  level: text("level").notNull(), // 'elementary', 'middle', 'high'
+  dbn: text("dbn").notNull(), // Zoned school's DOE District-Borough-Number
+  schoolName: text("school_name"),
+  grades: text("grades"),
+  borough: text("borough"),
+  polygons: text("polygons").notNull(), // JSON MultiPolygon coordinates in WGS84 [lng, lat]
+  minLat: real("min_lat").notNull(),
+  minLng: real("min_lng").notNull(),
+  maxLat: real("max_lat").notNull(),
+  maxLng: real("max_lng").notNull(),
+  lastUpdated: timestamp("last_updated").defaultNow(),
+}, (table) => [
+  index("school_zones_year_level_idx").on(table.schoolYear, table.level),
+]);
+
+// School choice programs beyond the zoned school: district-wide G&T, dual
+// language and screened programs, and charter schools
+export const schoolPrograms = pgTable("school_programs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  dbn: text("dbn").notNull(),
+  schoolName: text("school_name").notNull(),
+  programType: text("program_type").notNull(), // 'gifted_talented', 'dual_language', 'screened', 'charter'
+  programName: text("program_name"), // e.g. "Spanish Dual Language", "Anderson School G&T"
+  grades: text("grades"),
+  district: integer("district"), // Community school district the program admits from; null for charters
+  borough: text("borough"),
+  address: text("address"),
+  lat: real("lat").notNull(),
+  lng: real("lng").notNull(),
+  location: point("location", { mode: "xy" }).notNull(), // x = lng, y = lat
+  lastUpdated: timestamp("last_updated").defaultNow(),
+}, (table) => [
+  index("school_programs_location_idx").using("gist", table.location),
+  index("school_programs_district_idx").on(table.district),
+]);
+
 // Property data table for storing extracted StreetEasy information
 export const properties = pgTable("properties", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -71,6 +139,7 @@ export const neighborhoodEnrichmentAudits = pgTable("neighborhood_enrichment_aud
   walkabilityScore: integer("walkability_score"), // 0-100 walkability rating
   noiseScore: integer("noise_score"), // 0-100 score (higher = quieter)
   parkingScore: integer("parking_score"), // 0-100 score (higher = better parking)
+  commuteScore: integer("commute_score"), // 0-100 score for requested commute destinations
   nearestSubwayStation: text("nearest_subway_station"),
   nearestSubwayDistance: real("nearest_subway_distance"), // Distance in miles
   dataSource: text("data_source").notNull(), // Source of enrichment data
@@ -84,10 +153,168 @@ export const subwayStations = pgTable("subway_stations", {
   lat: real("lat").notNull(),
   lng: real("lng").notNull(),
   lines: text("lines").notNull(), // JSON array of subway lines
+  expressLines: text("express_lines").notNull().default("[]"), // JSON array of lines making express stops here
   borough: text("borough"),
   lastUpdated: timestamp("last_updated").defaultNow(),
 });
 
+// Street-level station entrances used as walking-route destinations
+export const subwayStationEntrances = pgTable("subway_station_entrances", {
+  id: varchar("id").primaryKey(),
+  stationId: varchar("station_id").notNull(),
+  lat: real("lat").notNull(),
+  lng: real("lng").notNull(),
+  entranceType: text("entrance_type"), // Stair, Elevator, Escalator, Easement...
+  lastUpdated: timestamp("last_updated").defaultNow(),
+});
+
+// Bus stops from the MTA bus GTFS feeds (one feed per borough plus MTA Bus Co)
+export const busStops = pgTable("bus_stops", {
+  id: varchar("id").primaryKey(),
+  name: text("name").notNull(),
+  lat: real("lat").notNull(),
+  lng: real("lng").notNull(),
+  routes: text("routes").notNull(), // JSON array of bus routes serving the stop
+  lastUpdated: timestamp("last_updated").defaultNow(),
+});
+
+// Citi Bike docking stations from the GBFS station_information feed
+export const citiBikeStations = pgTable("citi_bike_stations", {
+  id: varchar("id").primaryKey(),
+  name: text("name").notNull(),
+  lat: real("lat").notNull(),
+  lng: real("lng").notNull(),
+  capacity: integer("capacity"), // Number of docks
+  lastUpdated: timestamp("last_updated").defaultNow(),
+});
+
+// Points of interest from an OpenStreetMap extract, bucketed into amenity categories
+export const amenities = pgTable("amenities", {
+  id: varchar("id").primaryKey(), // OSM element, e.g. "node/123456"
+  name: text("name"),
+  category: text("category").notNull(), // grocery, convenience, dining, coffee, parks, ...
+  osmTag: text("osm_tag").notNull(), // Tag that matched, e.g. "amenity=cafe"
+  lat: real("lat").notNull(),
+  lng: real("lng").notNull(),
+  location: point("location", { mode: "xy" }).notNull(), // x = lng, y = lat
+  lastUpdated: timestamp("last_updated").defaultNow(),
+}, (table) => [
+  index("amenities_location_idx").using("gist", table.location),
+  index("amenities_category_idx").on(table.category),
+]);
+
+// 311 service requests for noise complaint types
+export const noiseComplaints = pgTable("noise_complaints", {
+  id: varchar("id").primaryKey(), // 311 Unique Key
+  complaintType: text("complaint_type").notNull(), // e.g. "Noise - Residential"
+  descriptor: text("descriptor"), // e.g. "Loud Music/Party"
+  borough: text("borough"),
+  lat: real("lat").notNull(),
+  lng: real("lng").notNull(),
+  location: point("location", { mode: "xy" }).notNull(), // x = lng, y = lat
+  createdDate: timestamp("created_date").notNull(),
+  hourOfDay: integer("hour_of_day").notNull(), // 0-23, local time
+}, (table) => [
+  index("noise_complaints_location_idx").using("gist", table.location),
+  index("noise_complaints_borough_idx").on(table.borough),
+]);
+
+// DOB job filings (BIS Job Application Filings and DOB NOW Build) for new buildings,
+// major alterations and demolitions
+export const constructionJobs = pgTable("construction_jobs", {
+  id: varchar("id").primaryKey(), // DOB job number / job filing number
+  source: text("source").notNull(), // "dob_bis" or "dob_now"
+  jobType: text("job_type").notNull(), // new_building, major_alteration, demolition
+  status: text("status").notNull(), // filed, approved, permitted, completed, withdrawn
+  statusDescription: text("status_description"),
+  address: text("address"),
+  borough: text("borough"),
+  lat: real("lat").notNull(),
+  lng: real("lng").notNull(),
+  location: point("location", { mode: "xy" }).notNull(), // x = lng, y = lat
+  stories: integer("stories"),
+  filingDate: timestamp("filing_date"),
+  approvedDate: timestamp("approved_date"),
+  permitDate: timestamp("permit_date"),
+  signoffDate: timestamp("signoff_date"),
+  lastUpdated: timestamp("last_updated").defaultNow(),
+}, (table) => [
+  index("construction_jobs_location_idx").using("gist", table.location),
+]);
+
+export const parkingBlockFaces = pgTable("parking_block_faces", {
+  id: varchar("id").primaryKey(), // DOT sign order number (one side of one block)
+  borough: text("borough"),
+  onStreet: text("on_street").notNull(),
+  fromStreet: text("from_street"),
+  toStreet: text("to_street"),
+  sideOfStreet: text("side_of_street"), // N, S, E, W
+  regulations: text("regulations").notNull(), // JSON array of { rule, signCount }, see server/utils/parkingSigns.ts
+  signCount: integer("sign_count").notNull(),
+  lat: real("lat").notNull(), // Mean position of the block face's signs
+  lng: real("lng").notNull(),
+  location: point("location", { mode: "xy" }).notNull(), // x = lng, y = lat
+  lastUpdated: timestamp("last_updated").defaultNow(),
+}, (table) => [
+  index("parking_block_faces_location_idx").using("gist", table.location),
+]);
+
+export const garages = pgTable("garages", {
+  id: varchar("id").primaryKey(), // DCWP license number
+  name: text("name").notNull(),
+  address: text("address"),
+  borough: text("borough"),
+  lat: real("lat").notNull(),
+  lng: real("lng").notNull(),
+  location: point("location", { mode: "xy" }).notNull(), // x = lng, y = lat
+  capacity: integer("capacity"), // Licensed vehicle spaces
+  hours: text("hours"), // e.g. "24/7", from the rates CSV
+  monthlyRate: integer("monthly_rate"), // USD per month, from the rates CSV
+  lastUpdated: timestamp("last_updated").defaultNow(),
+}, (table) => [
+  index("garages_location_idx").using("gist", table.location),
+]);
+
+// House-number ranges from DCP's Property Address Directory (PAD), one row per
+// range on one street name, positioned at the building footprint's centroid
+export const padAddresses = pgTable("pad_addresses", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  boroughCode: text("borough_code").notNull(), // "1"-"5"
+  street: text("street").notNull(), // Normalized PAD street name, e.g. "EAST 45 STREET"
+  lowHouseNumber: text("low_house_number").notNull(), // As displayed, e.g. "37-12"
+  highHouseNumber: text("high_house_number").notNull(),
+  lowKey: integer("low_key").notNull(), // See parseHouseNumber in shared/address.ts
+  highKey: integer("high_key").notNull(),
+  hyphenated: boolean("hyphenated").notNull(), // Queens-style block-house numbers
+  bbl: text("bbl").notNull(), // 10-digit borough-block-lot
+  bin: text("bin"), // Building Identification Number
+  zipCode: text("zip_code"),
+  lat: real("lat").notNull(),
+  lng: real("lng").notNull(),
+  lastUpdated: timestamp("last_updated").defaultNow(),
+}, (table) => [
+  index("pad_addresses_street_idx").on(table.street, table.boroughCode),
+]);
+
+// Geocoding results keyed by normalized address, so repeat lookups skip the
+// geocoders. Pinned rows are analyst corrections and never expire.
+export const geocodeCache = pgTable("geocode_cache", {
+  addressKey: text("address_key").primaryKey(), // See geocodeCacheKey in server/services/geocodeCache.ts
+  address: text("address").notNull(), // As first submitted
+  lat: real("lat").notNull(),
+  lng: real("lng").notNull(),
+  formattedAddress: text("formatted_address").notNull(),
+  provider: text("provider").notNull(), // 'pad', 'nominatim' or 'manual'
+  confidence: real("confidence").notNull(), // 0-100
+  borough: text("borough"),
+  neighborhood: text("neighborhood"), // From the geocoder, for when no NTA boundaries are loaded
+  bbl: text("bbl"),
+  bin: text("bin"),
+  pinned: boolean("pinned").notNull().default(false),
+  note: text("note"), // Why a location was pinned
+  geocodedAt: timestamp("geocoded_at").defaultNow().notNull(),
+});
+
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
@@ -102,6 +329,21 @@ export const insertBoroughSchoolMedianSchema = createInsertSchema(boroughSchoolM
   lastUpdated: true,
 });
 
+export const insertSchoolQualityReportSchema = createInsertSchema(schoolQualityReports).omit({
+  id: true,
+  lastUpdated: true,
+});
+
+export const insertSchoolProgramSchema = createInsertSchema(schoolPrograms).omit({
+  id: true,
+  lastUpdated: true,
+});
+
+export const insertSchoolZoneSchema = createInsertSchema(schoolZones).omit({
+  id: true,
+  lastUpdated: true,
+});
+
 export const insertPropertySchema = createInsertSchema(properties).omit({
   id: true,
   extractedAt: true,
@@ -116,6 +358,45 @@ export const insertSubwayStationSchema = createInsertSchema(subwayStations).omit
   lastUpdated: true,
 });
 
+export const insertSubwayStationEntranceSchema = createInsertSchema(subwayStationEntrances).omit({
+  lastUpdated: true,
+});
+
+export const insertBusStopSchema = createInsertSchema(busStops).omit({
+  lastUpdated: true,
+});
+
+export const insertCitiBikeStationSchema = createInsertSchema(citiBikeStations).omit({
+  lastUpdated: true,
+});
+
+export const insertAmenitySchema = createInsertSchema(amenities).omit({
+  lastUpdated: true,
+});
+
+export const insertNoiseComplaintSchema = createInsertSchema(noiseComplaints);
+
+export const insertConstructionJobSchema = createInsertSchema(constructionJobs).omit({
+  lastUpdated: true,
+});
+
+export const insertParkingBlockFaceSchema = createInsertSchema(parkingBlockFaces).omit({
+  lastUpdated: true,
+});
+
+export const insertGarageSchema = createInsertSchema(garages).omit({
+  lastUpdated: true,
+});
+
+export const insertPadAddressSchema = createInsertSchema(padAddresses).omit({
+  id: true,
+  lastUpdated: true,
+});
+
+export const insertGeocodeCacheSchema = createInsertSchema(geocodeCache).omit({
+  geocodedAt: true,
+});
+
 // Market analysis and comparable properties tables
 export const marketAnalysisAudits = pgTable("market_analysis_audits", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -172,15 +453,45 @@ export const propertyExtractionRequestSchema = z.object({
   ),
 });
 
+// Office, school or other address to estimate the commute to
+export const commuteDestinationSchema = z.object({
+  address: z.string().min(1, "Destination address is required"),
+  label: z.string().optional(),
+  lat: z.number().min(-90).max(90).optional(),
+  lng: z.number().min(-180).max(180).optional(),
+});
+
 export const neighborhoodEnrichmentRequestSchema = z.object({
   lat: z.number().min(-90).max(90, "Latitude must be between -90 and 90"),
   lng: z.number().min(-180).max(180, "Longitude must be between -180 and 180"),
   address: z.string().optional(),
+  commuteDestinations: z.array(commuteDestinationSchema).max(5, "At most 5 commute destinations").optional(),
 });
 
 // API request validation schemas
 export const boroughEnum = z.enum(["Manhattan", "Brooklyn", "Queens", "Bronx", "Staten Island"]);
 
+export const schoolLevelEnum = z.enum(["elementary", "middle", "high"]);
+
+export const schoolProgramTypeEnum = z.enum(["gifted_talented", "dual_language", "screened", "charter"]);
+
+export const geographyRequestSchema = z.object({
+  lat: z.number().min(-90).max(90, "Latitude must be between -90 and 90"),
+  lng: z.number().min(-180).max(180, "Longitude must be between -180 and 180"),
+});
+
+export const geocodeRequestSchema = z.object({
+  address: z.string().min(1, "Address is required"),
+});
+
+// Analyst correction for an address the geocoders place wrongly
+export const geocodeOverrideRequestSchema = z.object({
+  address: z.string().min(1, "Address is required"),
+  lat: z.number().min(40.4, "Latitude must be within New York City").max(41.0, "Latitude must be within New York City"),
+  lng: z.number().min(-74.3, "Longitude must be within New York City").max(-73.6, "Longitude must be within New York City"),
+  note: z.string().max(500).optional(),
+});
+
 export const schoolScoreRequestSchema = z.object({
   lat: z.number().min(-90).max(90, "Latitude must be between -90 and 90"),
   lng: z.number().min(-180).max(180, "Longitude must be between -180 and 180"),
@@ -192,6 +503,7 @@ export const analyzePropertyRequestSchema = z.object({
   lat: z.number().min(-90).max(90, "Latitude must be between -90 and 90"),
   lng: z.number().min(-180).max(180, "Longitude must be between -180 and 180"),
   borough: boroughEnum,
+  commuteDestinations: z.array(commuteDestinationSchema).max(5, "At most 5 commute destinations").optional(),
 });
 
 export const marketAnalysisRequestSchema = z.object({
@@ -218,24 +530,56 @@ export type InsertSchoolScoreAudit = z.infer<typeof insertSchoolScoreAuditSchema
 export type SchoolScoreAudit = typeof schoolScoreAudits.$inferSelect;
 export type InsertBoroughSchoolMedian = z.infer<typeof insertBoroughSchoolMedianSchema>;
 export type BoroughSchoolMedian = typeof boroughSchoolMedians.$inferSelect;
+export type InsertSchoolZone = z.infer<typeof insertSchoolZoneSchema>;
+export type SchoolZone = typeof schoolZones.$inferSelect;
+export type InsertSchoolQualityReport = z.infer<typeof insertSchoolQualityReportSchema>;
+export type SchoolQualityReport = typeof schoolQualityReports.$inferSelect;
+export type InsertSchoolProgram = z.infer<typeof insertSchoolProgramSchema>;
+export type SchoolProgram = typeof schoolPrograms.$inferSelect;
 export type InsertProperty = z.infer<typeof insertPropertySchema>;
 export type Property = typeof properties.$inferSelect;
 export type InsertNeighborhoodEnrichmentAudit = z.infer<typeof insertNeighborhoodEnrichmentAuditSchema>;
 export type NeighborhoodEnrichmentAudit = typeof neighborhoodEnrichmentAudits.$inferSelect;
 export type InsertSubwayStation = z.infer<typeof insertSubwayStationSchema>;
 export type SubwayStation = typeof subwayStations.$inferSelect;
+export type InsertSubwayStationEntrance = z.infer<typeof insertSubwayStationEntranceSchema>;
+export type SubwayStationEntrance = typeof subwayStationEntrances.$inferSelect;
+export type InsertBusStop = z.infer<typeof insertBusStopSchema>;
+export type BusStop = typeof busStops.$inferSelect;
+export type InsertCitiBikeStation = z.infer<typeof insertCitiBikeStationSchema>;
+export type CitiBikeStation = typeof citiBikeStations.$inferSelect;
+export type InsertAmenity = z.infer<typeof insertAmenitySchema>;
+export type Amenity = typeof amenities.$inferSelect;
+export type InsertNoiseComplaint = z.infer<typeof insertNoiseComplaintSchema>;
+export type NoiseComplaint = typeof noiseComplaints.$inferSelect;
+export type InsertConstructionJob = z.infer<typeof insertConstructionJobSchema>;
+export type ConstructionJob = typeof constructionJobs.$inferSelect;
+export type InsertParkingBlockFace = z.infer<typeof insertParkingBlockFaceSchema>;
+export type ParkingBlockFace = typeof parkingBlockFaces.$inferSelect;
+export type InsertGarage = z.infer<typeof insertGarageSchema>;
+export type Garage = typeof garages.$inferSelect;
+export type InsertPadAddress = z.infer<typeof insertPadAddressSchema>;
+export type PadAddress = typeof padAddresses.$inferSelect;
+export type InsertGeocodeCacheEntry = z.infer<typeof insertGeocodeCacheSchema>;
+export type GeocodeCacheEntry = typeof geocodeCache.$inferSelect;
 export type InsertMarketAnalysisAudit = z.infer<typeof insertMarketAnalysisAuditSchema>;
 export type MarketAnalysisAudit = typeof marketAnalysisAudits.$inferSelect;
 export type InsertComparableProperty = z.infer<typeof insertComparablePropertySchema>;
 export type ComparableProperty = typeof comparableProperties.$inferSelect;
 
 // API request types
+export type CommuteDestination = z.infer<typeof commuteDestinationSchema>;
+export type GeographyRequest = z.infer<typeof geographyRequestSchema>;
+export type GeocodeRequest = z.infer<typeof geocodeRequestSchema>;
+export type GeocodeOverrideRequest = z.infer<typeof geocodeOverrideRequestSchema>;
 export type SchoolScoreRequest = z.infer<typeof schoolScoreRequestSchema>;
 export type AnalyzePropertyRequest = z.infer<typeof analyzePropertyRequestSchema>;
 export type PropertyExtractionRequest = z.infer<typeof propertyExtractionRequestSchema>;
 export type NeighborhoodEnrichmentRequest = z.infer<typeof neighborhoodEnrichmentRequestSchema>;
 export type MarketAnalysisRequest = z.infer<typeof marketAnalysisRequestSchema>;
 export type Borough = z.infer<typeof boroughEnum>;
+export type SchoolLevel = z.infer<typeof schoolLevelEnum>;
+export type SchoolProgramType = z.infer<typeof schoolProgramTypeEnum>;
 
 // Extracted property data type for extraction services
 export type ExtractedPropertyData = {